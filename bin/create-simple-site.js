@@ -278,11 +278,10 @@ export default function RootLayout({
 @tailwind utilities;`
     },
     'config': {
-      'theme.ts': `export const theme = {
-  colors: {
-    primary: '#f97316'
-  }
-}`
+      'theme.ts': `import { createThemeFromBrand } from '@zoyth/simple-site-framework';
+
+export const theme = createThemeFromBrand({ primary: '#f97316' });
+`
     },
     'public': {},
     'package.json': JSON.stringify({
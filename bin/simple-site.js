@@ -10,6 +10,7 @@ const inquirer = require('inquirer');
 const chalk = require('chalk');
 const ora = require('ora');
 const path = require('path');
+const vm = require('vm');
 const fs = require('fs-extra');
 
 const program = new Command();
@@ -89,6 +90,122 @@ program
     }
   });
 
+// Validate configuration command
+program
+  .command('validate [dir]')
+  .description('Validate a content directory or site configuration files')
+  .option('--content <file>', 'Site content JSON file')
+  .option('--navigation <file>', 'Navigation JSON file')
+  .option('--theme <file>', 'Theme JSON file')
+  .option('--scripts <file>', 'Scripts JSON file')
+  .action(async (dir, options) => {
+    try {
+      await validateConfig(dir, options);
+    } catch (error) {
+      console.error(chalk.red('\n✖ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Contrast check command
+program
+  .command('contrast')
+  .description('Check theme color pairings against WCAG 2.2 contrast requirements')
+  .option('--theme <file>', 'Theme JSON file exported from config/theme.ts', path.join('config', 'theme.json'))
+  .option('--level <level>', 'AA or AAA', 'AA')
+  .option('--scheme <name>', 'Color scheme to check (defaults to every scheme)')
+  .action((options) => {
+    try {
+      checkContrast(options);
+    } catch (error) {
+      console.error(chalk.red('\n✖ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Translation report command
+program
+  .command('i18n-report')
+  .description('Report missing, empty and untranslated strings per locale')
+  .requiredOption('--content <file>', 'Site content JSON file')
+  .option('--navigation <file>', 'Navigation JSON file')
+  .option('--strict', 'Exit with an error when translations are incomplete')
+  .action(async (options) => {
+    try {
+      await translationReport(options);
+    } catch (error) {
+      console.error(chalk.red('\n✖ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Translation export command
+program
+  .command('i18n-export')
+  .description('Export strings for translators as XLIFF 2.0 or CSV')
+  .requiredOption('--content <file>', 'Site content JSON file')
+  .requiredOption('--locale <locale>', 'Locale to translate into')
+  .option('--navigation <file>', 'Navigation JSON file')
+  .option('--source <locale>', 'Locale to translate from (defaults to the default locale)')
+  .option('--format <format>', 'xliff or csv', 'xliff')
+  .option('--untranslated', 'Only export strings without a translation')
+  .option('--out <file>', 'Output file (defaults to stdout)')
+  .action(async (options) => {
+    try {
+      await exportTranslationFile(options);
+    } catch (error) {
+      console.error(chalk.red('\n✖ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Translation import command
+program
+  .command('i18n-import <file>')
+  .description('Merge translations from an XLIFF or CSV file into the config')
+  .requiredOption('--content <file>', 'Site content JSON file')
+  .option('--navigation <file>', 'Navigation JSON file')
+  .option('--overwrite', 'Replace existing translations that differ')
+  .option('--dry-run', 'Show what would change without writing files')
+  .option('--yes', 'Write changes without asking for confirmation')
+  .action(async (file, options) => {
+    try {
+      await importTranslationFile(file, options);
+    } catch (error) {
+      console.error(chalk.red('\n✖ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// JSON Schema editor setup command
+program
+  .command('schemas')
+  .description('Print editor settings that enable validation and completion for config files')
+  .option('--content-dir <dir>', 'Content directory loaded with loadSiteContent', 'content')
+  .action((options) => {
+    printSchemaSettings(options);
+  });
+
+// Migrate configuration command
+program
+  .command('migrate')
+  .description('Upgrade configuration files to the current schema version')
+  .option('--content <file>', 'Site content JSON file')
+  .option('--navigation <file>', 'Navigation JSON file')
+  .option('--theme <file>', 'Theme JSON file')
+  .option('--scripts <file>', 'Scripts JSON file')
+  .option('--to <version>', 'Target schema version (defaults to the latest)')
+  .option('--dry-run', 'Show what would change without writing files')
+  .option('--yes', 'Write changes without asking for confirmation')
+  .action(async (options) => {
+    try {
+      await migrateConfig(options);
+    } catch (error) {
+      console.error(chalk.red('\n✖ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
 program.parse();
 
 // Component registry
@@ -352,19 +469,69 @@ async function configWizard() {
         name: 'primary',
         message: 'Primary color (hex):',
         validate: (input) => /^#[0-9A-F]{6}$/i.test(input) || 'Please enter a valid hex color'
+      },
+      {
+        type: 'input',
+        name: 'neutralHue',
+        message: 'Hue of the greys, 0-360 (leave empty to tint them with the primary):',
+        validate: (input) =>
+          input === '' || (Number(input) >= 0 && Number(input) <= 360) || 'Please enter a hue from 0 to 360'
       }
     ]);
 
+    const options = { primary: colorAnswers.primary };
+    if (colorAnswers.neutralHue !== '') options.neutralHue = Number(colorAnswers.neutralHue);
+
+    // Check the options before touching the file
+    loadFramework().createThemeFromBrand(options);
+
+    const themeContent = fs.readFileSync(configPath, 'utf-8');
+    const brandOptions = findBrandOptions(themeContent);
+
+    if (!brandOptions) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: 'config/theme.ts does not use createThemeFromBrand(). Replace it (a copy is kept in config/theme.ts.bak)?',
+          default: false
+        }
+      ]);
+      if (!confirm) return;
+      fs.writeFileSync(`${configPath}.bak`, themeContent);
+    }
+
     const spinner = ora('Updating theme...').start();
 
     try {
-      let themeContent = fs.readFileSync(configPath, 'utf-8');
-      themeContent = themeContent.replace(
-        /(primary:\s*['"])#[0-9A-F]{6}/gi,
-        `$1${colorAnswers.primary}`
-      );
-      fs.writeFileSync(configPath, themeContent);
-      spinner.succeed('Theme updated!');
+      if (brandOptions) {
+        // Keep the other brand options, such as the name, and the overrides argument
+        const kept = Object.entries(brandOptions.values).filter(
+          ([key, value]) => !(key in options) && ['string', 'number'].includes(typeof value)
+        );
+        Object.assign(options, Object.fromEntries(kept));
+        fs.writeFileSync(
+          configPath,
+          themeContent.slice(0, brandOptions.start) +
+            formatBrandOptions(options) +
+            themeContent.slice(brandOptions.end)
+        );
+      } else {
+        fs.writeFileSync(
+          configPath,
+          [
+            "import { createThemeFromBrand } from '@zoyth/simple-site-framework';",
+            '',
+            '// Pass fonts, design and other overrides as a second argument',
+            `export const theme = createThemeFromBrand(${formatBrandOptions(options)});`,
+            ''
+          ].join('\n')
+        );
+      }
+      spinner.succeed(`Theme colors derived from ${options.primary} with createThemeFromBrand()!`);
+      if (!brandOptions) {
+        console.log(chalk.gray('\nCopy fonts and design settings from config/theme.ts.bak into the overrides.'));
+      }
     } catch (error) {
       spinner.fail('Failed to update theme');
       throw error;
@@ -374,6 +541,407 @@ async function configWizard() {
   console.log(chalk.green('\n✓ Configuration complete!\n'));
 }
 
+/**
+ * Find the options object passed to createThemeFromBrand() in a theme file
+ */
+function findBrandOptions(content) {
+  const call = content.indexOf('createThemeFromBrand(');
+  if (call === -1) return null;
+  const start = content.indexOf('{', call);
+  if (start === -1 || content.slice(call + 'createThemeFromBrand('.length, start).trim()) return null;
+
+  let depth = 0;
+  for (let index = start; index < content.length; index++) {
+    if (content[index] === '{') depth++;
+    if (content[index] === '}' && --depth === 0) {
+      let values = {};
+      try {
+        // Plain literals only; options built from variables are replaced as a whole
+        values = vm.runInNewContext(`(${content.slice(start, index + 1)})`, {}, { timeout: 100 });
+      } catch {
+        // Keep the defaults
+      }
+      return { start, end: index + 1, values };
+    }
+  }
+  return null;
+}
+
+function formatBrandOptions(options) {
+  const entries = Object.entries(options).map(([key, value]) =>
+    `${key}: ${typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : value}`
+  );
+  return `{ ${entries.join(', ')} }`;
+}
+
+function loadFrameworkConfig() {
+  try {
+    return require('../dist/config/index.js');
+  } catch {
+    throw new Error('Framework build not found. Run `npm run build` in the framework package first.');
+  }
+}
+
+function loadFramework() {
+  try {
+    return require('../dist/index.js');
+  } catch {
+    throw new Error('Framework build not found. Run `npm run build` in the framework package first.');
+  }
+}
+
+function readJsonFile(file) {
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${file}`);
+  }
+  return fs.readJsonSync(filePath);
+}
+
+async function validateContentDirectory(dir) {
+  let server;
+  try {
+    server = require('../dist/server/index.js');
+  } catch {
+    throw new Error('Framework build not found. Run `npm run build` in the framework package first.');
+  }
+
+  try {
+    const { warnings } = await server.loadSiteContent(path.resolve(process.cwd(), dir));
+    warnings.forEach((issue) => {
+      console.log(chalk.yellow(`  ⚠ ${server.formatContentFileIssues([issue]).replace(/^warning /, '')}`));
+    });
+    console.log(chalk.green(`\n✓ Content in ${dir} is valid (${warnings.length} warning(s))\n`));
+  } catch (error) {
+    if (!(error instanceof server.ContentLoadError)) throw error;
+    error.issues.forEach((issue) => {
+      console.log(chalk.red(`  ✖ ${server.formatContentFileIssues([issue])}`));
+    });
+    console.log(chalk.red(`\n✖ ${error.issues.length} error(s)\n`));
+    process.exit(1);
+  }
+}
+
+async function validateConfig(dir, options) {
+  if (dir) {
+    await validateContentDirectory(dir);
+    return;
+  }
+
+  const { validateSiteConfig } = loadFrameworkConfig();
+
+  const input = {};
+  for (const kind of ['content', 'navigation', 'theme', 'scripts']) {
+    if (options[kind]) {
+      input[kind] = readJsonFile(options[kind]);
+    }
+  }
+
+  if (Object.keys(input).length === 0) {
+    console.log(chalk.yellow('\n⚠ Nothing to validate.\n'));
+    console.log(chalk.gray('Use: simple-site validate content/'));
+    console.log(chalk.gray('  or simple-site validate --content content.json --theme theme.json\n'));
+    return;
+  }
+
+  const result = validateSiteConfig(input);
+
+  result.errors.forEach((issue) => {
+    console.log(chalk.red(`  ✖ [${issue.config}] ${issue.path || '(root)'}: ${issue.message}`));
+  });
+  result.warnings.forEach((issue) => {
+    console.log(chalk.yellow(`  ⚠ [${issue.config}] ${issue.path || '(root)'}: ${issue.message}`));
+  });
+
+  if (!result.valid) {
+    console.log(chalk.red(`\n✖ ${result.errors.length} error(s), ${result.warnings.length} warning(s)\n`));
+    process.exit(1);
+  }
+
+  console.log(chalk.green(`\n✓ Configuration is valid (${result.warnings.length} warning(s))\n`));
+}
+
+function checkContrast(options) {
+  const { auditThemeContrast, getColorSchemeNames } = loadFramework();
+  const level = options.level.toUpperCase();
+  if (level !== 'AA' && level !== 'AAA') {
+    throw new Error(`Unknown level "${options.level}", expected AA or AAA`);
+  }
+
+  if (!fs.existsSync(path.resolve(process.cwd(), options.theme))) {
+    throw new Error(
+      `Theme file not found: ${options.theme}\n` +
+      '  The contrast check reads the theme as JSON. Export config/theme.ts first, e.g. in scripts/build-theme.ts:\n' +
+      "  writeFileSync('config/theme.json', JSON.stringify(theme, null, 2));\n" +
+      '  See "Contrast Check" in CLI.md.'
+    );
+  }
+
+  const theme = readJsonFile(options.theme);
+  const schemes = options.scheme
+    ? [options.scheme]
+    : theme.colorSchemes ? getColorSchemeNames(theme) : [undefined];
+  let failures = 0;
+
+  for (const scheme of schemes) {
+    const audit = auditThemeContrast(theme, { level, scheme });
+    console.log(chalk.bold(`\n${scheme ? `${scheme} scheme` : 'Theme'} (WCAG 2.2 ${level})`));
+
+    audit.checks.forEach((check) => {
+      const ratio = `${check.ratio.toFixed(2)}:1`.padStart(8);
+      const passed = !audit.failures.includes(check);
+      console.log(passed ? chalk.green(`  ✓ ${ratio}  ${check.label}`) : chalk.red(`  ✖ ${ratio}  ${check.label}`));
+      if (check.suggestion) {
+        console.log(chalk.gray(`             try ${check.suggestion.token}: ${check.suggestion.color} (${check.suggestion.ratio}:1)`));
+      }
+    });
+    audit.skipped.forEach((item) => {
+      console.log(chalk.yellow(`  ⚠ ${item.id}: can't measure ${item.token} "${item.color}"`));
+    });
+    failures += audit.failures.length;
+  }
+
+  if (failures > 0) {
+    console.log(chalk.red(`\n✖ ${failures} pairing(s) below ${level}\n`));
+    process.exit(1);
+  }
+  console.log(chalk.green(`\n✓ Every pairing meets ${level}\n`));
+}
+
+async function translationReport(options) {
+  const { generateTranslationReport } = loadFramework();
+
+  const report = generateTranslationReport({
+    content: readJsonFile(options.content),
+    navigation: options.navigation ? readJsonFile(options.navigation) : undefined,
+  });
+
+  console.log(chalk.bold.cyan('\n🌍 Translation Coverage\n'));
+  report.locales.forEach((locale) => {
+    const { coverage, translated, total } = report.coverage[locale];
+    const color = coverage === 100 ? chalk.green : chalk.yellow;
+    console.log(color(`  ${locale.padEnd(8)} ${String(coverage).padStart(5)}%  (${translated}/${total})`));
+  });
+
+  if (report.issues.length > 0) {
+    console.log(chalk.bold('\nIssues:'));
+    report.issues.forEach((issue) => {
+      const color = issue.kind === 'identical' ? chalk.gray : chalk.red;
+      console.log(color(`  ${issue.kind.padEnd(10)} [${issue.locale}] ${issue.config}.${issue.path}`));
+    });
+  }
+
+  if (options.strict && !report.complete) {
+    console.log(chalk.red('\n✖ Translations are incomplete\n'));
+    process.exit(1);
+  }
+
+  console.log('');
+}
+
+async function exportTranslationFile(options) {
+  const { exportTranslations } = loadFramework();
+
+  if (!['xliff', 'csv'].includes(options.format)) {
+    throw new Error(`Unknown format "${options.format}". Use xliff or csv.`);
+  }
+
+  const output = exportTranslations(
+    {
+      content: readJsonFile(options.content),
+      navigation: options.navigation ? readJsonFile(options.navigation) : undefined,
+    },
+    {
+      targetLocale: options.locale,
+      sourceLocale: options.source,
+      format: options.format,
+      untranslatedOnly: options.untranslated,
+    }
+  );
+
+  if (!options.out) {
+    process.stdout.write(output);
+    return;
+  }
+
+  fs.writeFileSync(path.resolve(process.cwd(), options.out), output);
+  console.log(chalk.green(`\n✓ Wrote ${options.out}\n`));
+}
+
+async function importTranslationFile(file, options) {
+  const { importTranslations } = loadFramework();
+
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${file}`);
+  }
+
+  const result = importTranslations(
+    {
+      content: readJsonFile(options.content),
+      navigation: options.navigation ? readJsonFile(options.navigation) : undefined,
+    },
+    fs.readFileSync(filePath, 'utf8'),
+    { overwrite: options.overwrite }
+  );
+
+  console.log(chalk.bold.cyan(`\n🌍 Importing ${result.targetLocale} translations\n`));
+  result.applied.forEach((unit) => {
+    console.log(chalk.green(`  ✓ ${unit.config}.${unit.path}`));
+  });
+  result.issues.forEach((issue) => {
+    const color = issue.kind === 'conflict' ? chalk.yellow : chalk.gray;
+    console.log(color(`  ${issue.kind.padEnd(10)} ${issue.config}.${issue.path}`));
+    if (issue.kind === 'conflict') {
+      console.log(chalk.gray(`             current:  ${issue.current}`));
+      console.log(chalk.gray(`             imported: ${issue.target}`));
+    }
+  });
+
+  const conflicts = result.issues.filter((issue) => issue.kind === 'conflict').length;
+  if (conflicts > 0) {
+    console.log(chalk.yellow(`\n⚠ ${conflicts} conflict(s) kept; rerun with --overwrite to replace them`));
+  }
+
+  if (result.applied.length === 0) {
+    console.log(chalk.green('\n✓ Nothing to import\n'));
+    return;
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.yellow(`\n⚠ Dry run: ${result.applied.length} translation(s) not written\n`));
+    return;
+  }
+
+  if (!options.yes) {
+    const { confirm } = await inquirer.prompt([
+      { type: 'confirm', name: 'confirm', message: `Write ${result.applied.length} translation(s)?`, default: true }
+    ]);
+    if (!confirm) return;
+  }
+
+  const files = { content: options.content, navigation: options.navigation };
+  for (const kind of new Set(result.applied.map((unit) => unit.config))) {
+    fs.writeJsonSync(path.resolve(process.cwd(), files[kind]), result[kind], { spaces: 2 });
+    console.log(chalk.green(`✓ Updated ${files[kind]}`));
+  }
+  console.log('');
+}
+
+// Content directory file patterns and the schema describing them
+const CONTENT_SCHEMAS = {
+  'metadata.{json,yaml,yml}': 'content/metadata.schema.json',
+  'hero.{json,yaml,yml}': 'content/hero.schema.json',
+  'recognition.{json,yaml,yml}': 'content/recognition.schema.json',
+  'about.{json,yaml,yml}': 'content/about.schema.json',
+  'why-choose-us.{json,yaml,yml}': 'content/why-choose-us.schema.json',
+  'services.{json,yaml,yml}': 'content/services.schema.json',
+  'contact.{json,yaml,yml}': 'content/contact.schema.json',
+  'team.{json,yaml,yml}': 'content/team.schema.json',
+  'navigation.{json,yaml,yml}': 'navigation.schema.json',
+  'navigation/header.{json,yaml,yml}': 'content/navigation-header.schema.json',
+  'navigation/footer.{json,yaml,yml}': 'content/navigation-footer.schema.json',
+  'service-pages/*.{json,yaml,yml}': 'content/service-page.schema.json',
+  'pages/*.{json,yaml,yml}': 'content/page.schema.json',
+};
+
+function printSchemaSettings(options) {
+  const base = './node_modules/@zoyth/simple-site-framework/dist/schemas';
+  const dir = options.contentDir.replace(/\/$/, '');
+
+  const mappings = {
+    [`${base}/site-content.schema.json`]: ['**/content.json'],
+    [`${base}/theme.schema.json`]: ['**/theme.json'],
+    [`${base}/scripts.schema.json`]: ['**/scripts.json'],
+  };
+  for (const [pattern, schema] of Object.entries(CONTENT_SCHEMAS)) {
+    const key = `${base}/${schema}`;
+    mappings[key] = [...(mappings[key] || []), `${dir}/${pattern}`];
+  }
+
+  const jsonSchemas = Object.entries(mappings).map(([url, fileMatch]) => ({
+    fileMatch: fileMatch.map((match) => match.replace('{json,yaml,yml}', 'json')),
+    url,
+  }));
+  const yamlSchemas = Object.fromEntries(
+    Object.entries(mappings).map(([url, fileMatch]) => [
+      url,
+      fileMatch.map((match) => match.replace('{json,yaml,yml}', '{yaml,yml}')),
+    ])
+  );
+
+  console.log(chalk.bold.cyan('\n🧩 Add to .vscode/settings.json\n'));
+  console.log(JSON.stringify({ 'json.schemas': jsonSchemas, 'yaml.schemas': yamlSchemas }, null, 2));
+  console.log(chalk.gray('\nYAML validation requires the Red Hat YAML extension.'));
+  console.log(chalk.gray(`Or reference a schema per file: "$schema": "${base}/theme.schema.json"\n`));
+}
+
+async function migrateConfig(options) {
+  const { migrateSiteConfig, CURRENT_SCHEMA_VERSION } = loadFrameworkConfig();
+
+  // Explicit files, or the JSON configs in config/ by default
+  const files = {};
+  for (const kind of ['content', 'navigation', 'theme', 'scripts']) {
+    const file = options[kind] || path.join('config', `${kind}.json`);
+    if (options[kind] || fs.existsSync(path.resolve(process.cwd(), file))) {
+      files[kind] = file;
+    }
+  }
+
+  if (Object.keys(files).length === 0) {
+    console.log(chalk.yellow('\n⚠ No configuration files found.\n'));
+    console.log(chalk.gray('Use: simple-site migrate --content content.json --navigation navigation.json\n'));
+    return;
+  }
+
+  const input = {};
+  for (const [kind, file] of Object.entries(files)) {
+    input[kind] = readJsonFile(file);
+  }
+
+  if (options.to !== undefined && !/^[1-9]\d*$/.test(options.to)) {
+    throw new Error(`Invalid --to "${options.to}", expected a schema version such as ${CURRENT_SCHEMA_VERSION}`);
+  }
+  const to = options.to ? Number(options.to) : CURRENT_SCHEMA_VERSION;
+  const result = migrateSiteConfig(input, { to });
+
+  console.log(chalk.bold.cyan(`\n🔧 Migrating to schema version ${result.toVersion}\n`));
+
+  if (result.applied.length === 0) {
+    console.log(chalk.green('✓ Configuration is already up to date\n'));
+    return;
+  }
+
+  result.applied.forEach((migration) => {
+    console.log(chalk.bold(`  v${migration.version}: ${migration.description}`));
+    result.changes
+      .filter((change) => change.version === migration.version)
+      .forEach((change) => {
+        const symbol = { added: '+', removed: '-', changed: '~' }[change.kind];
+        const value = change.kind === 'removed' ? change.before : change.after;
+        console.log(chalk.gray(`    ${symbol} ${change.config}.${change.path} ${JSON.stringify(value)}`));
+      });
+  });
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\n⚠ Dry run: no files were written\n'));
+    return;
+  }
+
+  if (!options.yes) {
+    const { confirm } = await inquirer.prompt([
+      { type: 'confirm', name: 'confirm', message: 'Write these changes?', default: true }
+    ]);
+    if (!confirm) return;
+  }
+
+  for (const [kind, file] of Object.entries(files)) {
+    fs.writeJsonSync(path.resolve(process.cwd(), file), result.config[kind], { spaces: 2 });
+    console.log(chalk.green(`✓ Updated ${file}`));
+  }
+  console.log(chalk.gray('\nReview the changes with `git diff` before committing.\n'));
+}
+
 function capitalize(str) {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
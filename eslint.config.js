@@ -40,9 +40,16 @@ export default [
         HTMLButtonElement: 'readonly',
         HTMLDivElement: 'readonly',
         HTMLSpanElement: 'readonly',
+        HTMLAnchorElement: 'readonly',
+        HTMLUListElement: 'readonly',
         Element: 'readonly',
+        Node: 'readonly',
         Event: 'readonly',
+        MouseEvent: 'readonly',
+        MutationObserver: 'readonly',
+        URL: 'readonly',
         NodeJS: 'readonly',
+        Intl: 'readonly',
       },
     },
     plugins: {
@@ -59,6 +66,8 @@ export default [
       'react/prop-types': 'off',
       '@typescript-eslint/no-explicit-any': 'warn',
       '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
+      // Registries start empty and are filled by module augmentation in apps
+      '@typescript-eslint/no-empty-object-type': ['error', { allowWithName: 'Registry$' }],
     },
     settings: {
       react: {
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Generates JSON Schema documents from the config TypeScript interfaces
+ * TSDoc comments become schema descriptions, so editors show the same docs as IntelliSense
+ */
+
+const path = require('path');
+const fs = require('fs');
+const { createGenerator } = require('ts-json-schema-generator');
+
+const root = path.join(__dirname, '..');
+const outDir = path.join(root, 'dist', 'schemas');
+
+// [source file, type name, output file]
+const SCHEMAS = [
+  ['content.schema.ts', 'SiteContent', 'site-content.schema.json'],
+  ['navigation.schema.ts', 'NavigationConfig', 'navigation.schema.json'],
+  ['theme.schema.ts', 'ThemeConfig', 'theme.schema.json'],
+  ['scripts.schema.ts', 'ScriptsConfig', 'scripts.schema.json'],
+
+  // One schema per file of a content directory (see loadSiteContent)
+  ['content.schema.ts', 'SiteMetadata', 'content/metadata.schema.json'],
+  ['content.schema.ts', 'HeroContent', 'content/hero.schema.json'],
+  ['content.schema.ts', 'RecognitionContent', 'content/recognition.schema.json'],
+  ['content.schema.ts', 'AboutContent', 'content/about.schema.json'],
+  ['content.schema.ts', 'WhyChooseUsContent', 'content/why-choose-us.schema.json'],
+  ['content.schema.ts', 'ServicesContent', 'content/services.schema.json'],
+  ['content.schema.ts', 'ContactContent', 'content/contact.schema.json'],
+  ['content.schema.ts', 'TeamContent', 'content/team.schema.json'],
+  ['content.schema.ts', 'ServicePageContent', 'content/service-page.schema.json'],
+  ['content.schema.ts', 'PageContent', 'content/page.schema.json'],
+  ['navigation.schema.ts', 'HeaderConfig', 'content/navigation-header.schema.json'],
+  ['navigation.schema.ts', 'FooterConfig', 'content/navigation-footer.schema.json'],
+];
+
+const generators = new Map();
+
+function getGenerator(file) {
+  if (!generators.has(file)) {
+    generators.set(
+      file,
+      createGenerator({
+        path: path.join(root, 'src', 'config', file),
+        tsconfig: path.join(root, 'tsconfig.json'),
+        type: '*',
+        expose: 'export',
+        topRef: true,
+        jsDoc: 'extended',
+        skipTypeCheck: true,
+      })
+    );
+  }
+  return generators.get(file);
+}
+
+for (const [file, type, output] of SCHEMAS) {
+  const schema = getGenerator(file).createSchema(type);
+  schema.$id = `https://github.com/zoyth/simple-site-framework/schemas/${output}`;
+  schema.title = type;
+
+  const outPath = path.join(outDir, output);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(schema, null, 2) + '\n');
+}
+
+console.log(`Generated ${SCHEMAS.length} JSON schemas in ${path.relative(root, outDir)}`);
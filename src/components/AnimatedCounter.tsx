@@ -5,6 +5,8 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { useMotionHooks } from '../lib/utils/motion'
+import type { Locale } from '../lib/i18n/config'
+import { useFormatter } from './MessagesProvider'
 
 export interface AnimatedCounterProps {
   /** Starting value @default 0 */
@@ -15,14 +17,16 @@ export interface AnimatedCounterProps {
   duration?: number
   /** Number of decimal places @default 0 */
   decimals?: number
-  /** Thousands separator @default ',' */
+  /** Thousands separator, overriding the locale's grouping separator */
   separator?: string
-  /** Prefix (e.g., '$', '+') */
+  /** ISO 4217 currency code; formats the value as a price (e.g., 'CAD') */
+  currency?: string
+  /** Prefix (e.g., '+') */
   prefix?: string
   /** Suffix (e.g., '%', '+', 'K', 'M') */
   suffix?: string
   /** Locale for number formatting @default 'en' */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Additional CSS classes */
   className?: string
 }
@@ -39,7 +43,7 @@ export interface AnimatedCounterProps {
  *
  * @example
  * // Currency
- * <AnimatedCounter to={2500000} prefix="$" suffix="M+" decimals={1} />
+ * <AnimatedCounter to={2.5} currency="USD" suffix="M+" decimals={1} />
  *
  * @example
  * // Percentage
@@ -55,12 +59,14 @@ export function AnimatedCounter({
   to,
   duration = 2,
   decimals = 0,
-  separator = ',',
+  separator,
+  currency,
   prefix = '',
   suffix = '',
-  locale = 'en',
+  locale,
   className = ''
 }: AnimatedCounterProps) {
+  const format = useFormatter(locale ?? 'en')
   const [count, setCount] = useState(from)
   const ref = useRef<HTMLSpanElement>(null)
   const motionHooks = useMotionHooks()
@@ -95,20 +101,17 @@ export function AnimatedCounter({
   }, [isInView, from, to, duration])
 
   const formatNumber = (value: number): string => {
-    // Round to specified decimal places
-    const rounded = Number(value.toFixed(decimals))
+    const options = { minimumFractionDigits: decimals, maximumFractionDigits: decimals }
+    const formatted = currency
+      ? format.formatPrice(value, currency, options)
+      : format.formatNumber(value, options)
+    if (separator === undefined) return formatted
 
-    if (locale === 'fr') {
-      // French formatting: 1 234,56
-      const parts = rounded.toFixed(decimals).split('.')
-      parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ' ')
-      return parts.join(',')
-    } else {
-      // English formatting: 1,234.56
-      const parts = rounded.toFixed(decimals).split('.')
-      parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, separator)
-      return parts.join('.')
-    }
+    // Swap the locale's grouping separator for the requested one
+    const group = new Intl.NumberFormat(format.locale)
+      .formatToParts(1000000)
+      .find((part) => part.type === 'group')?.value
+    return group ? formatted.split(group).join(separator) : formatted
   }
 
   return (
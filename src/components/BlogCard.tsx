@@ -7,10 +7,12 @@ import { ReactNode } from 'react'
 import { cn } from '../lib/utils/cn'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
+import { useFormatter, useMessages } from './MessagesProvider'
 
 export interface BlogCardProps {
   /** Current locale */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Article title (bilingual) */
   title: LocalizedString | string
   /** Article excerpt (bilingual) */
@@ -25,8 +27,10 @@ export interface BlogCardProps {
   author?: string
   /** Author avatar URL */
   authorAvatar?: string
-  /** Publication date */
-  date?: string
+  /** Publication date; Dates and ISO strings are formatted for the locale */
+  date?: string | Date
+  /** Date format @default 'medium' */
+  dateStyle?: 'full' | 'long' | 'medium' | 'short'
   /** Read time in minutes */
   readTime?: number
   /** Tags/categories */
@@ -37,10 +41,6 @@ export interface BlogCardProps {
   className?: string
 }
 
-const labels = {
-  readTime: { en: 'min read', fr: 'min de lecture' },
-  by: { en: 'by', fr: 'par' }
-}
 
 /**
  * BlogCard - Article preview card for blog listings
@@ -73,6 +73,7 @@ const labels = {
  *   author="Product Team"
  *   authorAvatar="/team/product.jpg"
  *   date="2024-01-20"
+ *   dateStyle="long"
  * />
  *
  * @example
@@ -96,11 +97,14 @@ export function BlogCard({
   author,
   authorAvatar,
   date,
+  dateStyle = 'medium',
   readTime,
   tags,
   variant = 'default',
   className = ''
 }: BlogCardProps) {
+  const format = useFormatter(locale)
+  const dateText = date ? format.formatDate(date, { dateStyle }) : undefined
   const titleText = typeof title === 'string' ? title : getLocalizedString(title, locale)
   const excerptText = excerpt
     ? typeof excerpt === 'string'
@@ -152,7 +156,7 @@ export function BlogCard({
             <BlogMeta
               author={author}
               authorAvatar={authorAvatar}
-              date={date}
+              date={dateText}
               readTime={readTime}
               locale={locale}
             />
@@ -182,7 +186,7 @@ export function BlogCard({
             )}
             <BlogMeta
               author={author}
-              date={date}
+              date={dateText}
               readTime={readTime}
               locale={locale}
               compact
@@ -216,7 +220,7 @@ export function BlogCard({
             className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
           />
           {tags && tags.length > 0 && (
-            <div className="absolute top-4 left-4 flex flex-wrap gap-2">
+            <div className="absolute top-4 start-4 flex flex-wrap gap-2">
               {tags.slice(0, 2).map((tag, index) => (
                 <span
                   key={index}
@@ -251,7 +255,7 @@ export function BlogCard({
         <BlogMeta
           author={author}
           authorAvatar={authorAvatar}
-          date={date}
+          date={dateText}
           readTime={readTime}
           locale={locale}
         />
@@ -272,9 +276,10 @@ function BlogMeta({
   authorAvatar?: string
   date?: string
   readTime?: number
-  locale: 'en' | 'fr'
+  locale: Locale
   compact?: boolean
 }) {
+  const t = useMessages(locale)
   if (!author && !date && !readTime) return null
 
   return (
@@ -288,10 +293,7 @@ function BlogMeta({
               className="w-6 h-6 rounded-full object-cover"
             />
           )}
-          <span>
-            {compact ? '' : `${getLocalizedString(labels.by, locale)} `}
-            {author}
-          </span>
+          <span>{compact ? author : t('blogCard.byAuthor', { author })}</span>
         </div>
       )}
       {date && (
@@ -303,9 +305,7 @@ function BlogMeta({
       {readTime && (
         <>
           {(author || date) && <span>•</span>}
-          <span>
-            {readTime} {getLocalizedString(labels.readTime, locale)}
-          </span>
+          <span>{t('blogCard.readTime', { minutes: readTime })}</span>
         </>
       )}
     </div>
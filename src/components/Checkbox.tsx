@@ -7,6 +7,7 @@ import { forwardRef, InputHTMLAttributes } from 'react'
 import { cn } from '../lib/utils/cn'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
 
 export interface CheckboxProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'type' | 'size'> {
   /** Checkbox label */
@@ -30,7 +31,7 @@ export interface CheckboxGroupProps {
   /** Group label */
   label?: LocalizedString | string
   /** Current locale for bilingual labels */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Array of checkbox options */
   options: CheckboxGroupOption[]
   /** Selected values */
@@ -110,7 +111,7 @@ export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
           />
         </div>
         {(label || description) && (
-          <div className="ml-3 flex-1">
+          <div className="ms-3 flex-1">
             {label && (
               <label
                 htmlFor={props.id}
@@ -6,6 +6,7 @@
 import { useState } from 'react'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
+import { useMessages } from './MessagesProvider'
 
 export interface CodeBlockProps {
   /** Code to display */
@@ -39,6 +40,7 @@ export function CodeBlock({
   showCopy = true,
   className = ''
 }: CodeBlockProps) {
+  const t = useMessages()
   const [copied, setCopied] = useState(false)
 
   const handleCopy = async () => {
@@ -57,7 +59,7 @@ export function CodeBlock({
         <button
           onClick={handleCopy}
           className="absolute top-2 right-2 px-3 py-1.5 text-xs font-medium text-white bg-gray-700 hover:bg-gray-600 rounded opacity-0 group-hover:opacity-100 transition-opacity z-10"
-          aria-label="Copy code"
+          aria-label={t('common.copyCode')}
         >
           {copied ? (
             <span className="flex items-center gap-1">
@@ -68,7 +70,7 @@ export function CodeBlock({
                   clipRule="evenodd"
                 />
               </svg>
-              Copied!
+              {t('common.copied')}
             </span>
           ) : (
             <span className="flex items-center gap-1">
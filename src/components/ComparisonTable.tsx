@@ -8,6 +8,7 @@ import { cn } from '../lib/utils/cn'
 import { Button } from './ui/Button'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
 
 export interface ComparisonFeature {
   /** Feature name (bilingual) */
@@ -35,7 +36,7 @@ export interface ComparisonOption {
 
 export interface ComparisonTableProps {
   /** Current locale */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Table title (bilingual) */
   title?: LocalizedString | string
   /** Table description (bilingual) */
@@ -143,7 +144,7 @@ export function ComparisonTable({
             )}
           >
             <tr>
-              <th className="p-4 text-left font-semibold text-gray-900 border-b-2 border-gray-200">
+              <th className="p-4 text-start font-semibold text-gray-900 border-b-2 border-gray-200">
                 {/* Empty header for feature names column */}
               </th>
               {options.map((option, index) => (
@@ -126,10 +126,10 @@ export function ComponentDemo({
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b border-gray-200">
-                  <th className="text-left py-2 px-3 font-semibold text-gray-900">Prop</th>
-                  <th className="text-left py-2 px-3 font-semibold text-gray-900">Type</th>
-                  <th className="text-left py-2 px-3 font-semibold text-gray-900">Default</th>
-                  <th className="text-left py-2 px-3 font-semibold text-gray-900">Description</th>
+                  <th className="text-start py-2 px-3 font-semibold text-gray-900">Prop</th>
+                  <th className="text-start py-2 px-3 font-semibold text-gray-900">Type</th>
+                  <th className="text-start py-2 px-3 font-semibold text-gray-900">Default</th>
+                  <th className="text-start py-2 px-3 font-semibold text-gray-900">Description</th>
                 </tr>
               </thead>
               <tbody>
@@ -8,10 +8,13 @@ import { getMotionComponent, getAnimatePresence } from '../lib/utils/motion'
 import { cn } from '../lib/utils/cn'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
+import type { MessageKey } from '../lib/i18n/messages'
+import { useMessages } from './MessagesProvider'
 
 export interface CountdownTimerProps {
   /** Current locale */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Target date/time */
   targetDate: Date | string
   /** Label above timer (bilingual) */
@@ -46,16 +49,6 @@ interface TimeRemaining {
   total: number
 }
 
-const labels = {
-  days: { en: 'Days', fr: 'Jours' },
-  hours: { en: 'Hours', fr: 'Heures' },
-  minutes: { en: 'Minutes', fr: 'Minutes' },
-  seconds: { en: 'Seconds', fr: 'Secondes' },
-  day: { en: 'Day', fr: 'Jour' },
-  hour: { en: 'Hour', fr: 'Heure' },
-  minute: { en: 'Minute', fr: 'Minute' },
-  second: { en: 'Second', fr: 'Seconde' }
-}
 
 /**
  * CountdownTimer - Countdown timer for urgency and deadlines
@@ -109,6 +102,7 @@ export function CountdownTimer({
   size = 'md',
   className = ''
 }: CountdownTimerProps) {
+  const t = useMessages(locale)
   const [timeRemaining, setTimeRemaining] = useState<TimeRemaining>(
     calculateTimeRemaining(targetDate)
   )
@@ -150,22 +144,13 @@ export function CountdownTimer({
     )
   }
 
-  const units = [
-    { value: timeRemaining.days, show: showDays, label: labels.days, singular: labels.day },
-    { value: timeRemaining.hours, show: showHours, label: labels.hours, singular: labels.hour },
-    {
-      value: timeRemaining.minutes,
-      show: showMinutes,
-      label: labels.minutes,
-      singular: labels.minute
-    },
-    {
-      value: timeRemaining.seconds,
-      show: showSeconds,
-      label: labels.seconds,
-      singular: labels.second
-    }
-  ].filter((unit) => unit.show)
+  const allUnits: { value: number; show: boolean; label: MessageKey }[] = [
+    { value: timeRemaining.days, show: showDays, label: 'countdown.days' },
+    { value: timeRemaining.hours, show: showHours, label: 'countdown.hours' },
+    { value: timeRemaining.minutes, show: showMinutes, label: 'countdown.minutes' },
+    { value: timeRemaining.seconds, show: showSeconds, label: 'countdown.seconds' }
+  ]
+  const units = allUnits.filter((unit) => unit.show)
 
   const sizeClasses = {
     sm: {
@@ -218,10 +203,7 @@ export function CountdownTimer({
               </MotionDiv>
               {showLabels && (
                 <span className={cn('mt-2 text-gray-600 font-medium', sizeClasses[size].label)}>
-                  {getLocalizedString(
-                    unit.value === 1 ? unit.singular : unit.label,
-                    locale
-                  )}
+                  {t(unit.label, { count: unit.value })}
                 </span>
               )}
             </div>
@@ -247,10 +229,7 @@ export function CountdownTimer({
               </AnimatePresenceComponent>
               {showLabels && (
                 <span className={cn('text-gray-600', sizeClasses[size].label)}>
-                  {getLocalizedString(
-                    unit.value === 1 ? unit.singular : unit.label,
-                    locale
-                  )}
+                  {t(unit.label, { count: unit.value })}
                 </span>
               )}
               {index < units.length - 1 && (
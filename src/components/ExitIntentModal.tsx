@@ -7,10 +7,11 @@ import { useState, useEffect, ReactNode } from 'react'
 import { Modal } from './Modal'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
 
 export interface ExitIntentModalProps {
   /** Current locale */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Modal title (bilingual) */
   title: LocalizedString | string
   /** Modal content */
@@ -8,6 +8,7 @@ import { getMotionComponent } from '../lib/utils/motion'
 import { getAccordionComponents } from '../lib/utils/radix'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
 
 export interface FAQ {
   /** Unique ID for the FAQ item */
@@ -22,7 +23,7 @@ export interface FAQAccordionProps {
   /** Array of FAQ items */
   faqs: FAQ[]
   /** Current locale for display */
-  locale: 'en' | 'fr'
+  locale: Locale
   /** Allow multiple items open at once @default false */
   allowMultiple?: boolean
   /** Default open item IDs */
@@ -112,7 +113,7 @@ export function FAQAccordion({
   )
 }
 
-function FAQItem({ faq, locale }: { faq: FAQ; locale: 'en' | 'fr' }) {
+function FAQItem({ faq, locale }: { faq: FAQ; locale: Locale }) {
   const Accordion = getAccordionComponents()
   const question = getLocalizedString(faq.question, locale)
   const answer =
@@ -128,8 +129,8 @@ function FAQItem({ faq, locale }: { faq: FAQ; locale: 'en' | 'fr' }) {
       className="border border-gray-200 rounded-lg overflow-hidden bg-white hover:border-gray-300 transition-colors"
     >
       <Accordion.Header>
-        <Accordion.Trigger className="flex w-full items-center justify-between px-6 py-4 text-left hover:bg-gray-50 transition-colors group">
-          <span className="text-base font-semibold text-gray-900 pr-4">
+        <Accordion.Trigger className="flex w-full items-center justify-between px-6 py-4 text-start hover:bg-gray-50 transition-colors group">
+          <span className="text-base font-semibold text-gray-900 pe-4">
             {question}
           </span>
           <MotionSvg
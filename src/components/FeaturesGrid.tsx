@@ -4,6 +4,9 @@
 'use client';
 
 import { ReactNode } from 'react';
+import { type Locale } from '../lib/i18n/config';
+import { useMessages } from './MessagesProvider';
+import { TYPE_SCALE_CLASSES } from '../lib/theme/typography';
 
 export interface Feature {
   id: string;
@@ -25,25 +28,12 @@ export interface FeatureCategory {
 interface FeaturesGridProps {
   categories: FeatureCategory[];
   className?: string;
-  locale?: 'fr' | 'en';
+  locale?: Locale;
 }
 
-const labels = {
-  keyBenefits: {
-    fr: 'Avantages clés :',
-    en: 'Key Benefits:',
-  },
-  useCases: {
-    fr: 'Cas d\'usage :',
-    en: 'Use Cases:',
-  },
-  learnMore: {
-    fr: 'En savoir plus',
-    en: 'Learn more',
-  },
-};
-
 export function FeaturesGrid({ categories, className = '', locale = 'en' }: FeaturesGridProps) {
+  const t = useMessages(locale);
+
   return (
     <div className={`py-20 ${className}`}>
       {categories.map((category, categoryIndex) => (
@@ -53,10 +43,10 @@ export function FeaturesGrid({ categories, className = '', locale = 'en' }: Feat
         >
           <div className="container mx-auto px-6">
             <div className="max-w-3xl mb-12">
-              <h2 className="text-3xl md:text-4xl font-bold text-charcoal mb-4">
+              <h2 className={`${TYPE_SCALE_CLASSES.h2} font-bold text-charcoal mb-4`}>
                 {category.name}
               </h2>
-              <p className="text-lg text-charcoal/80">{category.description}</p>
+              <p className={`${TYPE_SCALE_CLASSES.lead} text-charcoal/80`}>{category.description}</p>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
@@ -68,7 +58,7 @@ export function FeaturesGrid({ categories, className = '', locale = 'en' }: Feat
                   {feature.icon && (
                     <div className="w-12 h-12 mb-4 text-primary">{feature.icon}</div>
                   )}
-                  <h3 className="text-xl font-semibold text-charcoal mb-3">
+                  <h3 className={`${TYPE_SCALE_CLASSES.h4} font-semibold text-charcoal mb-3`}>
                     {feature.name}
                   </h3>
                   <p className="text-charcoal/80 mb-4">{feature.description}</p>
@@ -76,7 +66,7 @@ export function FeaturesGrid({ categories, className = '', locale = 'en' }: Feat
                   {feature.benefits && feature.benefits.length > 0 && (
                     <div className="mb-4">
                       <p className="text-sm font-semibold text-charcoal/60 mb-2">
-                        {labels.keyBenefits[locale]}
+                        {t('features.keyBenefits')}
                       </p>
                       <ul className="space-y-1">
                         {feature.benefits.map((benefit, idx) => (
@@ -95,7 +85,7 @@ export function FeaturesGrid({ categories, className = '', locale = 'en' }: Feat
                   {feature.useCases && feature.useCases.length > 0 && (
                     <div className="mb-4">
                       <p className="text-sm font-semibold text-charcoal/60 mb-2">
-                        {labels.useCases[locale]}
+                        {t('features.useCases')}
                       </p>
                       <ul className="space-y-1">
                         {feature.useCases.map((useCase, idx) => (
@@ -116,8 +106,8 @@ export function FeaturesGrid({ categories, className = '', locale = 'en' }: Feat
                       href={feature.learnMoreHref}
                       className="text-primary hover:text-primary-hover text-sm font-medium inline-flex items-center gap-1 group"
                     >
-                      {labels.learnMore[locale]}
-                      <span className="group-hover:translate-x-1 transition-transform duration-200">
+                      {t('common.learnMore')}
+                      <span className="inline-block rtl:-scale-x-100 group-hover:translate-x-1 rtl:group-hover:-translate-x-1 transition-transform duration-200">
                         →
                       </span>
                     </a>
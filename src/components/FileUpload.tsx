@@ -7,10 +7,12 @@ import { useState, useRef, DragEvent, ChangeEvent } from 'react'
 import { cn } from '../lib/utils/cn'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
+import { useMessages } from './MessagesProvider'
 
 export interface FileUploadProps {
   /** Current locale */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Label text (bilingual) */
   label?: LocalizedString | string
   /** Description text (bilingual) */
@@ -37,36 +39,6 @@ export interface FileUploadProps {
   className?: string
 }
 
-const labels = {
-  dropZone: {
-    en: 'Drag & drop files here, or click to select',
-    fr: 'Glissez-déposez des fichiers ici, ou cliquez pour sélectionner'
-  },
-  dropActive: {
-    en: 'Drop files here',
-    fr: 'Déposez les fichiers ici'
-  },
-  browse: {
-    en: 'Browse files',
-    fr: 'Parcourir les fichiers'
-  },
-  remove: {
-    en: 'Remove',
-    fr: 'Retirer'
-  },
-  fileTooLarge: {
-    en: 'File is too large',
-    fr: 'Fichier trop volumineux'
-  },
-  tooManyFiles: {
-    en: 'Too many files',
-    fr: 'Trop de fichiers'
-  },
-  invalidType: {
-    en: 'Invalid file type',
-    fr: 'Type de fichier invalide'
-  }
-}
 
 /**
  * FileUpload - Drag & drop file upload component
@@ -125,6 +97,7 @@ export function FileUpload({
   showPreviews = true,
   className = ''
 }: FileUploadProps) {
+  const t = useMessages(locale)
   const [isDragging, setIsDragging] = useState(false)
   const [validationError, setValidationError] = useState<string>('')
   const inputRef = useRef<HTMLInputElement>(null)
@@ -136,7 +109,7 @@ export function FileUpload({
     // Check number of files
     const totalFiles = value.length + files.length
     if (totalFiles > maxFiles) {
-      error = getLocalizedString(labels.tooManyFiles, locale)
+      error = t('fileUpload.tooManyFiles')
       return { valid, error }
     }
 
@@ -144,13 +117,13 @@ export function FileUpload({
     for (const file of files) {
       // Check file size
       if (file.size > maxSize) {
-        error = `${file.name}: ${getLocalizedString(labels.fileTooLarge, locale)}`
+        error = t('fileUpload.fileTooLarge', { name: file.name })
         break
       }
 
       // Check file type
       if (accept) {
-        const acceptedTypes = accept.split(',').map((t) => t.trim())
+        const acceptedTypes = accept.split(',').map((type) => type.trim())
         const isAccepted = acceptedTypes.some((type) => {
           if (type.startsWith('.')) {
             return file.name.toLowerCase().endsWith(type.toLowerCase())
@@ -163,7 +136,7 @@ export function FileUpload({
         })
 
         if (!isAccepted) {
-          error = `${file.name}: ${getLocalizedString(labels.invalidType, locale)}`
+          error = t('fileUpload.invalidType', { name: file.name })
           break
         }
       }
@@ -301,13 +274,10 @@ export function FileUpload({
 
           <div>
             <p className="text-sm font-medium text-gray-900">
-              {getLocalizedString(
-                isDragging ? labels.dropActive : labels.dropZone,
-                locale
-              )}
+              {isDragging ? t('fileUpload.dropActive') : t('fileUpload.dropZone')}
             </p>
             <p className="text-xs text-gray-500 mt-1">
-              {getLocalizedString(labels.browse, locale)}
+              {t('fileUpload.browse')}
             </p>
           </div>
 
@@ -374,7 +344,7 @@ export function FileUpload({
                 disabled={disabled}
                 className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
               >
-                {getLocalizedString(labels.remove, locale)}
+                {t('fileUpload.remove')}
               </button>
             </div>
           ))}
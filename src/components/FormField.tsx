@@ -67,7 +67,7 @@ export function FormField({
           className="block text-sm font-medium text-gray-700 mb-2"
         >
           {label}
-          {required && <span className="text-red-500 ml-1">*</span>}
+          {required && <span className="text-red-500 ms-1">*</span>}
         </label>
       )}
 
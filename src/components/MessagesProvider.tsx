@@ -0,0 +1,90 @@
+// ABOUTME: Context provider supplying the locale and message overrides to framework components
+// ABOUTME: useMessages() and useFormatter() translate and format for the active locale
+
+'use client'
+
+import { createContext, useContext, useMemo, ReactNode } from 'react'
+import { getDefaultLocale, type Locale } from '../lib/i18n/config'
+import {
+  createTranslator,
+  type MessageOverrides,
+  type Translator,
+} from '../lib/i18n/messages'
+import { createFormatter, type Formatter, type FormatterOptions } from '../lib/i18n/format'
+
+interface MessagesContextType {
+  locale: Locale
+  messages: Partial<Record<Locale, MessageOverrides>>
+}
+
+const NO_MESSAGES: Partial<Record<Locale, MessageOverrides>> = {}
+
+const MessagesContext = createContext<MessagesContextType | undefined>(undefined)
+
+/**
+ * Hook to translate built-in UI strings
+ *
+ * Uses the given locale, else the provider's locale, else the default
+ * locale. Without a MessagesProvider only the built-in catalogs are used.
+ *
+ * @example
+ * const t = useMessages(locale)
+ * <button>{t('multiStepForm.next')}</button>
+ */
+export function useMessages(locale?: Locale): Translator {
+  const context = useContext(MessagesContext)
+  const activeLocale = locale ?? context?.locale ?? getDefaultLocale()
+  const messages = context?.messages
+
+  return useMemo(
+    () => createTranslator({ locale: activeLocale, messages }),
+    [activeLocale, messages]
+  )
+}
+
+/**
+ * Hook to format prices, numbers, dates and durations for the active locale
+ *
+ * Resolves the locale like useMessages().
+ *
+ * @example
+ * const format = useFormatter(locale, { currency: 'CAD' })
+ * <span>{format.formatPrice(49)}</span>
+ */
+export function useFormatter(locale?: Locale, options: FormatterOptions = {}): Formatter {
+  const context = useContext(MessagesContext)
+  const activeLocale = locale ?? context?.locale ?? getDefaultLocale()
+  const { currency, timeZone } = options
+
+  return useMemo(
+    () => createFormatter(activeLocale, { currency, timeZone }),
+    [activeLocale, currency, timeZone]
+  )
+}
+
+export interface MessagesProviderProps {
+  /** Current locale */
+  locale: Locale
+  /** Message overrides and additional locales, e.g. from defineMessages() */
+  messages?: Partial<Record<Locale, MessageOverrides>>
+  /** Content to wrap */
+  children: ReactNode
+}
+
+/**
+ * MessagesProvider - Override the framework's built-in UI strings
+ *
+ * @example
+ * // app/[locale]/layout.tsx
+ * <MessagesProvider locale={locale} messages={messages}>
+ *   {children}
+ * </MessagesProvider>
+ */
+export function MessagesProvider({
+  locale,
+  messages = NO_MESSAGES,
+  children,
+}: MessagesProviderProps) {
+  const value = useMemo(() => ({ locale, messages }), [locale, messages])
+  return <MessagesContext.Provider value={value}>{children}</MessagesContext.Provider>
+}
@@ -6,6 +6,7 @@
 import { ReactNode } from 'react'
 import { getMotionComponent, getAnimatePresence } from '../lib/utils/motion'
 import { getDialogComponents } from '../lib/utils/radix'
+import { useMessages } from './MessagesProvider'
 
 export type ModalSize = 'sm' | 'md' | 'lg' | 'xl' | 'full'
 
@@ -72,6 +73,7 @@ export function Modal({
   closeOnBackdrop = true,
   closeOnEscape = true
 }: ModalProps) {
+  const t = useMessages()
   const MotionDiv = getMotionComponent('div')
   const AnimatePresence = getAnimatePresence()
   const Dialog = getDialogComponents()
@@ -121,8 +123,8 @@ export function Modal({
                           </Dialog.Description>
                         )}
                         <Dialog.Close
-                          className="absolute top-4 right-4 p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
-                          aria-label="Close"
+                          className="absolute top-4 end-4 p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+                          aria-label={t('common.close')}
                         >
                           <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
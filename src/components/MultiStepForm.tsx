@@ -9,10 +9,12 @@ import { cn } from '../lib/utils/cn'
 import { Button } from './ui/Button'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
+import { useMessages } from './MessagesProvider'
 
 export interface MultiStepFormProps {
   /** Current locale */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Form steps */
   children: ReactElement<StepProps>[]
   /** Callback when form is completed */
@@ -44,19 +46,11 @@ interface MultiStepFormContextValue {
   goToStep: (step: number) => void
   isFirstStep: boolean
   isLastStep: boolean
-  locale: 'en' | 'fr'
+  locale: Locale
 }
 
 const MultiStepFormContext = createContext<MultiStepFormContextValue | undefined>(undefined)
 
-const labels = {
-  next: { en: 'Next', fr: 'Suivant' },
-  previous: { en: 'Previous', fr: 'Précédent' },
-  submit: { en: 'Submit', fr: 'Soumettre' },
-  step: { en: 'Step', fr: 'Étape' },
-  of: { en: 'of', fr: 'de' }
-}
-
 /**
  * MultiStepForm - Multi-step form with progress tracking
  *
@@ -115,6 +109,7 @@ export function MultiStepForm({
   allowBack = true,
   className = ''
 }: MultiStepFormProps) {
+  const t = useMessages(locale)
   const [currentStep, setCurrentStep] = useState(0)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string>('')
@@ -197,8 +192,7 @@ export function MultiStepForm({
           <div className="mb-8">
             <div className="flex justify-between items-center mb-2">
               <span className="text-sm font-medium text-gray-700">
-                {getLocalizedString(labels.step, locale)} {currentStep + 1}{' '}
-                {getLocalizedString(labels.of, locale)} {totalSteps}
+                {t('multiStepForm.progress', { step: currentStep + 1, total: totalSteps })}
               </span>
               <span className="text-sm font-medium text-gray-700">
                 {Math.round(progress)}%
@@ -241,7 +235,8 @@ export function MultiStepForm({
                 onClick={goToPrevious}
                 disabled={isSubmitting}
               >
-                ← {getLocalizedString(labels.previous, locale)}
+                <span aria-hidden="true" className="inline-block rtl:-scale-x-100">←</span>{' '}
+                {t('multiStepForm.previous')}
               </Button>
             )}
           </div>
@@ -251,10 +246,13 @@ export function MultiStepForm({
             onClick={goToNext}
             disabled={isSubmitting}
           >
-            {isLastStep
-              ? getLocalizedString(labels.submit, locale)
-              : getLocalizedString(labels.next, locale)}
-            {!isLastStep && ' →'}
+            {isLastStep ? t('multiStepForm.submit') : t('multiStepForm.next')}
+            {!isLastStep && (
+              <>
+                {' '}
+                <span aria-hidden="true" className="inline-block rtl:-scale-x-100">→</span>
+              </>
+            )}
           </Button>
         </div>
       </div>
@@ -0,0 +1,29 @@
+// ABOUTME: Tests for PricingTable component
+// ABOUTME: Validates price formatting with and without a currency
+
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { PricingTable, type PricingTier } from './PricingTable'
+
+const tiers: PricingTier[] = [
+  {
+    name: { en: 'Pro', fr: 'Pro' },
+    price: { monthly: 49 },
+    features: [],
+    cta: { label: { en: 'Start', fr: 'Commencer' }, href: '/signup' },
+  },
+]
+
+describe('PricingTable', () => {
+  it('should show plain dollar prices without a currency', () => {
+    render(<PricingTable tiers={tiers} locale="fr" billingPeriods={['monthly']} />)
+
+    expect(screen.getByText('$49')).toBeInTheDocument()
+  })
+
+  it('should format prices for the locale with a currency', () => {
+    render(<PricingTable tiers={tiers} locale="fr" currency="CAD" billingPeriods={['monthly']} />)
+
+    expect(screen.getByText(/^49\s\$CA$/)).toBeInTheDocument()
+  })
+})
@@ -8,6 +8,8 @@ import { Button } from './ui/Button'
 import { AnimatedSection, AnimatedItem } from './AnimatedSection'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
+import { useFormatter, useMessages } from './MessagesProvider'
 
 export interface PricingFeature {
   /** Feature name (bilingual) */
@@ -28,7 +30,7 @@ export interface PricingTier {
     monthly?: number
     annual?: number
   }
-  /** Currency symbol @default '$' */
+  /** ISO 4217 code overriding the table's `currency`; a symbol such as '$' is prefixed as-is */
   currency?: string
   /** List of features */
   features: PricingFeature[]
@@ -49,13 +51,18 @@ export interface PricingTableProps {
   /** Array of pricing tiers (2-4 recommended) */
   tiers: PricingTier[]
   /** Current locale */
-  locale: 'en' | 'fr'
+  locale: Locale
   /** Available billing periods @default ['monthly', 'annual'] */
   billingPeriods?: BillingPeriod[]
   /** Default billing period @default 'monthly' */
   defaultPeriod?: BillingPeriod
   /** Savings message for annual (bilingual) */
   savings?: LocalizedString
+  /**
+   * ISO 4217 currency code; prices are formatted for the locale (e.g. '49 $CA'
+   * in French). Without one, prices show as '$49'.
+   */
+  currency?: string
   /** Additional CSS classes */
   className?: string
 }
@@ -86,7 +93,8 @@ export interface PricingTableProps {
  *       cta: { label: { en: 'Get Started', fr: '...' }, href: '/signup?plan=pro' }
  *     }
  *   ]}
- *   locale="en"
+ *   locale="fr"
+ *   currency="CAD"
  *   defaultPeriod="annual"
  *   savings={{ en: 'Save 20%', fr: 'Économisez 20%' }}
  * />
@@ -97,8 +105,10 @@ export function PricingTable({
   billingPeriods = ['monthly', 'annual'],
   defaultPeriod = 'monthly',
   savings,
+  currency,
   className = ''
 }: PricingTableProps) {
+  const t = useMessages(locale)
   const [period, setPeriod] = useState<BillingPeriod>(defaultPeriod)
 
   const showToggle = billingPeriods.length > 1
@@ -119,13 +129,7 @@ export function PricingTable({
                       : 'text-gray-600 hover:text-gray-900'
                   }`}
                 >
-                  {billingPeriod === 'monthly'
-                    ? locale === 'en'
-                      ? 'Monthly'
-                      : 'Mensuel'
-                    : locale === 'en'
-                    ? 'Annual'
-                    : 'Annuel'}
+                  {billingPeriod === 'monthly' ? t('pricing.monthly') : t('pricing.annual')}
                   {billingPeriod === 'annual' && savings && (
                     <span className="ml-2 text-xs text-green-600 font-semibold">
                       {getLocalizedString(savings, locale)}
@@ -147,7 +151,7 @@ export function PricingTable({
           }`}>
             {tiers.map((tier, index) => (
               <AnimatedItem key={index}>
-                <PricingCard tier={tier} period={period} locale={locale} />
+                <PricingCard tier={tier} period={period} locale={locale} currency={currency} />
               </AnimatedItem>
             ))}
           </div>
@@ -160,14 +164,18 @@ export function PricingTable({
 function PricingCard({
   tier,
   period,
-  locale
+  locale,
+  currency
 }: {
   tier: PricingTier
   period: BillingPeriod
-  locale: 'en' | 'fr'
+  locale: Locale
+  currency?: string
 }) {
+  const t = useMessages(locale)
+  const format = useFormatter(locale)
   const price = tier.price[period]
-  const currency = tier.currency || '$'
+  const priceCurrency = tier.currency ?? currency
 
   return (
     <div
@@ -199,10 +207,14 @@ function PricingCard({
         <div className="mb-8">
           <div className="flex items-baseline">
             <span className="text-4xl font-bold text-gray-900 font-heading">
-              {currency}{price}
+              {price === undefined
+                ? null
+                : priceCurrency
+                  ? format.formatPrice(price, priceCurrency)
+                  : `$${price}`}
             </span>
             <span className="text-gray-600 ml-2 font-body">
-              /{period === 'monthly' ? (locale === 'en' ? 'mo' : 'mois') : (locale === 'en' ? 'yr' : 'an')}
+              {t('pricing.perPeriod', { period })}
             </span>
           </div>
         </div>
@@ -7,6 +7,7 @@ import { forwardRef, InputHTMLAttributes } from 'react'
 import { cn } from '../lib/utils/cn'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
 
 export interface RadioProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'type' | 'size'> {
   /** Radio label */
@@ -32,7 +33,7 @@ export interface RadioGroupProps {
   /** Field name (for form integration) */
   name: string
   /** Current locale for bilingual labels */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Array of radio options */
   options: RadioGroupOption[]
   /** Selected value */
@@ -116,7 +117,7 @@ export const Radio = forwardRef<HTMLInputElement, RadioProps>(
           />
         </div>
         {(label || description) && (
-          <div className="ml-3 flex-1">
+          <div className="ms-3 flex-1">
             {label && (
               <label
                 htmlFor={props.id}
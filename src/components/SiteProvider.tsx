@@ -0,0 +1,54 @@
+// ABOUTME: Context provider exposing the active site to client components
+// ABOUTME: Pairs with getActiveSite() for multi-site hosting from one Next.js app
+
+'use client'
+
+import { createContext, useContext, ReactNode } from 'react'
+import { type SiteDefinition } from '../lib/sites/resolver'
+
+interface SiteContextType {
+  site: SiteDefinition
+  basePath: string
+}
+
+const SiteContext = createContext<SiteContextType | undefined>(undefined)
+
+/**
+ * Hook to access the active site
+ *
+ * @example
+ * const { site } = useSite()
+ * <Header locale={locale} config={site.navigation.header} />
+ */
+export function useSite() {
+  const context = useContext(SiteContext)
+  if (!context) {
+    throw new Error('useSite must be used within SiteProvider')
+  }
+  return context
+}
+
+export interface SiteProviderProps {
+  /** Active site, usually from getActiveSite() in a layout */
+  site: SiteDefinition
+  /** Path prefix the site is served under @default '' */
+  basePath?: string
+  /** Content to wrap */
+  children: ReactNode
+}
+
+/**
+ * SiteProvider - Context provider for the active site
+ *
+ * @example
+ * // app/[locale]/layout.tsx (Server Component)
+ * const { site, basePath } = await getActiveSite(sites)
+ * return (
+ *   <SiteProvider site={site} basePath={basePath}>
+ *     {children}
+ *   </SiteProvider>
+ * )
+ */
+export function SiteProvider({ site, basePath = '', children }: SiteProviderProps) {
+  return <SiteContext.Provider value={{ site, basePath }}>{children}</SiteContext.Provider>
+}
@@ -8,11 +8,15 @@ import { AnimatedCounter } from './AnimatedCounter'
 import { AnimatedSection, AnimatedItem } from './AnimatedSection'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
+import { TYPE_SCALE_CLASSES } from '../lib/theme/typography'
 
 export interface Stat {
   /** Numeric value to display */
   value: number
-  /** Prefix (e.g., '$', '+') */
+  /** ISO 4217 currency code; formats the value as a price (e.g., 'CAD') */
+  currency?: string
+  /** Prefix (e.g., '+') */
   prefix?: string
   /** Suffix (e.g., '%', '+', 'K', 'M') */
   suffix?: string
@@ -34,7 +38,7 @@ export interface StatsSectionProps {
   /** Array of statistics */
   stats: Stat[]
   /** Current locale */
-  locale: 'en' | 'fr'
+  locale: Locale
   /** Number of columns @default 3 */
   columns?: 2 | 3 | 4
   /** Visual variant @default 'light' */
@@ -108,12 +112,12 @@ export function StatsSection({
         {(title || description) && (
           <div className="text-center mb-12">
             {title && (
-              <h2 className="text-3xl md:text-4xl font-bold mb-4 font-heading">
+              <h2 className={`${TYPE_SCALE_CLASSES.h2} font-bold mb-4 font-heading`}>
                 {getLocalizedString(title, locale)}
               </h2>
             )}
             {description && (
-              <p className="text-lg text-gray-600 max-w-2xl mx-auto font-body">
+              <p className={`${TYPE_SCALE_CLASSES.lead} text-gray-600 max-w-2xl mx-auto font-body`}>
                 {getLocalizedString(description, locale)}
               </p>
             )}
@@ -133,9 +137,10 @@ export function StatsSection({
                     </div>
                   )}
 
-                  <div className="text-4xl md:text-5xl font-bold mb-2 font-heading">
+                  <div className={`${TYPE_SCALE_CLASSES.h1} font-bold mb-2 font-heading`}>
                     <AnimatedCounter
                       to={stat.value}
+                      currency={stat.currency}
                       prefix={stat.prefix}
                       suffix={stat.suffix}
                       decimals={stat.decimals}
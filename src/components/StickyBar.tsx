@@ -8,12 +8,14 @@ import { getMotionComponent, getAnimatePresence, useMotionHooks } from '../lib/u
 import { Button } from './ui/Button'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
+import { useMessages } from './MessagesProvider'
 
 export interface StickyBarProps {
   /** Message to display (bilingual) */
   message: LocalizedString
   /** Current locale */
-  locale: 'en' | 'fr'
+  locale: Locale
   /** CTA configuration */
   cta: {
     label: LocalizedString
@@ -69,6 +71,7 @@ export function StickyBar({
   icon,
   className = ''
 }: StickyBarProps) {
+  const t = useMessages(locale)
   const [isDismissed, setIsDismissed] = useState(false)
   const [isVisible, setIsVisible] = useState(false)
   const [lastScrollY, setLastScrollY] = useState(0)
@@ -161,7 +164,7 @@ export function StickyBar({
                   <button
                     onClick={handleDismiss}
                     className="p-1 hover:bg-white/20 rounded transition-colors"
-                    aria-label="Dismiss"
+                    aria-label={t('common.dismiss')}
                   >
                     <svg
                       className="w-5 h-5"
@@ -5,7 +5,19 @@
 
 import { type Locale } from '../lib/i18n/config';
 import { type ThemeConfig } from '../config/theme.schema';
+import {
+  getColorSchemeNames,
+  getNativeColorScheme,
+  resolveColorScheme,
+} from '../lib/theme/generate-css';
+import { auditThemeContrast, type ContrastCheck } from '../lib/theme/contrast';
+import {
+  getTypeScale,
+  TYPE_SCALE_CLASSES,
+  type TypeScaleStep,
+} from '../lib/theme/typography';
 import { type LogoConfig } from '../config/navigation.schema';
+import { getNavigationString } from '../lib/navigation/utils';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
 import { Input } from './ui/Input';
@@ -13,6 +25,7 @@ import { Textarea } from './ui/Textarea';
 import { Breadcrumb } from './ui/Breadcrumb';
 import { AnimatedSection, AnimatedItem, type AnimationType } from './AnimatedSection';
 import { useToast } from './Toast';
+import { useMessages } from './MessagesProvider';
 import { ComponentDemo } from './ComponentDemo';
 import { CodeBlock } from './CodeBlock';
 import Image from 'next/image';
@@ -39,6 +52,7 @@ export function StyleGuide({
   interactive = false,
   searchable = false
 }: StyleGuideProps) {
+  const t = useMessages(locale);
   const colors = theme.brand.colors;
 
   return (
@@ -47,19 +61,17 @@ export function StyleGuide({
         {/* Header */}
         <div className="mb-12">
           <h1 className="text-4xl font-bold text-gray-900 mb-4 font-heading">
-            {locale === 'fr' ? 'Guide de style' : 'Style Guide'}
+            {t('styleGuide.title')}
           </h1>
           <p className="text-lg text-gray-600 font-body">
-            {locale === 'fr'
-              ? 'Éléments de design et composants de la marque'
-              : 'Brand design elements and components'}
+            {t('styleGuide.subtitle')}
           </p>
         </div>
 
         {/* Brand Identity */}
         <section className="mb-16">
           <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-            {locale === 'fr' ? 'Identité de marque' : 'Brand Identity'}
+            {t('styleGuide.brandIdentity')}
           </h2>
 
           <div className="grid md:grid-cols-2 gap-8">
@@ -73,14 +85,16 @@ export function StyleGuide({
                   {logo.image ? (
                     <Image
                       src={logo.image}
-                      alt={logo.imageAlt?.[locale] || 'Logo'}
+                      alt={logo.imageAlt ? getNavigationString(logo.imageAlt, locale) : 'Logo'}
                       width={logo.width || 1674}
                       height={logo.height || 613}
                       className="w-auto"
                       style={{ height: `${logo.displayHeight || 48}px` }}
                     />
                   ) : logo.text ? (
-                    <span className="text-2xl font-bold">{logo.text[locale]}</span>
+                    <span className="text-2xl font-bold">
+                      {getNavigationString(logo.text, locale)}
+                    </span>
                   ) : (
                     <div className="text-gray-400">No logo configured</div>
                   )}
@@ -115,7 +129,7 @@ export function StyleGuide({
         {/* Color Palette */}
         <section className="mb-16">
           <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-            {locale === 'fr' ? 'Palette de couleurs' : 'Color Palette'}
+            {t('styleGuide.colorPalette')}
           </h2>
 
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -179,7 +193,7 @@ export function StyleGuide({
           {/* Gradients */}
           <div className="mt-8">
             <h3 className="text-xl font-semibold mb-4 text-gray-900 font-heading">
-              {locale === 'fr' ? 'Dégradés' : 'Gradients'}
+              {t('styleGuide.gradients')}
             </h3>
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
               <Card className="p-6">
@@ -234,17 +248,74 @@ export function StyleGuide({
           </div>
         </section>
 
+        {/* Color Schemes */}
+        {theme.colorSchemes && (
+          <section className="mb-16">
+            <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
+              {t('styleGuide.colorSchemes')}
+            </h2>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              {getColorSchemeNames(theme).map((name) => (
+                <ColorSchemePreview key={name} theme={theme} name={name} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Color Contrast */}
+        <section className="mb-16">
+          <h2 className="text-3xl font-bold text-gray-900 mb-4 font-heading">
+            {t('styleGuide.contrast')}
+          </h2>
+          <p className="text-gray-600 mb-8 font-body">{t('styleGuide.contrastDescription')}</p>
+
+          <div className="space-y-6">
+            {(theme.colorSchemes ? getColorSchemeNames(theme) : [undefined]).map((scheme) => (
+              <Card key={scheme ?? 'base'} className="p-6 overflow-x-auto">
+                {scheme && (
+                  <h3 className="text-xl font-semibold mb-4 text-gray-900 font-heading capitalize">
+                    {scheme}
+                  </h3>
+                )}
+                <table className="w-full text-sm text-start">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-600">
+                      <th className="py-2 pe-4 text-start font-medium">
+                        {t('styleGuide.contrastPairing')}
+                      </th>
+                      <th className="py-2 pe-4 text-start font-medium">
+                        {t('styleGuide.contrastRatio')}
+                      </th>
+                      <th className="py-2 pe-4 text-start font-medium">AA</th>
+                      <th className="py-2 pe-4 text-start font-medium">AAA</th>
+                      <th className="py-2 text-start font-medium">
+                        {t('styleGuide.contrastSuggestion')}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {auditThemeContrast(theme, { scheme }).checks.map((check) => (
+                      <ContrastRow key={check.id} check={check} />
+                    ))}
+                  </tbody>
+                </table>
+              </Card>
+            ))}
+          </div>
+        </section>
+
         {/* Typography */}
         <section className="mb-16">
           <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-            {locale === 'fr' ? 'Typographie' : 'Typography'}
+            {t('styleGuide.typography')}
           </h2>
 
           <Card className="p-8 space-y-8">
             {/* Font Families */}
             <div>
               <h3 className="text-xl font-semibold mb-4 text-gray-900 font-heading">
-                {locale === 'fr' ? 'Familles de polices' : 'Font Families'}
+                {t('styleGuide.fontFamilies')}
               </h3>
               <div className="space-y-4">
                 <div>
@@ -266,10 +337,35 @@ export function StyleGuide({
               </div>
             </div>
 
+            {/* Type Scale */}
+            <div>
+              <h3 className="text-xl font-semibold mb-4 text-gray-900 font-heading">
+                {t('styleGuide.typeScale')}
+              </h3>
+              <div className="space-y-4">
+                {Object.entries(getTypeScale(theme)).map(([step, size]) => (
+                  <div key={step}>
+                    <div className="text-sm text-gray-600 mb-1">
+                      {step}: <code className="text-xs">{size}</code>
+                    </div>
+                    <div
+                      className={`${TYPE_SCALE_CLASSES[step as TypeScaleStep]} text-gray-900 ${
+                        step === 'body' || step === 'small' || step === 'lead'
+                          ? 'font-body'
+                          : 'font-bold font-heading'
+                      }`}
+                    >
+                      The quick brown fox jumps over the lazy dog
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
             {/* Headings */}
             <div>
               <h3 className="text-xl font-semibold mb-4 text-gray-900 font-heading">
-                {locale === 'fr' ? 'Titres' : 'Headings'}
+                {t('styleGuide.headings')}
               </h3>
               <div className="space-y-4">
                 <h1 className="text-4xl font-bold text-gray-900 font-heading">
@@ -296,7 +392,7 @@ export function StyleGuide({
             {/* Body Text */}
             <div>
               <h3 className="text-xl font-semibold mb-4 text-gray-900 font-heading">
-                {locale === 'fr' ? 'Corps de texte' : 'Body Text'}
+                {t('styleGuide.bodyText')}
               </h3>
               <div className="space-y-4">
                 <p className="text-lg text-gray-700 font-body">
@@ -326,7 +422,7 @@ export function StyleGuide({
         {/* Buttons */}
         <section className="mb-16">
           <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-            {locale === 'fr' ? 'Boutons' : 'Buttons'}
+            {t('styleGuide.buttons')}
           </h2>
 
           <Card className="p-8">
@@ -391,7 +487,7 @@ export function StyleGuide({
         {/* Form Components */}
         <section className="mb-16">
           <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-            {locale === 'fr' ? 'Composants de formulaire' : 'Form Components'}
+            {t('styleGuide.formComponents')}
           </h2>
 
           <Card className="p-8 space-y-6">
@@ -428,7 +524,7 @@ export function StyleGuide({
         {/* UI Components */}
         <section className="mb-16">
           <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-            {locale === 'fr' ? 'Composants UI' : 'UI Components'}
+            {t('styleGuide.uiComponents')}
           </h2>
 
           <div className="space-y-8">
@@ -465,12 +561,10 @@ export function StyleGuide({
             {/* Toast */}
             <div>
               <h3 className="text-xl font-semibold mb-4 text-gray-900 font-heading">
-                {locale === 'fr' ? 'Notifications Toast' : 'Toast Notifications'}
+                {t('styleGuide.toastTitle')}
               </h3>
               <p className="text-sm text-gray-600 mb-4 font-body">
-                {locale === 'fr'
-                  ? 'Messages de retour pour succès, erreurs, avertissements et informations'
-                  : 'Feedback messages for success, errors, warnings, and information'}
+                {t('styleGuide.toastDescription')}
               </p>
               <ToastDemo locale={locale} />
             </div>
@@ -480,14 +574,12 @@ export function StyleGuide({
         {/* Animations */}
         <section className="mb-16">
           <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-            {locale === 'fr' ? 'Animations' : 'Animations'}
+            {t('styleGuide.animations')}
           </h2>
 
           <div className="space-y-8">
             <p className="text-gray-600 font-body">
-              {locale === 'fr'
-                ? 'Animations déclenchées par le défilement pour améliorer l\'engagement. Respecte automatiquement les préférences de mouvement réduit.'
-                : 'Scroll-triggered animations to enhance engagement. Automatically respects reduced motion preferences.'}
+              {t('styleGuide.animationsDescription')}
             </p>
 
             <div className="grid gap-6">
@@ -501,12 +593,10 @@ export function StyleGuide({
                       <div className="flex items-center justify-between">
                         <div>
                           <h4 className="font-semibold text-gray-900 font-heading">
-                            {locale === 'fr' ? 'Exemple d\'animation' : 'Animation Example'}
+                            {t('styleGuide.animationExample')}
                           </h4>
                           <p className="text-sm text-gray-600 font-body mt-1">
-                            {locale === 'fr'
-                              ? 'Faites défiler vers le haut et vers le bas pour voir l\'animation'
-                              : 'Scroll up and down to see the animation'}
+                            {t('styleGuide.animationHint')}
                           </p>
                         </div>
                         <div className="text-xs font-mono text-gray-500 bg-gray-100 px-3 py-1 rounded">
@@ -522,12 +612,10 @@ export function StyleGuide({
             {/* Stagger Example */}
             <div className="mt-8">
               <h3 className="text-lg font-semibold mb-3 text-gray-900 font-heading">
-                {locale === 'fr' ? 'Effet de décalage' : 'Stagger Effect'}
+                {t('styleGuide.stagger')}
               </h3>
               <p className="text-sm text-gray-600 font-body mb-4">
-                {locale === 'fr'
-                  ? 'Les éléments enfants s\'animent en séquence avec AnimatedItem'
-                  : 'Child elements animate in sequence with AnimatedItem'}
+                {t('styleGuide.staggerDescription')}
               </p>
               <AnimatedSection animation="fadeInUp" stagger={0.1} triggerOnce={false}>
                 <div className="grid md:grid-cols-3 gap-4">
@@ -535,7 +623,7 @@ export function StyleGuide({
                     <Card className="p-6 bg-gradient-to-br from-blue-50 to-blue-100">
                       <div className="text-2xl font-bold text-blue-900 mb-2">1</div>
                       <div className="text-sm text-blue-700">
-                        {locale === 'fr' ? 'Premier élément' : 'First item'}
+                        {t('styleGuide.firstItem')}
                       </div>
                     </Card>
                   </AnimatedItem>
@@ -543,7 +631,7 @@ export function StyleGuide({
                     <Card className="p-6 bg-gradient-to-br from-purple-50 to-purple-100">
                       <div className="text-2xl font-bold text-purple-900 mb-2">2</div>
                       <div className="text-sm text-purple-700">
-                        {locale === 'fr' ? 'Deuxième élément' : 'Second item'}
+                        {t('styleGuide.secondItem')}
                       </div>
                     </Card>
                   </AnimatedItem>
@@ -551,7 +639,7 @@ export function StyleGuide({
                     <Card className="p-6 bg-gradient-to-br from-green-50 to-green-100">
                       <div className="text-2xl font-bold text-green-900 mb-2">3</div>
                       <div className="text-sm text-green-700">
-                        {locale === 'fr' ? 'Troisième élément' : 'Third item'}
+                        {t('styleGuide.thirdItem')}
                       </div>
                     </Card>
                   </AnimatedItem>
@@ -562,7 +650,7 @@ export function StyleGuide({
             {/* Usage Example */}
             <Card className="p-6 bg-gray-50">
               <h4 className="font-semibold text-gray-900 mb-3 font-heading">
-                {locale === 'fr' ? 'Exemple d\'utilisation' : 'Usage Example'}
+                {t('styleGuide.usageExample')}
               </h4>
               <pre className="text-xs bg-gray-900 text-gray-100 p-4 rounded-lg overflow-x-auto font-mono">
 {`<AnimatedSection animation="fadeInUp" delay={0.2}>
@@ -583,7 +671,7 @@ export function StyleGuide({
         {/* Spacing Scale */}
         <section className="mb-16">
           <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-            {locale === 'fr' ? 'Échelle d\'espacement' : 'Spacing Scale'}
+            {t('styleGuide.spacingScale')}
           </h2>
 
           <Card className="p-8">
@@ -618,7 +706,7 @@ export function StyleGuide({
         {showCode && (
           <section className="mt-16">
             <h2 className="text-3xl font-bold text-gray-900 mb-8 font-heading">
-              {locale === 'fr' ? 'Exemples de composants' : 'Component Examples'}
+              {t('styleGuide.componentExamples')}
             </h2>
 
             <div className="space-y-8">
@@ -696,6 +784,7 @@ const [open, setOpen] = useState(false)
 }
 
 function ToastDemo({ locale }: { locale: Locale }) {
+  const t = useMessages(locale)
   const toast = useToast()
 
   return (
@@ -704,58 +793,43 @@ function ToastDemo({ locale }: { locale: Locale }) {
         <Button
           variant="filled"
           size="sm"
-          onClick={() =>
-            toast.success(
-              locale === 'fr' ? 'Modifications enregistrées!' : 'Changes saved successfully!'
-            )
-          }
+          onClick={() => toast.success(t('styleGuide.toastSuccessMessage'))}
         >
-          {locale === 'fr' ? 'Succès' : 'Success'}
+          {t('styleGuide.toastSuccess')}
         </Button>
         <Button
           variant="filled"
           size="sm"
-          onClick={() =>
-            toast.error(
-              locale === 'fr' ? 'Échec de la soumission du formulaire' : 'Failed to submit form'
-            )
-          }
+          onClick={() => toast.error(t('styleGuide.toastErrorMessage'))}
         >
-          {locale === 'fr' ? 'Erreur' : 'Error'}
+          {t('styleGuide.toastError')}
         </Button>
         <Button
           variant="filled"
           size="sm"
-          onClick={() =>
-            toast.warning(
-              locale === 'fr' ? 'Modifications non enregistrées' : 'You have unsaved changes'
-            )
-          }
+          onClick={() => toast.warning(t('styleGuide.toastWarningMessage'))}
         >
-          {locale === 'fr' ? 'Avertissement' : 'Warning'}
+          {t('styleGuide.toastWarning')}
         </Button>
         <Button
           variant="filled"
           size="sm"
           onClick={() =>
-            toast.info(
-              locale === 'fr' ? 'Nouvelles fonctionnalités disponibles' : 'New features available',
-              {
-                action: {
-                  label: locale === 'fr' ? 'En savoir plus' : 'Learn more',
-                  onClick: () => console.log('Learn more clicked')
-                }
+            toast.info(t('styleGuide.toastInfoMessage'), {
+              action: {
+                label: t('common.learnMore'),
+                onClick: () => console.log('Learn more clicked')
               }
-            )
+            })
           }
         >
-          {locale === 'fr' ? 'Info avec action' : 'Info with Action'}
+          {t('styleGuide.toastInfo')}
         </Button>
       </div>
 
       <Card className="p-4 bg-gray-50">
         <h4 className="font-semibold text-gray-900 mb-2 text-sm font-heading">
-          {locale === 'fr' ? 'Exemple d\'utilisation' : 'Usage Example'}
+          {t('styleGuide.usageExample')}
         </h4>
         <pre className="text-xs bg-gray-900 text-gray-100 p-3 rounded overflow-x-auto font-mono">
 {`import { useToast } from '@zoyth/simple-site-framework/components'
@@ -775,3 +849,111 @@ function MyComponent() {
     </div>
   )
 }
+
+interface ColorSchemePreviewProps {
+  theme: ThemeConfig;
+  name: string;
+}
+
+/**
+ * One color scheme rendered with its own colors, independent of the page's scheme
+ */
+function ColorSchemePreview({ theme, name }: ColorSchemePreviewProps) {
+  const scheme = resolveColorScheme(theme, name);
+  const { background = '#ffffff', slate } = scheme.colors;
+  const foreground = scheme.colors.foreground ?? slate[900];
+  const colors = scheme.brand.colors;
+  const swatches = [colors.primary, colors.primaryHover, colors.primaryLight, colors.primaryDark];
+
+  return (
+    <div
+      data-theme={name}
+      className="rounded-lg border p-6 shadow-sm"
+      style={{
+        backgroundColor: background,
+        color: foreground,
+        borderColor: slate[200],
+        colorScheme: getNativeColorScheme(theme, name),
+      }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold font-heading capitalize">{name}</h3>
+        <span className="font-mono text-xs" style={{ color: slate[500] }}>
+          {background} / {foreground}
+        </span>
+      </div>
+      <p className="mb-4 font-body" style={{ color: slate[600] }}>
+        The quick brown fox jumps over the lazy dog
+      </p>
+      <div className="flex gap-2 mb-4">
+        {swatches.map((color, index) => (
+          <div
+            key={index}
+            className="h-10 flex-1 rounded"
+            style={{ backgroundColor: color }}
+            title={color}
+          />
+        ))}
+      </div>
+      <div
+        className="h-10 rounded"
+        style={{
+          background: `linear-gradient(135deg, ${colors.heroGradientStart}, ${colors.heroGradientEnd})`,
+        }}
+      />
+      <div className="flex mt-4">
+        {Object.values(slate).map((color, index) => (
+          <div key={index} className="h-6 flex-1" style={{ backgroundColor: color }} title={color} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One audited pairing: a text sample, its ratio, level badges and a passing shade
+ */
+function ContrastRow({ check }: { check: ContrastCheck }) {
+  const badge = (passes: boolean) => (
+    <span
+      className={
+        passes
+          ? 'rounded px-2 py-0.5 text-xs font-semibold bg-green-100 text-green-800'
+          : 'rounded px-2 py-0.5 text-xs font-semibold bg-red-100 text-red-800'
+      }
+    >
+      {passes ? 'Pass' : 'Fail'}
+    </span>
+  );
+
+  return (
+    <tr className="border-b border-gray-100 align-middle">
+      <td className="py-3 pe-4">
+        <div className="flex items-center gap-3">
+          <span
+            className="inline-flex h-8 w-10 shrink-0 items-center justify-center rounded border border-gray-200 font-semibold"
+            style={{ color: check.foregroundColor, backgroundColor: check.backgroundColor }}
+            aria-hidden="true"
+          >
+            Aa
+          </span>
+          <span className="text-gray-700">{check.label}</span>
+        </div>
+      </td>
+      <td className="py-3 pe-4 font-mono text-gray-900">{check.ratio.toFixed(2)}:1</td>
+      <td className="py-3 pe-4">{badge(check.aa)}</td>
+      <td className="py-3 pe-4">{badge(check.aaa)}</td>
+      <td className="py-3">
+        {check.suggestion && (
+          <span className="inline-flex items-center gap-2 font-mono text-xs text-gray-600">
+            <span
+              className="h-4 w-4 rounded border border-gray-200"
+              style={{ backgroundColor: check.suggestion.color }}
+            />
+            {check.suggestion.token}: {check.suggestion.color} ({check.suggestion.ratio}:1)
+          </span>
+        )}
+      </td>
+    </tr>
+  );
+}
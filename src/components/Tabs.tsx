@@ -9,6 +9,7 @@ import { cn } from '../lib/utils/cn'
 import { getTabsComponents } from '../lib/utils/radix'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import { getLocaleDirection, type Locale } from '../lib/i18n/config'
 
 export interface Tab {
   /** Unique tab identifier */
@@ -23,7 +24,7 @@ export interface Tab {
 
 export interface TabsProps {
   /** Current locale */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Array of tabs */
   tabs: Tab[]
   /** Default active tab value */
@@ -172,6 +173,7 @@ export function Tabs({
       value={currentValue}
       onValueChange={handleValueChange}
       orientation={orientation}
+      dir={getLocaleDirection(locale)}
       className={cn(
         orientation === 'vertical' && 'flex gap-6',
         className
@@ -3,12 +3,14 @@
 
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, type KeyboardEvent } from 'react'
 import type { PanInfo } from 'framer-motion'
 import { getMotionComponent, getAnimatePresence } from '../lib/utils/motion'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
 import Image from 'next/image'
+import { getLocaleDirection, type Locale } from '../lib/i18n/config'
+import { useMessages } from './MessagesProvider'
 
 export interface Testimonial {
   /** Customer quote (bilingual) */
@@ -33,7 +35,7 @@ export interface TestimonialCarouselProps {
   /** Array of testimonials */
   testimonials: Testimonial[]
   /** Current locale */
-  locale: 'en' | 'fr'
+  locale: Locale
   /** Auto-play interval in milliseconds @default 5000 */
   interval?: number
   /** Enable auto-play @default true */
@@ -78,6 +80,7 @@ export function TestimonialCarousel({
   variant = 'card',
   className = ''
 }: TestimonialCarouselProps) {
+  const t = useMessages(locale)
   const [currentIndex, setCurrentIndex] = useState(0)
   const [isPaused, setIsPaused] = useState(false)
   const MotionDiv = getMotionComponent('div')
@@ -102,12 +105,27 @@ export function TestimonialCarousel({
     return () => clearInterval(timer)
   }, [autoPlay, isPaused, interval, goToNext, testimonials.length])
 
+  // Next slides enter from the end side: the right in LTR, the left in RTL
+  const isRtl = getLocaleDirection(locale) === 'rtl'
+  const forward = isRtl ? -1 : 1
+
   const handleDragEnd = (event: any, info: PanInfo) => {
     const threshold = 50
-    if (info.offset.x > threshold) {
+    const offset = info.offset.x * forward
+    if (offset > threshold) {
       goToPrevious()
-    } else if (info.offset.x < -threshold) {
+    } else if (offset < -threshold) {
+      goToNext()
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return
+    const towardEnd = (event.key === 'ArrowRight') !== isRtl
+    if (towardEnd) {
       goToNext()
+    } else {
+      goToPrevious()
     }
   }
 
@@ -120,6 +138,10 @@ export function TestimonialCarousel({
       className={`relative ${className}`}
       onMouseEnter={() => setIsPaused(true)}
       onMouseLeave={() => setIsPaused(false)}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      role="region"
+      aria-roledescription="carousel"
     >
       <div className="relative overflow-hidden">
         <AnimatePresenceComponent mode="wait">
@@ -129,9 +151,9 @@ export function TestimonialCarousel({
             dragConstraints={{ left: 0, right: 0 }}
             dragElastic={0.2}
             onDragEnd={handleDragEnd}
-            initial={{ opacity: 0, x: 100 }}
+            initial={{ opacity: 0, x: 100 * forward }}
             animate={{ opacity: 1, x: 0 }}
-            exit={{ opacity: 0, x: -100 }}
+            exit={{ opacity: 0, x: -100 * forward }}
             transition={{ duration: 0.3, ease: [0.25, 0.1, 0.25, 1] }}
           >
             {variant === 'card' && (
@@ -151,11 +173,11 @@ export function TestimonialCarousel({
         <>
           <button
             onClick={goToPrevious}
-            className="absolute left-4 top-1/2 -translate-y-1/2 bg-white rounded-full p-2 shadow-lg hover:bg-gray-50 transition-colors z-10"
-            aria-label="Previous testimonial"
+            className="absolute start-4 top-1/2 -translate-y-1/2 bg-white rounded-full p-2 shadow-lg hover:bg-gray-50 transition-colors z-10"
+            aria-label={t('testimonials.previous')}
           >
             <svg
-              className="w-6 h-6 text-gray-700"
+              className="w-6 h-6 text-gray-700 rtl:-scale-x-100"
               fill="none"
               viewBox="0 0 24 24"
               stroke="currentColor"
@@ -166,11 +188,11 @@ export function TestimonialCarousel({
 
           <button
             onClick={goToNext}
-            className="absolute right-4 top-1/2 -translate-y-1/2 bg-white rounded-full p-2 shadow-lg hover:bg-gray-50 transition-colors z-10"
-            aria-label="Next testimonial"
+            className="absolute end-4 top-1/2 -translate-y-1/2 bg-white rounded-full p-2 shadow-lg hover:bg-gray-50 transition-colors z-10"
+            aria-label={t('testimonials.next')}
           >
             <svg
-              className="w-6 h-6 text-gray-700"
+              className="w-6 h-6 text-gray-700 rtl:-scale-x-100"
               fill="none"
               viewBox="0 0 24 24"
               stroke="currentColor"
@@ -192,7 +214,7 @@ export function TestimonialCarousel({
                   ? 'bg-primary w-8'
                   : 'bg-gray-300 hover:bg-gray-400'
               }`}
-              aria-label={`Go to testimonial ${index + 1}`}
+              aria-label={t('testimonials.goTo', { index: index + 1 })}
             />
           ))}
         </div>
@@ -201,7 +223,7 @@ export function TestimonialCarousel({
   )
 }
 
-function TestimonialCard({ testimonial, locale }: { testimonial: Testimonial; locale: 'en' | 'fr' }) {
+function TestimonialCard({ testimonial, locale }: { testimonial: Testimonial; locale: Locale }) {
   return (
     <div className="bg-white rounded-lg shadow-xl p-8 md:p-12 max-w-4xl mx-auto">
       {testimonial.rating && <StarRating rating={testimonial.rating} />}
@@ -235,7 +257,7 @@ function TestimonialCard({ testimonial, locale }: { testimonial: Testimonial; lo
             alt={testimonial.company || ''}
             width={100}
             height={40}
-            className="ml-auto"
+            className="ms-auto"
           />
         )}
       </div>
@@ -243,7 +265,7 @@ function TestimonialCard({ testimonial, locale }: { testimonial: Testimonial; lo
   )
 }
 
-function TestimonialMinimal({ testimonial, locale }: { testimonial: Testimonial; locale: 'en' | 'fr' }) {
+function TestimonialMinimal({ testimonial, locale }: { testimonial: Testimonial; locale: Locale }) {
   return (
     <div className="max-w-3xl mx-auto text-center">
       {testimonial.rating && (
@@ -269,7 +291,7 @@ function TestimonialMinimal({ testimonial, locale }: { testimonial: Testimonial;
   )
 }
 
-function TestimonialSplit({ testimonial, locale }: { testimonial: Testimonial; locale: 'en' | 'fr' }) {
+function TestimonialSplit({ testimonial, locale }: { testimonial: Testimonial; locale: Locale }) {
   return (
     <div className="grid md:grid-cols-2 gap-8 items-center max-w-6xl mx-auto">
       <div>
@@ -0,0 +1,119 @@
+// ABOUTME: Tests for ThemeProvider, ThemeScope and useTheme
+// ABOUTME: Validates injected root CSS, scoped variable overrides, nesting and resolved tokens
+
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ThemeProvider, ThemeScope, useTheme } from './ThemeProvider'
+import { type ThemeConfig } from '../config/theme.schema'
+import { createTestTheme } from '../test/fixtures'
+
+function createSchemeTheme(): ThemeConfig {
+  return {
+    ...createTestTheme(),
+    colorSchemes: {
+      dark: { brand: { primary: '#4d94ff' }, background: '#0f172a', foreground: '#f8fafc' },
+    },
+  }
+}
+
+function Primary() {
+  const { colors } = useTheme()
+  return <span data-testid="primary">{colors.primary}</span>
+}
+
+describe('ThemeProvider', () => {
+  it('should inject the theme variables at the root and share its tokens', () => {
+    const { container } = render(
+      <ThemeProvider theme={createTestTheme()}>
+        <Primary />
+      </ThemeProvider>
+    )
+
+    const css = container.querySelector('style')?.textContent
+    expect(css).toMatch(/^:root \{/)
+    expect(css).toContain('--color-primary: #0066cc;')
+    expect(css).toContain('--font-size-h2:')
+    expect(screen.getByTestId('primary')).toHaveTextContent('#0066cc')
+  })
+
+  it('should leave CSS injection to the app when asked', () => {
+    const { container } = render(
+      <ThemeProvider theme={createTestTheme()} injectCSS={false}>
+        <Primary />
+      </ThemeProvider>
+    )
+
+    expect(container.querySelector('style')).toBeNull()
+  })
+})
+
+describe('ThemeScope', () => {
+  it('should re-declare only the overridden variables for its subtree', () => {
+    render(
+      <ThemeProvider theme={createTestTheme()} injectCSS={false}>
+        <ThemeScope overrides={{ brand: { colors: { primary: '#7c3aed' } } }}>
+          <Primary />
+        </ThemeScope>
+        <Primary />
+      </ThemeProvider>
+    )
+
+    const [scoped, outside] = screen.getAllByTestId('primary')
+    const scope = scoped.parentElement as HTMLElement
+    expect(scope.style.getPropertyValue('--color-primary')).toBe('#7c3aed')
+    expect(scope.style.getPropertyValue('--color-primary-hover')).toBe('')
+    expect(scoped).toHaveTextContent('#7c3aed')
+    expect(outside).toHaveTextContent('#0066cc')
+  })
+
+  it('should apply a color scheme and restore the base palette in nested scopes', () => {
+    render(
+      <ThemeProvider theme={createSchemeTheme()} injectCSS={false}>
+        <ThemeScope scheme="dark">
+          <Primary />
+          <ThemeScope scheme="light">
+            <Primary />
+          </ThemeScope>
+        </ThemeScope>
+      </ThemeProvider>
+    )
+
+    const [dark, light] = screen.getAllByTestId('primary')
+    const darkScope = dark.parentElement as HTMLElement
+    expect(darkScope).toHaveAttribute('data-theme', 'dark')
+    expect(darkScope.style.getPropertyValue('--color-background')).toBe('#0f172a')
+    expect(dark).toHaveTextContent('#4d94ff')
+    expect(light).toHaveTextContent('#0066cc')
+    expect((light.parentElement as HTMLElement).style.getPropertyValue('--color-primary')).toBe(
+      '#0066cc'
+    )
+  })
+
+  it('should keep the resolved tokens across renders with equal inline overrides', () => {
+    const theme = createTestTheme()
+    const seen: Array<ReturnType<typeof useTheme>> = []
+    function Capture() {
+      seen.push(useTheme())
+      return null
+    }
+    const renderScope = () => (
+      <ThemeProvider theme={theme} injectCSS={false}>
+        <ThemeScope overrides={{ brand: { colors: { primary: '#7c3aed' } } }}>
+          <Capture />
+        </ThemeScope>
+      </ThemeProvider>
+    )
+
+    const { rerender } = render(renderScope())
+    rerender(renderScope())
+
+    expect(seen).toHaveLength(2)
+    expect(seen[1]).toBe(seen[0])
+  })
+
+  it('should require a ThemeProvider', () => {
+    expect(() => render(<ThemeScope scheme="dark">content</ThemeScope>)).toThrow(
+      /within ThemeProvider/
+    )
+  })
+})
@@ -0,0 +1,134 @@
+// ABOUTME: Context provider injecting the theme's CSS variables, with scoped subtree overrides
+// ABOUTME: ThemeScope re-declares variables for one section; useTheme() returns resolved tokens
+
+'use client'
+
+import { createContext, useContext, useMemo, type CSSProperties, type ReactNode } from 'react'
+import { type ThemeConfig } from '../config/theme.schema'
+import { THEME_ATTRIBUTE, generateThemeStylesheet } from '../lib/theme/generate-css'
+import {
+  getScopedThemeVariables,
+  resolveThemeScope,
+  resolveThemeTokens,
+  type ThemeOverrides,
+  type ThemeTokens,
+} from '../lib/theme/theme-scope'
+
+interface ThemeContextType {
+  /** Theme given to ThemeProvider */
+  base: ThemeConfig
+  tokens: ThemeTokens
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined)
+
+/**
+ * Hook to access the resolved theme of the nearest ThemeProvider or ThemeScope
+ *
+ * Colors are those of the scope's scheme, or the base palette; the scheme a
+ * visitor picks with ThemeToggle only changes the CSS variables.
+ *
+ * @example
+ * const { colors, typography } = useTheme()
+ * <Chart color={colors.primary} fontSize={typography.sizes.small} />
+ */
+export function useTheme(): ThemeTokens {
+  const context = useContext(ThemeContext)
+  if (!context) {
+    throw new Error('useTheme must be used within ThemeProvider')
+  }
+  return context.tokens
+}
+
+export interface ThemeProviderProps {
+  /** Site theme */
+  theme: ThemeConfig
+  /**
+   * Inject the theme's variables at `:root` with its color scheme rules;
+   * turn off when the app already renders generateSiteThemeCSS() @default true
+   */
+  injectCSS?: boolean
+  /** Content Security Policy nonce for the injected style */
+  nonce?: string
+  /** Content to wrap */
+  children: ReactNode
+}
+
+/**
+ * ThemeProvider - Inject the theme's CSS variables and share its tokens
+ *
+ * @example
+ * // app/[locale]/layout.tsx
+ * <ThemeProvider theme={theme}>
+ *   {children}
+ * </ThemeProvider>
+ */
+export function ThemeProvider({ theme, injectCSS = true, nonce, children }: ThemeProviderProps) {
+  const value = useMemo(() => ({ base: theme, tokens: resolveThemeTokens(theme) }), [theme])
+  const css = useMemo(() => (injectCSS ? generateThemeStylesheet(theme) : ''), [theme, injectCSS])
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {css && <style nonce={nonce} dangerouslySetInnerHTML={{ __html: css }} />}
+      {children}
+    </ThemeContext.Provider>
+  )
+}
+
+export interface ThemeScopeProps {
+  /** Theme values that differ in this subtree, e.g. `{ brand: { colors: { primary } } }` */
+  overrides?: ThemeOverrides
+  /** Color scheme of the subtree, e.g. 'dark'; also sets `data-theme` for `dark:` variants */
+  scheme?: string
+  /** Additional CSS classes for the wrapping element */
+  className?: string
+  /** Content to wrap */
+  children: ReactNode
+}
+
+/**
+ * ThemeScope - Give one part of the page its own palette or type scale
+ *
+ * Re-declares only the variables that differ from the surrounding theme on
+ * a wrapping `<div>`, so utilities such as `bg-primary` inside follow the
+ * scope. Scopes nest; a scheme swaps in that scheme's palette from the
+ * provider's theme.
+ *
+ * @example
+ * <ThemeScope scheme="dark">
+ *   <StatsSection {...stats} />
+ * </ThemeScope>
+ *
+ * <ThemeScope overrides={{ brand: { colors: { primary: '#7c3aed', primaryHover: '#6d28d9' } } }}>
+ *   <HeroSection {...partnerHero} />
+ * </ThemeScope>
+ */
+export function ThemeScope({ overrides, scheme, className, children }: ThemeScopeProps) {
+  const context = useContext(ThemeContext)
+  if (!context) {
+    throw new Error('ThemeScope must be used within ThemeProvider')
+  }
+  const { base } = context
+  const parent = context.tokens.config
+  // Keyed by content so inline `overrides={{ … }}` literals don't re-resolve on every render
+  const overridesKey = overrides === undefined ? undefined : JSON.stringify(overrides)
+
+  const { value, style } = useMemo(() => {
+    const scoped = resolveThemeScope(base, parent, {
+      scheme,
+      overrides: overridesKey === undefined ? undefined : JSON.parse(overridesKey),
+    })
+    return {
+      value: { base, tokens: resolveThemeTokens(scoped) },
+      style: getScopedThemeVariables(parent, scoped) as CSSProperties,
+    }
+  }, [base, parent, overridesKey, scheme])
+
+  return (
+    <ThemeContext.Provider value={value}>
+      <div className={className} style={style} {...(scheme && { [THEME_ATTRIBUTE]: scheme })}>
+        {children}
+      </div>
+    </ThemeContext.Provider>
+  )
+}
@@ -0,0 +1,25 @@
+// ABOUTME: Inline script restoring the visitor's color scheme before the page paints
+// ABOUTME: Render in the root layout's <head> so a stored dark scheme never flashes light first
+
+import { getThemeScript, type ThemeScriptOptions } from '../lib/theme/color-scheme'
+
+export interface ThemeScriptProps extends ThemeScriptOptions {
+  /** Content Security Policy nonce */
+  nonce?: string
+}
+
+/**
+ * Pre-hydration script for ThemeToggle
+ *
+ * The script sets `data-theme` on `<html>` before React hydrates, so add
+ * `suppressHydrationWarning` to the `<html>` element.
+ *
+ * @example
+ * <html {...getHtmlAttributes(locale)} suppressHydrationWarning>
+ *   <head>
+ *     <ThemeScript schemes={['light', 'dark']} />
+ *   </head>
+ */
+export function ThemeScript({ nonce, ...options }: ThemeScriptProps) {
+  return <script nonce={nonce} dangerouslySetInnerHTML={{ __html: getThemeScript(options) }} />
+}
@@ -0,0 +1,43 @@
+// ABOUTME: Tests for ThemeToggle component
+// ABOUTME: Validates the stored selection, persistence and custom scheme labels
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ThemeToggle } from './ThemeToggle'
+
+describe('ThemeToggle', () => {
+  afterEach(() => {
+    document.documentElement.removeAttribute('data-theme')
+    window.localStorage.clear()
+  })
+
+  it('should select the stored scheme after hydration', async () => {
+    window.localStorage.setItem('theme', 'dark')
+    render(<ThemeToggle locale="en" />)
+
+    expect(screen.getByRole('group', { name: 'Color scheme' })).toBeInTheDocument()
+    await waitFor(() =>
+      expect(screen.getByRole('button', { name: 'Dark' })).toHaveAttribute('aria-pressed', 'true')
+    )
+  })
+
+  it('should apply and persist the chosen scheme', async () => {
+    const user = userEvent.setup()
+    render(
+      <ThemeToggle
+        locale="fr"
+        schemes={['light', 'dark', 'high-contrast']}
+        labels={{ 'high-contrast': 'Contraste élevé' }}
+      />
+    )
+
+    await user.click(screen.getByRole('button', { name: 'Contraste élevé' }))
+    expect(document.documentElement).toHaveAttribute('data-theme', 'high-contrast')
+    expect(window.localStorage.getItem('theme')).toBe('high-contrast')
+
+    await user.click(screen.getByRole('button', { name: 'Système' }))
+    expect(document.documentElement).not.toHaveAttribute('data-theme')
+    expect(screen.getByRole('button', { name: 'Système' })).toHaveAttribute('aria-pressed', 'true')
+  })
+})
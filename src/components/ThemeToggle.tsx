@@ -0,0 +1,106 @@
+// ABOUTME: Color scheme switcher offering the system preference and each configured scheme
+// ABOUTME: Persists the choice in localStorage and applies it with data-theme on the root element
+
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { cn } from '../lib/utils/cn'
+import { type Locale } from '../lib/i18n/config'
+import { type MessageKey } from '../lib/i18n/messages'
+import {
+  applyColorScheme,
+  getStoredColorScheme,
+  THEME_STORAGE_KEY,
+  type ColorSchemePreference,
+} from '../lib/theme/color-scheme'
+import { useMessages } from './MessagesProvider'
+
+export interface ThemeToggleProps {
+  /** Current locale */
+  locale?: Locale
+  /** Schemes to offer besides the system preference @default ['light', 'dark'] */
+  schemes?: readonly string[]
+  /** Button labels by scheme name, for schemes without a built-in label */
+  labels?: Record<string, string>
+  /** localStorage key, matching ThemeScript @default 'theme' */
+  storageKey?: string
+  className?: string
+}
+
+// Toggles on the same page re-read storage when any of them changes the scheme
+const listeners = new Set<() => void>()
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const BUILT_IN_LABELS: Record<string, MessageKey> = {
+  system: 'themeToggle.system',
+  light: 'themeToggle.light',
+  dark: 'themeToggle.dark',
+}
+
+/**
+ * Button group switching the color scheme
+ *
+ * Render ThemeScript in `<head>` with the same schemes so the stored choice
+ * applies before the page paints.
+ *
+ * @example
+ * <ThemeToggle locale={locale} schemes={['light', 'dark', 'high-contrast']}
+ *   labels={{ 'high-contrast': 'High contrast' }} />
+ */
+export function ThemeToggle({
+  locale,
+  schemes = ['light', 'dark'],
+  labels,
+  storageKey = THEME_STORAGE_KEY,
+  className,
+}: ThemeToggleProps) {
+  const t = useMessages(locale)
+
+  // Storage is only readable after hydration; ThemeScript already applied the choice
+  const stored = useSyncExternalStore(
+    subscribe,
+    () => getStoredColorScheme(storageKey),
+    () => 'system'
+  )
+  const preference: ColorSchemePreference = schemes.includes(stored) ? stored : 'system'
+
+  const select = (option: ColorSchemePreference) => {
+    applyColorScheme(option, storageKey)
+    listeners.forEach((listener) => listener())
+  }
+
+  const getLabel = (option: string) =>
+    labels?.[option] ?? (BUILT_IN_LABELS[option] ? t(BUILT_IN_LABELS[option]) : option)
+
+  return (
+    <div
+      role="group"
+      aria-label={t('themeToggle.label')}
+      className={cn('inline-flex rounded-full border border-gray-300 p-0.5', className)}
+    >
+      {['system', ...schemes].map((option) => {
+        const isSelected = option === preference
+        return (
+          <button
+            key={option}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => select(option)}
+            className={cn(
+              'rounded-full px-3 py-1 text-xs font-semibold transition-colors',
+              isSelected ? 'bg-primary text-white' : 'text-gray-600 hover:text-gray-900'
+            )}
+          >
+            {getLabel(option)}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -8,6 +8,7 @@ import { AnimatedSection, AnimatedItem } from './AnimatedSection'
 import { cn } from '../lib/utils/cn'
 import type { LocalizedString } from '../config/content.schema'
 import { getLocalizedString } from '../lib/content/utils'
+import type { Locale } from '../lib/i18n/config'
 
 export interface TimelineItem {
   /** Item title (bilingual) */
@@ -24,14 +25,14 @@ export interface TimelineItem {
 
 export interface TimelineProps {
   /** Current locale */
-  locale?: 'en' | 'fr'
+  locale?: Locale
   /** Timeline items */
   items: TimelineItem[]
   /** Layout orientation @default 'vertical' */
   orientation?: 'vertical' | 'horizontal'
   /** Visual variant @default 'default' */
   variant?: 'default' | 'simple' | 'filled'
-  /** Position (vertical only) @default 'left' */
+  /** Position (vertical only); 'left'/'right' mean start/end and mirror in RTL @default 'left' */
   position?: 'left' | 'center' | 'right' | 'alternating'
   /** Show connector line @default true */
   showConnector?: boolean
@@ -155,7 +156,7 @@ function VerticalTimeline({
                 <div
                   className={cn(
                     'absolute top-6 bottom-0 w-0.5 bg-gray-300',
-                    isCenter ? 'left-1/2 -translate-x-1/2' : 'left-6'
+                    isCenter ? 'left-1/2 -translate-x-1/2' : 'start-6'
                   )}
                 />
               )}
@@ -164,7 +165,7 @@ function VerticalTimeline({
                 className={cn(
                   'flex gap-4 items-start',
                   isCenter && 'flex-col items-center',
-                  isRight && !isCenter && 'flex-row-reverse text-right'
+                  isRight && !isCenter && 'flex-row-reverse text-end'
                 )}
               >
                 {/* Icon/Marker */}
@@ -231,10 +232,10 @@ function HorizontalTimeline({
       <div className="flex overflow-x-auto pb-4">
         {items.map((item, index) => (
           <Item key={index} className="flex-shrink-0">
-            <div className="relative px-6 first:pl-0 last:pr-0">
+            <div className="relative px-6 first:ps-0 last:pe-0">
               {/* Connector line */}
               {showConnector && index < items.length - 1 && (
-                <div className="absolute top-6 left-12 right-6 h-0.5 bg-gray-300 z-0" />
+                <div className="absolute top-6 start-12 end-6 h-0.5 bg-gray-300 z-0" />
               )}
 
               <div className="flex flex-col items-center max-w-xs">
@@ -5,6 +5,7 @@
 
 import { createContext, useContext, useState, useCallback, ReactNode } from 'react'
 import { getMotionComponent, getAnimatePresence } from '../lib/utils/motion'
+import { useMessages } from './MessagesProvider'
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info'
 export type ToastPosition =
@@ -149,6 +150,7 @@ export function ToastProvider({
 }
 
 function ToastItem({ toast, onClose }: { toast: Toast; onClose: () => void }) {
+  const t = useMessages()
   const MotionDiv = getMotionComponent('div')
   const typeStyles = {
     success: {
@@ -218,7 +220,7 @@ function ToastItem({ toast, onClose }: { toast: Toast; onClose: () => void }) {
         <button
           onClick={onClose}
           className="flex-shrink-0 text-gray-400 hover:text-gray-600 transition-colors"
-          aria-label="Close"
+          aria-label={t('common.close')}
         >
           <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
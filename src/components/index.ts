@@ -3,6 +3,9 @@
 
 export * from './AnimatedSection';
 export * from './Toast';
+export * from './SiteProvider';
+export * from './MessagesProvider';
+export * from './ThemeProvider';
 export * from './LoadingSpinner';
 export * from './Skeleton';
 export * from './FormField';
@@ -35,4 +38,6 @@ export * from './StyleGuide';
 export * from './ScriptInjector';
 export * from './FeaturesGrid';
 export * from './Icon';
+export * from './ThemeToggle';
+export * from './ThemeScript';
 export * from './a11y';
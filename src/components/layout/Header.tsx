@@ -10,6 +10,7 @@ import { type Locale } from '../../lib/i18n/config';
 import { LanguageSwitcher } from './LanguageSwitcher';
 import { type HeaderConfig, type NavItem, type NavLink } from '../../config/navigation.schema';
 import { getNavigationString } from '../../lib/navigation';
+import { useMessages } from '../MessagesProvider';
 
 export interface HeaderProps {
   locale: Locale;
@@ -17,6 +18,7 @@ export interface HeaderProps {
 }
 
 export function Header({ locale, config }: HeaderProps) {
+  const t = useMessages(locale);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
 
@@ -71,7 +73,7 @@ export function Header({ locale, config }: HeaderProps) {
           </Link>
 
           {/* Navigation - Desktop */}
-          <nav className="hidden md:flex items-center space-x-6">
+          <nav className="hidden md:flex items-center gap-6">
             {config.mainNav.map((item) => {
               if ('type' in item && item.type === 'dropdown') {
                 const isOpen = openDropdown === item.id;
@@ -210,13 +212,13 @@ export function Header({ locale, config }: HeaderProps) {
                 </a>
               );
             })}
-            <LanguageSwitcher currentLocale={locale} />
+            <LanguageSwitcher currentLocale={locale} variant={config.languageSwitcher} />
 
             {/* Mobile Menu Button */}
             <button
               className="md:hidden p-2 text-gray-600 hover:text-gray-900"
               onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-              aria-label="Toggle menu"
+              aria-label={t('common.toggleMenu')}
               aria-expanded={mobileMenuOpen}
             >
               {mobileMenuOpen ? (
@@ -262,7 +264,7 @@ export function Header({ locale, config }: HeaderProps) {
                   return (
                     <div key={item.id}>
                       <button
-                        className="w-full text-left text-sm font-medium text-gray-600 hover:text-gray-900 flex items-center justify-between"
+                        className="w-full text-start text-sm font-medium text-gray-600 hover:text-gray-900 flex items-center justify-between"
                         onClick={() =>
                           setOpenDropdown(isOpen ? null : item.id)
                         }
@@ -286,7 +288,7 @@ export function Header({ locale, config }: HeaderProps) {
                       </button>
 
                       {isOpen && (
-                        <div className="mt-3 ml-2 space-y-2 pb-3 border-b border-slate-200">
+                        <div className="mt-3 ms-2 space-y-2 pb-3 border-b border-slate-200">
                           {item.children.map((child) => (
                             <Link
                               key={child.id}
@@ -0,0 +1,113 @@
+// ABOUTME: Tests for LanguageSwitcher component
+// ABOUTME: Validates locale links, slug translation, page-declared alternates and menu keyboard use
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { LanguageSwitcher } from './LanguageSwitcher'
+import { defineRoutes } from '../../lib/i18n/routes'
+
+let pathname = '/en/enterprise'
+
+vi.mock('next/navigation', () => ({
+  usePathname: () => pathname,
+}))
+
+const locales = ['en', 'fr', 'es']
+const routes = defineRoutes({
+  about: { en: '/about', fr: '/a-propos' },
+})
+
+describe('LanguageSwitcher', () => {
+  afterEach(() => {
+    pathname = '/en/enterprise'
+    document.head.innerHTML = ''
+  })
+
+  it('should link to every other locale without mangling the path', () => {
+    render(<LanguageSwitcher currentLocale="en" locales={locales} routes={routes} />)
+
+    const french = screen.getByRole('link', { name: 'Switch to Français' })
+    expect(french).toHaveAttribute('href', '/fr/enterprise')
+    expect(french).toHaveAttribute('hreflang', 'fr')
+    expect(french).toHaveAttribute('lang', 'fr')
+    expect(screen.getByRole('link', { name: 'Switch to Español' })).toBeInTheDocument()
+    expect(screen.queryByRole('link', { name: /English/ })).not.toBeInTheDocument()
+  })
+
+  it('should translate slugs and mark the current locale in the button group', () => {
+    pathname = '/en/about'
+    render(
+      <LanguageSwitcher currentLocale="en" locales={locales} routes={routes} variant="buttons" />
+    )
+
+    expect(screen.getByRole('link', { name: 'English' })).toHaveAttribute('aria-current', 'true')
+    expect(screen.getByRole('link', { name: 'Français' })).toHaveAttribute('href', '/fr/a-propos')
+    expect(screen.getByRole('link', { name: 'Español' })).toHaveAttribute('href', '/es')
+    expect(screen.getByRole('link', { name: 'Français' })).toHaveTextContent('FR')
+  })
+
+  it('should prefer alternates declared by the page', async () => {
+    pathname = '/en/blog/hello'
+    document.head.innerHTML = `
+      <link rel="alternate" hreflang="en" href="${window.location.origin}/en/blog/hello" />
+      <link rel="alternate" hreflang="fr" href="${window.location.origin}/fr/blogue/bonjour" />
+    `
+    render(<LanguageSwitcher currentLocale="en" locales={locales} />)
+
+    await waitFor(() =>
+      expect(screen.getByRole('link', { name: 'Switch to Français' })).toHaveAttribute(
+        'href',
+        '/fr/blogue/bonjour'
+      )
+    )
+    expect(screen.getByRole('link', { name: 'Switch to Español' })).toHaveAttribute(
+      'href',
+      '/es/blog/hello'
+    )
+  })
+
+  it('should fall back per locale to the route manifest, then the home page', () => {
+    pathname = '/en/about'
+    const partial = defineRoutes({ about: { en: '/about', es: '/acerca' } })
+    render(
+      <LanguageSwitcher
+        currentLocale="en"
+        locales={locales}
+        routes={partial}
+        alternates={{ fr: '/fr/a-propos' }}
+      />
+    )
+
+    expect(screen.getByRole('link', { name: 'Switch to Français' })).toHaveAttribute(
+      'href',
+      '/fr/a-propos'
+    )
+    expect(screen.getByRole('link', { name: 'Switch to Español' })).toHaveAttribute(
+      'href',
+      '/es/acerca'
+    )
+  })
+
+  it('should open the dropdown menu and move focus with the keyboard', async () => {
+    const user = userEvent.setup()
+    render(<LanguageSwitcher currentLocale="fr" locales={locales} variant="dropdown" />)
+
+    const button = screen.getByRole('button', { name: 'Langue: Français' })
+    button.focus()
+    await user.keyboard('{ArrowDown}')
+
+    expect(button).toHaveAttribute('aria-expanded', 'true')
+    expect(screen.getByRole('menuitem', { name: 'Français' })).toHaveFocus()
+
+    await user.keyboard('{ArrowDown}')
+    expect(screen.getByRole('menuitem', { name: 'Español' })).toHaveFocus()
+
+    await user.keyboard('{Home}')
+    expect(screen.getByRole('menuitem', { name: 'English' })).toHaveFocus()
+
+    await user.keyboard('{Escape}')
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+    expect(button).toHaveFocus()
+  })
+})
@@ -1,60 +1,306 @@
-// ABOUTME: Language switcher component for bilingual navigation
-// ABOUTME: Translates slugs when switching between languages
+// ABOUTME: Language switcher listing every configured locale as links, a dropdown menu or buttons
+// ABOUTME: Links to page-declared alternates, then route manifest translations, then locale homes
 
 'use client';
 
+import { useEffect, useId, useRef, useState, type KeyboardEvent } from 'react';
 import { usePathname } from 'next/navigation';
-import { type Locale } from '../../lib/i18n/config';
+import {
+  type Locale,
+  locales as configuredLocales,
+  getLocaleName,
+  getLocaleLabel,
+} from '../../lib/i18n/config';
 import { setLocaleCookie } from '../../lib/i18n/locale-cookie';
-import { translateSlug, type SlugTranslations } from '../../lib/i18n/slug-translations';
+import { getAlternatePaths, stripLocalePrefix, type RouteManifest } from '../../lib/i18n/routes';
 import { cn } from '../../lib/utils/cn';
+import { useMessages } from '../MessagesProvider';
+
+export type LanguageSwitcherVariant = 'link' | 'dropdown' | 'buttons';
 
 export interface LanguageSwitcherProps {
   currentLocale: Locale;
   className?: string;
-  customSlugTranslations?: SlugTranslations;
+  /**
+   * link: a link to each other locale, dropdown: a menu of every locale,
+   * buttons: a button group of locale codes
+   * @default 'link'
+   */
+  variant?: LanguageSwitcherVariant;
+  /** Locales to offer @default the configured locales */
+  locales?: readonly Locale[];
+  /** Route manifest @default the manifest set with configureRoutes() */
+  routes?: RouteManifest;
+  /**
+   * URL of the current page per locale, for pages outside the route manifest.
+   * Defaults to the page's `<link rel="alternate" hreflang>` tags.
+   */
+  alternates?: Partial<Record<Locale, string>>;
+}
+
+/**
+ * Read the page's hreflang alternates, e.g. from Next.js `alternates.languages` metadata
+ */
+function readAlternateLinks(locales: readonly Locale[]): Partial<Record<Locale, string>> {
+  const alternates: Partial<Record<Locale, string>> = {};
+  const links = document.head.querySelectorAll('link[rel="alternate"][hreflang]');
+
+  links.forEach((link) => {
+    const hreflang = link.getAttribute('hreflang')?.toLowerCase();
+    const locale = locales.find((candidate) => candidate.toLowerCase() === hreflang);
+    if (!locale) return;
+
+    const url = new URL(link.getAttribute('href') ?? '', window.location.href);
+    alternates[locale] =
+      url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : url.href;
+  });
+
+  return alternates;
+}
+
+function useAlternateLinks(locales: readonly Locale[], pathname: string) {
+  const [alternates, setAlternates] = useState<Partial<Record<Locale, string>>>({});
+  const localeKey = locales.join(',');
+
+  useEffect(() => {
+    const update = () => {
+      const next = readAlternateLinks(localeKey.split(',') as Locale[]);
+      setAlternates((previous) =>
+        JSON.stringify(previous) === JSON.stringify(next) ? previous : next
+      );
+    };
+    update();
+
+    // Metadata for client-side navigations lands after the route renders
+    const observer = new MutationObserver(update);
+    observer.observe(document.head, { childList: true, subtree: true, attributes: true });
+    return () => observer.disconnect();
+  }, [localeKey, pathname]);
+
+  return alternates;
 }
 
 export function LanguageSwitcher({
   currentLocale,
   className,
-  customSlugTranslations,
+  variant = 'link',
+  locales = configuredLocales,
+  routes,
+  alternates,
 }: LanguageSwitcherProps) {
-  const pathname = usePathname();
+  const t = useMessages(currentLocale);
+  const pathname = usePathname() ?? '/';
+  const discovered = useAlternateLinks(locales, pathname);
+
+  // Page-declared alternates win, then manifest translations, then the locale's home page
+  const declared = alternates ?? discovered;
+  const translated = getAlternatePaths(
+    stripLocalePrefix(pathname, currentLocale),
+    currentLocale,
+    routes,
+    locales
+  );
+  const getHref = (locale: Locale) => {
+    if (locale === currentLocale) return pathname;
+    return declared[locale] ?? translated[locale] ?? `/${locale}`;
+  };
 
-  // Get alternate locale
-  const alternateLocale: Locale = currentLocale === 'fr' ? 'en' : 'fr';
-  const displayText = alternateLocale === 'fr' ? 'Français' : 'English';
+  const linkProps = (locale: Locale) => ({
+    href: getHref(locale),
+    lang: locale,
+    hrefLang: locale,
+    onClick: () => setLocaleCookie(locale),
+  });
 
-  // Remove current locale from pathname to get the base path
-  const pathnameWithoutLocale = pathname.replace(`/${currentLocale}`, '') || '/';
+  if (variant === 'dropdown') {
+    return (
+      <LanguageMenu
+        currentLocale={currentLocale}
+        locales={locales}
+        label={t('languageSwitcher.label')}
+        linkProps={linkProps}
+        className={className}
+      />
+    );
+  }
 
-  // Translate the slug to the target locale
-  const translatedPath = translateSlug(
-    pathnameWithoutLocale,
-    currentLocale,
-    alternateLocale,
-    customSlugTranslations
+  if (variant === 'buttons') {
+    return (
+      <div
+        role="group"
+        aria-label={t('languageSwitcher.label')}
+        className={cn('inline-flex rounded-full border border-gray-300 p-0.5', className)}
+      >
+        {locales.map((locale) => {
+          const isCurrent = locale === currentLocale;
+          return (
+            <a
+              key={locale}
+              {...linkProps(locale)}
+              aria-label={getLocaleName(locale)}
+              aria-current={isCurrent ? 'true' : undefined}
+              className={cn(
+                'rounded-full px-3 py-1 text-xs font-semibold transition-colors',
+                isCurrent ? 'bg-primary text-white' : 'text-gray-600 hover:text-gray-900'
+              )}
+            >
+              {getLocaleLabel(locale)}
+            </a>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('flex items-center gap-3', className)}>
+      {locales
+        .filter((locale) => locale !== currentLocale)
+        .map((locale) => {
+          const name = getLocaleName(locale);
+          return (
+            <a
+              key={locale}
+              {...linkProps(locale)}
+              aria-label={t('languageSwitcher.switchTo', { language: name })}
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              {name}
+            </a>
+          );
+        })}
+    </div>
   );
+}
+
+interface LanguageMenuProps {
+  currentLocale: Locale;
+  locales: readonly Locale[];
+  label: string;
+  linkProps: (locale: Locale) => {
+    href: string;
+    lang: string;
+    hrefLang: string;
+    onClick: () => void;
+  };
+  className?: string;
+}
 
-  const href = `/${alternateLocale}${translatedPath}`;
+/**
+ * Menu button following the WAI-ARIA menu pattern: arrow keys, Home/End,
+ * Escape and Tab, with focus returned to the button on close
+ */
+function LanguageMenu({ currentLocale, locales, label, linkProps, className }: LanguageMenuProps) {
+  const menuId = useId();
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const itemRefs = useRef<Array<HTMLAnchorElement | null>>([]);
+  const isOpen = focusIndex !== null;
+  const currentIndex = Math.max(locales.indexOf(currentLocale), 0);
 
-  const handleClick = () => {
-    // Set cookie to persist locale preference
-    setLocaleCookie(alternateLocale);
+  useEffect(() => {
+    if (focusIndex !== null) itemRefs.current[focusIndex]?.focus();
+  }, [focusIndex]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setFocusIndex(null);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [isOpen]);
+
+  const close = () => {
+    setFocusIndex(null);
+    buttonRef.current?.focus();
+  };
+
+  const handleButtonKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if (['ArrowDown', 'Enter', ' '].includes(event.key)) {
+      event.preventDefault();
+      setFocusIndex(currentIndex);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setFocusIndex(locales.length - 1);
+    }
+  };
+
+  const handleMenuKeyDown = (event: KeyboardEvent<HTMLUListElement>) => {
+    if (focusIndex === null) return;
+    const moves: Record<string, number> = {
+      ArrowDown: (focusIndex + 1) % locales.length,
+      ArrowUp: (focusIndex - 1 + locales.length) % locales.length,
+      Home: 0,
+      End: locales.length - 1,
+    };
+
+    if (event.key in moves) {
+      event.preventDefault();
+      setFocusIndex(moves[event.key]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    } else if (event.key === 'Tab') {
+      setFocusIndex(null);
+    }
   };
 
   return (
-    <a
-      href={href}
-      onClick={handleClick}
-      className={cn(
-        'text-sm text-gray-600 hover:text-gray-900 transition-colors',
-        className
+    <div ref={containerRef} className={cn('relative', className)}>
+      <button
+        ref={buttonRef}
+        type="button"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? menuId : undefined}
+        aria-label={`${label}: ${getLocaleName(currentLocale)}`}
+        onClick={() => (isOpen ? setFocusIndex(null) : setFocusIndex(currentIndex))}
+        onKeyDown={handleButtonKeyDown}
+        className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+      >
+        {getLocaleName(currentLocale)}
+        <svg
+          className={cn('w-4 h-4 transition-transform', isOpen && 'rotate-180')}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <ul
+          id={menuId}
+          role="menu"
+          aria-label={label}
+          onKeyDown={handleMenuKeyDown}
+          className="absolute end-0 top-full z-50 mt-2 min-w-[10rem] rounded-lg border border-slate-200 bg-white py-1 shadow-lg"
+        >
+          {locales.map((locale, index) => (
+            <li key={locale} role="none">
+              <a
+                ref={(element) => {
+                  itemRefs.current[index] = element;
+                }}
+                role="menuitem"
+                tabIndex={-1}
+                {...linkProps(locale)}
+                aria-current={locale === currentLocale ? 'true' : undefined}
+                className={cn(
+                  'block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 hover:text-primary focus:bg-slate-50 focus:outline-none',
+                  locale === currentLocale && 'font-semibold'
+                )}
+              >
+                {getLocaleName(locale)}
+              </a>
+            </li>
+          ))}
+        </ul>
       )}
-      aria-label={`Switch to ${alternateLocale === 'fr' ? 'French' : 'English'}`}
-    >
-      {displayText}
-    </a>
+    </div>
   );
 }
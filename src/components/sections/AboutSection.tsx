@@ -6,6 +6,7 @@
 import { type Locale } from '../../lib/i18n/config';
 import { type AboutContent } from '../../config/content.schema';
 import { getLocalizedString } from '../../lib/content';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface AboutSectionProps {
   locale: Locale;
@@ -21,7 +22,7 @@ export function AboutSection({ locale, content }: AboutSectionProps) {
         <div className="grid gap-16 md:grid-cols-2 items-center">
           {/* Text Content */}
           <div className="max-w-xl">
-            <h2 className="mb-4 text-4xl font-bold text-slate-900 font-condensed">
+            <h2 className={`mb-4 ${TYPE_SCALE_CLASSES.h2} font-bold text-slate-900 font-condensed`}>
               {heading}
             </h2>
             {content.dividerLine && <div className="h-1 w-16 bg-primary mb-8" />}
@@ -29,7 +30,7 @@ export function AboutSection({ locale, content }: AboutSectionProps) {
             {content.paragraphs.map((paragraph, index) => (
               <p
                 key={index}
-                className="mb-4 text-slate-700 leading-relaxed text-lg"
+                className={`mb-4 text-slate-700 ${TYPE_SCALE_CLASSES.lead}`}
                 dangerouslySetInnerHTML={{
                   __html: getLocalizedString(paragraph, locale),
                 }}
@@ -14,6 +14,8 @@ import { FileUpload } from '../FileUpload'
 import { Tabs } from '../Tabs'
 import { Icons } from '../Icon'
 import { toast } from '../Toast'
+import { useMessages } from '../MessagesProvider'
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography'
 
 // Types
 export interface OfficeHours {
@@ -120,6 +122,7 @@ function ContactForm({
   config: ContactFormConfig
   locale: Locale
 }) {
+  const t = useMessages(locale)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isSuccess, setIsSuccess] = useState(false)
   const formHooks = getFormHooks()
@@ -136,13 +139,13 @@ function ContactForm({
 
     if (fields.includes('name')) {
       schemaFields.name = required.includes('name')
-        ? z.string().min(2, locale === 'fr' ? 'Nom requis (min 2 caractères)' : 'Name required (min 2 chars)')
+        ? z.string().min(2, t('contact.nameRequired', { min: 2 }))
         : z.string().optional()
     }
 
     if (fields.includes('email')) {
       schemaFields.email = required.includes('email')
-        ? z.string().email(locale === 'fr' ? 'Email invalide' : 'Invalid email')
+        ? z.string().email(t('contact.emailInvalid'))
         : z.string().email().optional()
     }
 
@@ -156,7 +159,7 @@ function ContactForm({
 
     if (fields.includes('message')) {
       schemaFields.message = required.includes('message')
-        ? z.string().min(10, locale === 'fr' ? 'Message requis (min 10 caractères)' : 'Message required (min 10 chars)')
+        ? z.string().min(10, t('contact.messageRequired', { min: 10 }))
         : z.string().optional()
     }
 
@@ -193,21 +196,13 @@ function ContactForm({
       }
 
       setIsSuccess(true)
-      toast.success(
-        locale === 'fr'
-          ? 'Message envoyé! Nous vous répondrons dans les plus brefs délais.'
-          : "Message sent! We'll get back to you as soon as possible."
-      )
+      toast.success(t('contact.success'))
 
       reset()
 
       setTimeout(() => setIsSuccess(false), 3000)
     } catch (error) {
-      toast.error(
-        locale === 'fr'
-          ? "Une erreur s'est produite. Veuillez réessayer."
-          : 'An error occurred. Please try again.'
-      )
+      toast.error(t('contact.error'))
     } finally {
       setIsSubmitting(false)
     }
@@ -218,7 +213,7 @@ function ContactForm({
       {fields.includes('name') && (
         <FormField
           name="name"
-          label={locale === 'fr' ? 'Nom' : 'Name'}
+          label={t('contact.name')}
           error={errors.name}
           required={required.includes('name')}
         >
@@ -233,7 +228,7 @@ function ContactForm({
       {fields.includes('email') && (
         <FormField
           name="email"
-          label={locale === 'fr' ? 'Email' : 'Email'}
+          label={t('contact.email')}
           error={errors.email}
           required={required.includes('email')}
         >
@@ -248,7 +243,7 @@ function ContactForm({
       {fields.includes('phone') && (
         <FormField
           name="phone"
-          label={locale === 'fr' ? 'Téléphone' : 'Phone'}
+          label={t('contact.phone')}
           error={errors.phone}
           required={required.includes('phone')}
         >
@@ -263,7 +258,7 @@ function ContactForm({
       {fields.includes('subject') && (
         <FormField
           name="subject"
-          label={locale === 'fr' ? 'Sujet' : 'Subject'}
+          label={t('contact.subject')}
           error={errors.subject}
           required={required.includes('subject')}
         >
@@ -278,7 +273,7 @@ function ContactForm({
       {fields.includes('message') && (
         <FormField
           name="message"
-          label={locale === 'fr' ? 'Message' : 'Message'}
+          label={t('contact.message')}
           error={errors.message}
           required={required.includes('message')}
         >
@@ -292,7 +287,7 @@ function ContactForm({
 
       {fields.includes('attachment') && (
         <FileUpload
-          label={locale === 'fr' ? 'Pièce jointe (optionnel)' : 'Attachment (optional)'}
+          label={t('contact.attachment')}
           accept=".pdf,.doc,.docx,.jpg,.png"
           maxSize={5 * 1024 * 1024}
           onChange={(file) => {}}
@@ -318,9 +313,9 @@ function ContactForm({
         fullWidth
         loading={isSubmitting}
         success={isSuccess}
-        successText={locale === 'fr' ? 'Envoyé!' : 'Sent!'}
+        successText={t('contact.sent')}
       >
-        {locale === 'fr' ? 'Envoyer le message' : 'Send Message'}
+        {t('contact.send')}
       </Button>
     </form>
   )
@@ -338,13 +333,14 @@ function LocationInfo({
   showStatus?: boolean
   timezone?: string
 }) {
+  const t = useMessages(locale)
   const locationName = typeof location.name === 'string' ? location.name : getLocalizedString(location.name, locale)
   const status = isLocationOpen(location.hours, timezone)
 
   return (
     <div className="space-y-6">
       {location.name && (
-        <h3 className="text-2xl font-bold text-slate-900">{locationName}</h3>
+        <h3 className={`${TYPE_SCALE_CLASSES.h3} font-bold text-slate-900`}>{locationName}</h3>
       )}
 
       {/* Address */}
@@ -354,7 +350,7 @@ function LocationInfo({
             <Icons.MapPin size={20} className="text-primary mt-1 flex-shrink-0" />
             <div>
               <p className="font-semibold text-slate-900 mb-1">
-                {locale === 'fr' ? 'Adresse' : 'Address'}
+                {t('contact.address')}
               </p>
               <a
                 href={`https://maps.google.com/?q=${encodeURIComponent(location.address)}`}
@@ -375,7 +371,7 @@ function LocationInfo({
           <Icons.Phone size={20} className="text-primary mt-1 flex-shrink-0" />
           <div>
             <p className="font-semibold text-slate-900 mb-1">
-              {locale === 'fr' ? 'Téléphone' : 'Phone'}
+              {t('contact.phone')}
             </p>
             <a
               href={`tel:${location.phone.replace(/\D/g, '')}`}
@@ -393,7 +389,7 @@ function LocationInfo({
           <Icons.Mail size={20} className="text-primary mt-1 flex-shrink-0" />
           <div>
             <p className="font-semibold text-slate-900 mb-1">
-              {locale === 'fr' ? 'Email' : 'Email'}
+              {t('contact.email')}
             </p>
             <a
               href={`mailto:${location.email}`}
@@ -411,23 +407,19 @@ function LocationInfo({
           <Icons.Clock size={20} className="text-primary mt-1 flex-shrink-0" />
           <div>
             <p className="font-semibold text-slate-900 mb-1">
-              {locale === 'fr' ? 'Horaires' : 'Hours'}
+              {t('contact.hours')}
             </p>
             {showStatus && (
               <p className={`text-sm font-medium mb-2 ${status.isOpen ? 'text-green-600' : 'text-red-600'}`}>
                 {status.isOpen
-                  ? locale === 'fr'
-                    ? `Ouvert • Ferme à ${status.closesAt}`
-                    : `Open • Closes at ${status.closesAt}`
-                  : locale === 'fr'
-                  ? `Fermé • Ouvre à ${status.opensAt}`
-                  : `Closed • Opens at ${status.opensAt}`}
+                  ? t('contact.openUntil', { time: status.closesAt ?? '' })
+                  : t('contact.closedUntil', { time: status.opensAt ?? '' })}
               </p>
             )}
             <div className="text-sm text-slate-600 space-y-1">
               {Object.entries(location.hours).map(([day, hours]) => (
                 <div key={day} className="flex justify-between">
-                  <span className="capitalize">{locale === 'fr' ? translateDay(day, 'fr') : day}</span>
+                  <span>{t('contact.weekday', { day })}</span>
                   <span>{hours.open} - {hours.close}</span>
                 </div>
               ))}
@@ -443,10 +435,13 @@ function LocationInfo({
 function MapDisplay({
   location,
   config,
+  locale,
 }: {
   location: Location
   config?: MapConfig
+  locale: Locale
 }) {
+  const t = useMessages(locale)
   const provider = config?.provider || 'google'
 
   if (provider === 'link') {
@@ -460,7 +455,7 @@ function MapDisplay({
         <div className="absolute inset-0 flex items-center justify-center">
           <div className="text-center">
             <Icons.MapPin size={48} className="text-primary mx-auto mb-4" />
-            <p className="text-slate-700 font-medium">View on Google Maps</p>
+            <p className="text-slate-700 font-medium">{t('contact.viewOnMap')}</p>
             <p className="text-sm text-slate-500 mt-2">{location.address}</p>
           </div>
         </div>
@@ -481,7 +476,7 @@ function MapDisplay({
       >
         <img
           src={staticMapUrl}
-          alt="Location map"
+          alt={t('contact.mapAlt')}
           className="w-full h-full object-cover"
         />
       </a>
@@ -512,30 +507,13 @@ function MapDisplay({
     <div className="absolute inset-0 flex items-center justify-center text-slate-400 bg-slate-100">
       <div className="text-center">
         <Icons.MapPin size={48} className="mx-auto mb-2" />
-        <span className="block text-sm">Map</span>
+        <span className="block text-sm">{t('contact.map')}</span>
         <span className="block text-xs mt-1">{location.address}</span>
       </div>
     </div>
   )
 }
 
-// Utility function
-function translateDay(day: string, locale: Locale): string {
-  if (locale === 'fr') {
-    const translations: Record<string, string> = {
-      monday: 'Lundi',
-      tuesday: 'Mardi',
-      wednesday: 'Mercredi',
-      thursday: 'Jeudi',
-      friday: 'Vendredi',
-      saturday: 'Samedi',
-      sunday: 'Dimanche',
-    }
-    return translations[day] || day
-  }
-  return day.charAt(0).toUpperCase() + day.slice(1)
-}
-
 export function ContactSection({
   locale,
   title,
@@ -550,15 +528,14 @@ export function ContactSection({
   showStatus = true,
   className = '',
 }: ContactSectionProps) {
+  const t = useMessages(locale)
   const [selectedLocation, setSelectedLocation] = useState(defaultLocation)
 
   const sectionTitle = title
     ? typeof title === 'string'
       ? title
       : getLocalizedString(title, locale)
-    : locale === 'fr'
-    ? 'Contactez-nous'
-    : 'Contact Us'
+    : t('contact.title')
 
   const sectionDesc = description
     ? typeof description === 'string'
@@ -567,7 +544,7 @@ export function ContactSection({
     : undefined
 
   const currentLocation = locations?.[selectedLocation] || {
-    name: locale === 'fr' ? 'Notre bureau' : 'Our Office',
+    name: t('contact.defaultLocation'),
     address: '123 Main Street, City, State 12345',
   }
 
@@ -581,12 +558,12 @@ export function ContactSection({
       <div className="container mx-auto px-4 max-w-7xl">
         {/* Header */}
         <div className="text-center mb-12">
-          <h2 className="mb-4 text-4xl font-bold text-slate-900 font-condensed">
+          <h2 className={`mb-4 ${TYPE_SCALE_CLASSES.h2} font-bold text-slate-900 font-condensed`}>
             {sectionTitle}
           </h2>
           <div className="h-1 w-16 bg-primary mb-6 mx-auto" />
           {sectionDesc && (
-            <p className="text-lg text-slate-600 max-w-2xl mx-auto">{sectionDesc}</p>
+            <p className={`${TYPE_SCALE_CLASSES.lead} text-slate-600 max-w-2xl mx-auto`}>{sectionDesc}</p>
           )}
         </div>
 
@@ -614,8 +591,8 @@ export function ContactSection({
           <div>
             {form?.enabled ? (
               <div>
-                <h3 className="text-2xl font-bold text-slate-900 mb-6">
-                  {locale === 'fr' ? 'Envoyez-nous un message' : 'Send us a message'}
+                <h3 className={`${TYPE_SCALE_CLASSES.h3} font-bold text-slate-900 mb-6`}>
+                  {t('contact.formTitle')}
                 </h3>
                 <ContactForm config={form} locale={locale} />
               </div>
@@ -632,7 +609,7 @@ export function ContactSection({
           {/* Right: Map */}
           {showMap && (
             <div className="relative h-[500px] rounded-xl overflow-hidden shadow-lg border border-slate-200">
-              <MapDisplay location={currentLocation} config={map} />
+              <MapDisplay location={currentLocation} config={map} locale={locale} />
             </div>
           )}
         </div>
@@ -7,6 +7,7 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { type Locale } from '../../lib/i18n/config';
 import { getLocalizedString } from '../../lib/content';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface FeatureSectionContent {
   id: string;
@@ -45,13 +46,13 @@ export function FeatureSection({ locale, content, backgroundColor = 'bg-white' }
                 {heading}
               </p>
               {subheading && (
-                <h2 className="text-3xl md:text-4xl font-bold text-charcoal leading-tight">
+                <h2 className={`${TYPE_SCALE_CLASSES.h2} font-bold text-charcoal`}>
                   {subheading}
                 </h2>
               )}
             </div>
 
-            <p className="text-lg text-charcoal/80 leading-relaxed">
+            <p className={`${TYPE_SCALE_CLASSES.lead} text-charcoal/80`}>
               {description}
             </p>
 
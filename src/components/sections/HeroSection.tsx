@@ -12,6 +12,8 @@ import { getLocalizedString } from '../../lib/content';
 import Image from 'next/image';
 import { TrustBadges, type Badge } from '../TrustBadges';
 import { Icons } from '../Icon';
+import { useMessages } from '../MessagesProvider';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface HeroAnimations {
   /** Animation type for headline */
@@ -38,7 +40,7 @@ export interface HeroSectionProps {
 }
 
 // Scroll Indicator Component
-function ScrollIndicator({ onClick }: { onClick: () => void }) {
+function ScrollIndicator({ onClick, label }: { onClick: () => void; label: string }) {
   const motionHooks = useMotionHooks();
   const prefersReducedMotion = motionHooks.useReducedMotion();
   const MotionButton = getMotionComponent('button');
@@ -51,7 +53,7 @@ function ScrollIndicator({ onClick }: { onClick: () => void }) {
       initial={{ opacity: 0, y: -10 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: 1, duration: 0.6 }}
-      aria-label="Scroll for more"
+      aria-label={label}
     >
       <MotionDiv
         animate={prefersReducedMotion ? {} : { y: [0, 8, 0] }}
@@ -76,6 +78,7 @@ export function HeroSection({
   trustBadges,
   backgroundEffect = 'none',
 }: HeroSectionProps) {
+  const t = useMessages(locale);
   const sectionRef = useRef<HTMLElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [showScrollIndicator, setShowScrollIndicator] = useState(true);
@@ -261,7 +264,7 @@ export function HeroSection({
           <div className="relative z-10 w-full max-w-5xl mx-auto px-6 md:px-8 text-center text-white py-20">
             {/* Headline */}
             <MotionH1
-              className="mb-6 text-4xl font-bold md:text-6xl font-condensed leading-tight px-4"
+              className={`mb-6 ${TYPE_SCALE_CLASSES.display} font-bold font-condensed px-4`}
               initial={animations.headline !== 'none' ? 'hidden' : undefined}
               animate={animations.headline !== 'none' ? 'visible' : undefined}
               variants={prefersReducedMotion ? undefined : headlineVariant}
@@ -271,7 +274,7 @@ export function HeroSection({
 
             {/* Subheadline */}
             <MotionP
-              className="mb-10 text-xl md:text-2xl font-light max-w-3xl mx-auto px-4 leading-relaxed whitespace-pre-line"
+              className={`mb-10 ${TYPE_SCALE_CLASSES.lead} font-light max-w-3xl mx-auto px-4 whitespace-pre-line`}
               initial={animations.headline !== 'none' ? 'hidden' : undefined}
               animate={animations.headline !== 'none' ? 'visible' : undefined}
               variants={
@@ -349,14 +352,14 @@ export function HeroSection({
 
           {/* Scroll Indicator */}
           {animations.scrollIndicator && showScrollIndicator && (
-            <ScrollIndicator onClick={handleScrollClick} />
+            <ScrollIndicator onClick={handleScrollClick} label={t('common.scrollForMore')} />
           )}
         </section>
 
         {/* Sticky CTA */}
         {showStickyCta && (
           <MotionDiv
-            className="fixed top-20 right-6 z-50"
+            className="fixed top-20 end-6 z-50"
             initial={{ x: 100, opacity: 0 }}
             animate={{ x: 0, opacity: 1 }}
             exit={{ x: 100, opacity: 0 }}
@@ -387,7 +390,7 @@ export function HeroSection({
               <div>
                 {/* Headline */}
                 <MotionH1
-                  className="mb-6 text-4xl md:text-5xl font-bold text-charcoal leading-tight"
+                  className={`mb-6 ${TYPE_SCALE_CLASSES.h1} font-bold text-charcoal`}
                   initial={animations.headline !== 'none' ? 'hidden' : undefined}
                   animate={animations.headline !== 'none' ? 'visible' : undefined}
                   variants={prefersReducedMotion ? undefined : headlineVariant}
@@ -397,7 +400,7 @@ export function HeroSection({
 
                 {/* Subheadline */}
                 <MotionP
-                  className="mb-10 text-lg md:text-xl text-charcoal/80 leading-relaxed"
+                  className={`mb-10 ${TYPE_SCALE_CLASSES.lead} text-charcoal/80`}
                   initial={animations.headline !== 'none' ? 'hidden' : undefined}
                   animate={animations.headline !== 'none' ? 'visible' : undefined}
                   variants={
@@ -510,7 +513,7 @@ export function HeroSection({
         {/* Sticky CTA */}
         {showStickyCta && (
           <MotionDiv
-            className="fixed top-20 right-6 z-50"
+            className="fixed top-20 end-6 z-50"
             initial={{ x: 100, opacity: 0 }}
             animate={{ x: 0, opacity: 1 }}
             exit={{ x: 100, opacity: 0 }}
@@ -556,7 +559,7 @@ export function HeroSection({
           <div className="max-w-2xl">
             {/* Headline */}
             <MotionH1
-              className="mb-6 text-4xl md:text-5xl font-bold text-charcoal leading-tight"
+              className={`mb-6 ${TYPE_SCALE_CLASSES.h1} font-bold text-charcoal`}
               initial={animations.headline !== 'none' ? 'hidden' : undefined}
               animate={animations.headline !== 'none' ? 'visible' : undefined}
               variants={prefersReducedMotion ? undefined : headlineVariant}
@@ -566,7 +569,7 @@ export function HeroSection({
 
             {/* Subheadline */}
             <MotionP
-              className="mb-10 text-lg md:text-xl text-charcoal/80 leading-relaxed"
+              className={`mb-10 ${TYPE_SCALE_CLASSES.lead} text-charcoal/80`}
               initial={animations.headline !== 'none' ? 'hidden' : undefined}
               animate={animations.headline !== 'none' ? 'visible' : undefined}
               variants={
@@ -645,14 +648,14 @@ export function HeroSection({
 
         {/* Scroll Indicator */}
         {animations.scrollIndicator && showScrollIndicator && (
-          <ScrollIndicator onClick={handleScrollClick} />
+          <ScrollIndicator onClick={handleScrollClick} label={t('common.scrollForMore')} />
         )}
       </section>
 
       {/* Sticky CTA */}
       {showStickyCta && (
         <MotionDiv
-          className="fixed top-20 right-6 z-50"
+          className="fixed top-20 end-6 z-50"
           initial={{ x: 100, opacity: 0 }}
           animate={{ x: 0, opacity: 1 }}
           exit={{ x: 100, opacity: 0 }}
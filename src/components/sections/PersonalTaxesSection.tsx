@@ -4,18 +4,22 @@
 'use client';
 
 import { type Locale } from '../../lib/i18n/config';
+import { useMessages } from '../MessagesProvider';
 import { Button } from '../ui/Button';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface PersonalTaxesSectionProps {
   locale: Locale;
 }
 
 export function PersonalTaxesSection({ locale }: PersonalTaxesSectionProps) {
+  const t = useMessages(locale);
+
   return (
     <section className="py-16 bg-brand-gradient-light">
       <div className="container mx-auto px-4 text-center">
-        <h2 className="mb-8 text-4xl font-bold text-primary font-condensed">
-          {locale === 'fr' ? 'Impôts personnels' : 'Personal Taxes'}
+        <h2 className={`mb-8 ${TYPE_SCALE_CLASSES.h2} font-bold text-primary font-condensed`}>
+          {t('personalTaxes.title')}
         </h2>
 
         <div className="flex flex-col sm:flex-row gap-4 justify-center max-w-2xl mx-auto">
@@ -28,9 +32,7 @@ export function PersonalTaxesSection({ locale }: PersonalTaxesSectionProps) {
               (window.location.href = `/${locale}/impots-personnels`)
             }
           >
-            {locale === 'fr'
-              ? 'OBTENIR LES QUESTIONNAIRES EN FRANÇAIS'
-              : 'GET QUESTIONNAIRES IN ENGLISH'}
+            {t('personalTaxes.questionnaires')}
           </Button>
         </div>
       </div>
@@ -4,30 +4,30 @@
 'use client';
 
 import { type Locale } from '../../lib/i18n/config';
+import { useMessages } from '../MessagesProvider';
 import { Button } from '../ui/Button';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface RecruitingSectionProps {
   locale: Locale;
 }
 
 export function RecruitingSection({ locale }: RecruitingSectionProps) {
+  const t = useMessages(locale);
+
   return (
     <section className="py-16 bg-gray-50">
       <div className="container mx-auto px-4 text-center">
-        <h2 className="mb-6 text-4xl font-bold text-primary font-condensed">
-          {locale === 'fr' ? 'LMKP recrute!' : 'LMKP is hiring!'}
+        <h2 className={`mb-6 ${TYPE_SCALE_CLASSES.h2} font-bold text-primary font-condensed`}>
+          {t('recruiting.title')}
         </h2>
 
         <p className="mb-4 text-gray-700 max-w-2xl mx-auto">
-          {locale === 'fr'
-            ? "Nous sommes toujours à la recherche de talents qui désirent mettre leurs compétences au service des entreprises québécoises. Vous souhaitez évoluer dans un environnement dynamique et riche en défis? Vous souhaitez œuvrer en faveur du tissu économique Québécois?"
-            : "We are always looking for talented individuals who want to put their skills at the service of Quebec businesses. Would you like to work in a dynamic and challenging environment? Do you want to work for the benefit of Quebec's economic fabric?"}
+          {t('recruiting.description')}
         </p>
 
         <p className="mb-8 text-gray-700 max-w-2xl mx-auto font-semibold">
-          {locale === 'fr'
-            ? 'Rejoignez-nous! Envoyez-nous votre CV!'
-            : 'Join us! Send us your CV!'}
+          {t('recruiting.callToAction')}
         </p>
 
         <Button
@@ -39,7 +39,7 @@ export function RecruitingSection({ locale }: RecruitingSectionProps) {
               'mailto:administration@lmkp.ca?subject=Candidature%20spontan%C3%A9e')
           }
         >
-          {locale === 'fr' ? 'Envoyer un CV' : 'Send a CV'}
+          {t('recruiting.sendCv')}
         </Button>
       </div>
     </section>
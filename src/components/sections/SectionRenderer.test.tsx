@@ -0,0 +1,87 @@
+// ABOUTME: Tests for SectionRenderer and the section registry
+// ABOUTME: Validates block-to-component mapping, custom props and skipped blocks
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { SectionRenderer, registerSection, defineSection, getSectionDefinition } from './SectionRenderer'
+import { PageSections } from '../../test/page-sections'
+
+function Banner({ locale, content, tone }: { locale: string; content: { text: string }; tone?: string }) {
+  return (
+    <p data-tone={tone}>
+      {locale}: {content.text}
+    </p>
+  )
+}
+
+registerSection('banner', Banner)
+
+describe('SectionRenderer', () => {
+  it('should render registered sections with locale, content and props', () => {
+    render(
+      <SectionRenderer
+        locale="en"
+        sections={[{ type: 'banner', content: { text: 'Hello' }, props: { tone: 'dark' } }]}
+      />
+    )
+
+    const banner = screen.getByText('en: Hello')
+    expect(banner).toHaveAttribute('data-tone', 'dark')
+  })
+
+  it('should use custom prop mapping', () => {
+    registerSection('quote', ({ text }: { text: string }) => <blockquote>{text}</blockquote>, {
+      getProps: (block) => ({ text: (block.content as string).toUpperCase() }),
+    })
+
+    render(<SectionRenderer locale="en" sections={[{ type: 'quote', content: 'wise words' }]} />)
+
+    expect(screen.getByText('WISE WORDS')).toBeInTheDocument()
+  })
+
+  it('should register definitions with typed prop mapping', () => {
+    const quote = defineSection(({ text }: { text: string }) => <q>{text}</q>, {
+      getProps: (block) => ({ text: String(block.content) }),
+    })
+    registerSection('pull-quote', quote)
+
+    render(<SectionRenderer locale="en" sections={[{ type: 'pull-quote', content: 'Less is more' }]} />)
+
+    expect(screen.getByText('Less is more')).toBeInTheDocument()
+    expect(getSectionDefinition('pull-quote')).toEqual(quote)
+    // @ts-expect-error getProps must return the component's props
+    defineSection(quote.component, { getProps: () => ({ text: 1 }) })
+  })
+
+  it('should render sections registered by a client module that wraps the renderer', () => {
+    render(<PageSections locale="en" sections={[{ type: 'team', content: { members: ['Ada', 'Grace'] } }]} />)
+
+    expect(screen.getAllByRole('listitem').map((item) => item.textContent)).toEqual(['Ada', 'Grace'])
+  })
+
+  it('should wrap blocks with an id in an anchor target', () => {
+    const { container } = render(
+      <SectionRenderer locale="fr" sections={[{ type: 'banner', id: 'promo', content: { text: 'Salut' } }]} />
+    )
+
+    expect(container.querySelector('#promo')).toHaveTextContent('fr: Salut')
+  })
+
+  it('should skip hidden and unknown sections', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const { container } = render(
+      <SectionRenderer
+        locale="en"
+        sections={[
+          { type: 'banner', content: { text: 'Hidden' }, hidden: true },
+          { type: 'does-not-exist', content: {} },
+        ]}
+      />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('does-not-exist'))
+    warn.mockRestore()
+  })
+})
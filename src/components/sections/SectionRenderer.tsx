@@ -0,0 +1,183 @@
+// ABOUTME: Section registry and renderer for declarative page composition
+// ABOUTME: Maps section block types from content config to components and props
+
+'use client';
+
+import {
+  Fragment,
+  type ComponentType,
+  type JSXElementConstructor,
+  type ReactElement,
+} from 'react';
+import { type Locale } from '../../lib/i18n/config';
+import { type SectionBlock } from '../../config/content.schema';
+import { HeroSection } from './HeroSection';
+import { AboutSection } from './AboutSection';
+import { WhyChooseUsSection } from './WhyChooseUsSection';
+import { ServicesSection } from './ServicesSection';
+import { ContactSection, type ContactSectionProps } from './ContactSection';
+import { TestimonialSection } from './TestimonialSection';
+import { LogosSection } from './LogosSection';
+import { FeatureSection } from './FeatureSection';
+
+export interface SectionRenderContext {
+  locale: Locale;
+  /** Position of the block in the page */
+  index: number;
+}
+
+export interface SectionDefinition<P = Record<string, unknown>> {
+  component: ComponentType<P>;
+  /**
+   * Maps a block to component props.
+   * Defaults to `{ locale, content, ...block.props }`.
+   */
+  getProps?: (block: SectionBlock, context: SectionRenderContext) => P;
+}
+
+/**
+ * A registered definition; its props type is only known where it was defined
+ */
+export interface RegisteredSectionDefinition {
+  component: JSXElementConstructor<never>;
+  getProps?: (block: SectionBlock, context: SectionRenderContext) => unknown;
+}
+
+interface RegisteredSection {
+  definition: RegisteredSectionDefinition;
+  /** Maps and renders a block, bound to the definition's props type when registering */
+  render: (block: SectionBlock, context: SectionRenderContext) => ReactElement;
+}
+
+const sectionRegistry = new Map<string, RegisteredSection>();
+
+function bindSection<P extends object>(definition: SectionDefinition<P>): RegisteredSection {
+  const { component: Component, getProps } = definition;
+  return {
+    definition,
+    render: (block, context) => {
+      const props = getProps
+        ? getProps(block, context)
+        : // Unchecked: components registered without getProps take the block as is
+          ({ locale: context.locale, content: block.content, ...block.props } as P);
+      return <Component {...props} />;
+    },
+  };
+}
+
+/**
+ * Define a section, checking `getProps` against the component's props
+ *
+ * @example
+ * const faq = defineSection(FAQAccordion, {
+ *   getProps: (block, { locale }) => ({ locale, items: block.content as FAQ[] }),
+ * })
+ */
+export function defineSection<P extends object>(
+  component: ComponentType<P>,
+  options: Omit<SectionDefinition<P>, 'component'> = {}
+): SectionDefinition<P> {
+  return { component, ...options };
+}
+
+/**
+ * Register a component or section definition for a section block type
+ *
+ * Registering an existing type replaces it, so apps can override built-in
+ * sections as well as add their own.
+ *
+ * @example
+ * registerSection('pricing', PricingSection)
+ *
+ * @example
+ * // Custom prop mapping
+ * registerSection('faq', FAQAccordion, {
+ *   getProps: (block, { locale }) => ({ locale, items: block.content as FAQ[] }),
+ * })
+ */
+export function registerSection<P extends object>(
+  type: string,
+  section: ComponentType<P> | SectionDefinition<P>,
+  options: Omit<SectionDefinition<P>, 'component'> = {}
+) {
+  const definition =
+    typeof section === 'object' && 'component' in section
+      ? { ...section, ...options }
+      : defineSection(section, options);
+  sectionRegistry.set(type, bindSection(definition));
+}
+
+/**
+ * Get the definition registered for a section type
+ */
+export function getSectionDefinition(type: string): RegisteredSectionDefinition | undefined {
+  return sectionRegistry.get(type)?.definition;
+}
+
+/**
+ * List all registered section types
+ */
+export function getRegisteredSectionTypes(): string[] {
+  return Array.from(sectionRegistry.keys());
+}
+
+// Built-in sections
+registerSection('hero', HeroSection);
+registerSection('about', AboutSection);
+registerSection('whyChooseUs', WhyChooseUsSection);
+registerSection('services', ServicesSection);
+registerSection('testimonial', TestimonialSection);
+registerSection('logos', LogosSection);
+registerSection('feature', FeatureSection);
+registerSection('contact', ContactSection, {
+  getProps: (block, { locale }) => ({
+    locale,
+    ...(block.content as Omit<ContactSectionProps, 'locale'>),
+    ...block.props,
+  }),
+});
+
+export interface SectionRendererProps {
+  locale: Locale;
+  /** Section blocks, usually `content.pages[pageId].sections` */
+  sections: SectionBlock[];
+}
+
+/**
+ * SectionRenderer - Renders a page from section blocks
+ *
+ * Looks up each block's type in the section registry and renders the
+ * matching component. Hidden blocks are skipped; unknown types are skipped
+ * with a console warning.
+ *
+ * @example
+ * ```tsx
+ * <SectionRenderer locale={locale} sections={content.pages.home.sections} />
+ * ```
+ */
+export function SectionRenderer({ locale, sections }: SectionRendererProps) {
+  return (
+    <>
+      {sections.map((block, index) => {
+        if (block.hidden) return null;
+
+        const section = sectionRegistry.get(block.type);
+        if (!section) {
+          console.warn(`SectionRenderer: No section registered for type "${block.type}"`);
+          return null;
+        }
+
+        const element = section.render(block, { locale, index });
+        const key = block.id ?? `${block.type}-${index}`;
+
+        return block.id ? (
+          <div key={key} id={block.id}>
+            {element}
+          </div>
+        ) : (
+          <Fragment key={key}>{element}</Fragment>
+        );
+      })}
+    </>
+  );
+}
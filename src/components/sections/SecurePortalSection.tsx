@@ -4,7 +4,9 @@
 'use client';
 
 import { type Locale } from '../../lib/i18n/config';
+import { useMessages } from '../MessagesProvider';
 import { Button } from '../ui/Button';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface SecurePortalSectionProps {
   locale: Locale;
@@ -12,23 +14,21 @@ export interface SecurePortalSectionProps {
 }
 
 export function SecurePortalSection({ locale, portalUrl }: SecurePortalSectionProps) {
+  const t = useMessages(locale);
+
   return (
     <section className="py-16 bg-gray-50">
       <div className="container mx-auto px-4 text-center">
-        <h2 className="mb-6 text-4xl font-bold text-primary font-condensed">
-          {locale === 'fr' ? 'Portail sécurisé' : 'Secure Portal'}
+        <h2 className={`mb-6 ${TYPE_SCALE_CLASSES.h2} font-bold text-primary font-condensed`}>
+          {t('securePortal.title')}
         </h2>
 
         <p className="mb-4 text-gray-700 max-w-2xl mx-auto">
-          {locale === 'fr'
-            ? 'Chez LMKP, le confort de nos clients est une priorité.'
-            : 'At LMKP, client comfort is a priority.'}
+          {t('securePortal.intro')}
         </p>
 
         <p className="mb-8 text-gray-700 max-w-2xl mx-auto">
-          {locale === 'fr'
-            ? "Nous avons alors mis en œuvre un portail de documents sécurisé qui facilite l'envoi, l'examen et l'approbation de documents, en pleine collaboration avec nos clients."
-            : 'We have implemented a secure document portal that facilitates the sending, review and approval of documents, in full collaboration with our clients.'}
+          {t('securePortal.description')}
         </p>
 
         <Button
@@ -37,9 +37,7 @@ export function SecurePortalSection({ locale, portalUrl }: SecurePortalSectionPr
           className="uppercase"
           onClick={() => window.open(portalUrl, '_blank')}
         >
-          {locale === 'fr'
-            ? 'ACCÉDER AU PORTAIL SÉCURISÉ'
-            : 'ACCESS SECURE PORTAL'}
+          {t('securePortal.access')}
         </Button>
       </div>
     </section>
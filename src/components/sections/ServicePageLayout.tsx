@@ -6,7 +6,9 @@
 import { type Locale } from '../../lib/i18n/config';
 import { Breadcrumb, type BreadcrumbItem } from '../ui/Breadcrumb';
 import { Button } from '../ui/Button';
+import { useMessages } from '../MessagesProvider';
 import { type ReactNode } from 'react';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface ServicePageLayoutProps {
   locale: Locale;
@@ -25,6 +27,8 @@ export function ServicePageLayout({
   breadcrumbItems,
   showCTA = true,
 }: ServicePageLayoutProps) {
+  const t = useMessages(locale);
+
   return (
     <div className="flex flex-col">
       {/* Hero Section */}
@@ -35,8 +39,8 @@ export function ServicePageLayout({
               items={breadcrumbItems}
               className="mb-8 text-white"
             />
-            <h1 className="mb-4 text-4xl md:text-5xl font-bold font-condensed leading-tight">{title}</h1>
-            <p className="text-lg md:text-xl text-white/90 max-w-3xl leading-relaxed">{description}</p>
+            <h1 className={`mb-4 ${TYPE_SCALE_CLASSES.h1} font-bold font-condensed`}>{title}</h1>
+            <p className={`${TYPE_SCALE_CLASSES.lead} text-white/90 max-w-3xl`}>{description}</p>
           </div>
         </div>
       </section>
@@ -50,15 +54,11 @@ export function ServicePageLayout({
             {/* CTA Section */}
             {showCTA && (
               <div className="mt-16 p-8 bg-gradient-to-br from-slate-50 to-white rounded-xl border border-slate-200 shadow-lg text-center">
-                <h2 className="text-2xl font-bold text-slate-900 mb-4 font-condensed">
-                  {locale === 'fr'
-                    ? 'Besoin de nos services?'
-                    : 'Need our services?'}
+                <h2 className={`${TYPE_SCALE_CLASSES.h3} font-bold text-slate-900 mb-4 font-condensed`}>
+                  {t('servicePage.ctaTitle')}
                 </h2>
-                <p className="text-slate-700 text-lg mb-6 max-w-2xl mx-auto">
-                  {locale === 'fr'
-                    ? "Contactez-nous dès aujourd'hui pour discuter de vos besoins et découvrir comment nous pouvons vous aider."
-                    : 'Contact us today to discuss your needs and discover how we can help you.'}
+                <p className={`text-slate-700 ${TYPE_SCALE_CLASSES.lead} mb-6 max-w-2xl mx-auto`}>
+                  {t('servicePage.ctaDescription')}
                 </p>
                 <div className="flex flex-col sm:flex-row gap-4 justify-center">
                   <Button
@@ -68,14 +68,14 @@ export function ServicePageLayout({
                       (window.location.href = `/${locale}/contact`)
                     }
                   >
-                    {locale === 'fr' ? 'Parlez à un CPA' : 'Talk to a CPA'}
+                    {t('servicePage.ctaPrimary')}
                   </Button>
                   <Button
                     variant="outlined"
                     size="lg"
                     onClick={() => (window.location.href = `/${locale}`)}
                   >
-                    {locale === 'fr' ? "Retour à l'accueil" : 'Back to home'}
+                    {t('servicePage.ctaSecondary')}
                   </Button>
                 </div>
               </div>
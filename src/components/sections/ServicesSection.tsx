@@ -8,6 +8,7 @@ import { Button } from '../ui/Button';
 import { type ServicesContent } from '../../config/content.schema';
 import { getLocalizedString } from '../../lib/content';
 import { Icon } from '../Icon';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface ServicesSectionProps {
   locale: Locale;
@@ -40,10 +41,10 @@ export function ServicesSection({ locale, content }: ServicesSectionProps) {
 
           {/* Services List */}
           <div className={hasImage ? "max-w-xl" : "max-w-4xl mx-auto"}>
-            <h2 className="mb-4 text-4xl font-bold text-slate-900 font-condensed">
+            <h2 className={`mb-4 ${TYPE_SCALE_CLASSES.h2} font-bold text-slate-900 font-condensed`}>
               {heading}
             </h2>
-            <p className="mb-6 text-slate-600 text-lg">
+            <p className={`mb-6 text-slate-600 ${TYPE_SCALE_CLASSES.lead}`}>
               {description}
             </p>
             {content.dividerLine && <div className="h-1 w-16 bg-primary mb-8" />}
@@ -66,7 +67,7 @@ export function ServicesSection({ locale, content }: ServicesSectionProps) {
                       </div>
                     )}
                     <div className="flex-1">
-                      <h3 className="text-xl font-bold text-slate-900 group-hover:text-primary transition-colors mb-2">
+                      <h3 className={`${TYPE_SCALE_CLASSES.h4} font-bold text-slate-900 group-hover:text-primary transition-colors mb-2`}>
                         {getLocalizedString(service.name, locale)}
                       </h3>
                       <p className="text-slate-600 text-base leading-relaxed">
@@ -80,7 +81,7 @@ export function ServicesSection({ locale, content }: ServicesSectionProps) {
 
             {content.cta && (
               <div className="mt-12 space-y-4">
-                <p className="text-slate-700 text-lg text-center leading-relaxed whitespace-pre-line">
+                <p className={`text-slate-700 ${TYPE_SCALE_CLASSES.lead} text-center whitespace-pre-line`}>
                   {ctaText}
                   {ctaSubtext && (
                     <>
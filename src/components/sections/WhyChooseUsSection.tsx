@@ -4,6 +4,7 @@
 import { type Locale } from '../../lib/i18n/config';
 import { type WhyChooseUsContent } from '../../config/content.schema';
 import { getLocalizedString } from '../../lib/content';
+import { TYPE_SCALE_CLASSES } from '../../lib/theme/typography';
 
 export interface WhyChooseUsSectionProps {
   locale: Locale;
@@ -34,7 +35,7 @@ export function WhyChooseUsSection({ locale, content }: WhyChooseUsSectionProps)
 
           {/* Text Content */}
           <div className="order-1 md:order-2 max-w-xl">
-            <h2 className="mb-4 text-4xl font-bold text-slate-900 font-condensed">
+            <h2 className={`mb-4 ${TYPE_SCALE_CLASSES.h2} font-bold text-slate-900 font-condensed`}>
               {heading}
             </h2>
             {content.dividerLine && <div className="h-1 w-16 bg-primary mb-8" />}
@@ -42,7 +43,7 @@ export function WhyChooseUsSection({ locale, content }: WhyChooseUsSectionProps)
             {content.paragraphs.map((paragraph, index) => (
               <p
                 key={index}
-                className={`text-slate-700 leading-relaxed text-lg ${
+                className={`text-slate-700 ${TYPE_SCALE_CLASSES.lead} ${
                   index < content.paragraphs.length - 1 ? 'mb-4' : ''
                 }`}
                 dangerouslySetInnerHTML={{
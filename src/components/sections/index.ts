@@ -13,3 +13,16 @@ export { ServicePageLayout } from './ServicePageLayout';
 export { LogosSection } from './LogosSection';
 export { TestimonialSection } from './TestimonialSection';
 export { FeatureSection } from './FeatureSection';
+export {
+  SectionRenderer,
+  registerSection,
+  defineSection,
+  getSectionDefinition,
+  getRegisteredSectionTypes,
+} from './SectionRenderer';
+export type {
+  SectionRendererProps,
+  SectionDefinition,
+  RegisteredSectionDefinition,
+  SectionRenderContext,
+} from './SectionRenderer';
@@ -1,8 +1,11 @@
 // ABOUTME: Breadcrumb navigation component for page hierarchy
 // ABOUTME: Provides navigation trail for better UX and SEO
 
+'use client';
+
 import Link from 'next/link';
 import { cn } from '../../lib/utils/cn';
+import { useMessages } from '../MessagesProvider';
 
 export interface BreadcrumbItem {
   label: string;
@@ -15,16 +18,18 @@ export interface BreadcrumbProps {
 }
 
 export function Breadcrumb({ items, className }: BreadcrumbProps) {
+  const t = useMessages();
+
   return (
     <nav
-      aria-label="Breadcrumb"
-      className={cn('flex items-center space-x-2 text-sm', className)}
+      aria-label={t('common.breadcrumb')}
+      className={cn('flex items-center gap-2 text-sm', className)}
     >
       {items.map((item, index) => {
         const isLast = index === items.length - 1;
 
         return (
-          <div key={index} className="flex items-center space-x-2">
+          <div key={index} className="flex items-center gap-2">
             {item.href && !isLast ? (
               <>
                 <Link
@@ -33,7 +38,7 @@ export function Breadcrumb({ items, className }: BreadcrumbProps) {
                 >
                   {item.label}
                 </Link>
-                <span className="opacity-60">/</span>
+                <span className="inline-block opacity-60 rtl:-scale-x-100">/</span>
               </>
             ) : (
               <span
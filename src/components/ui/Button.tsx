@@ -161,14 +161,14 @@ export const Button = forwardRef<HTMLButtonElement, ButtonProps>(
       <>
         {/* Left icon */}
         {showIcon && iconPosition === 'left' && !iconOnly && (
-          <span className="mr-2 inline-flex">{icon}</span>
+          <span className="me-2 inline-flex">{icon}</span>
         )}
 
         {/* Loading spinner */}
         {showLoading && (
           <Icons.Loader
             size={iconSize}
-            className={cn('animate-spin', !iconOnly && (loadingText || children) && 'mr-2')}
+            className={cn('animate-spin', !iconOnly && (loadingText || children) && 'me-2')}
           />
         )}
 
@@ -178,7 +178,7 @@ export const Button = forwardRef<HTMLButtonElement, ButtonProps>(
             initial={{ scale: 0 }}
             animate={{ scale: 1 }}
             transition={{ type: 'spring', stiffness: 500, damping: 15 }}
-            className={cn(!iconOnly && (successText || children) && 'mr-2')}
+            className={cn(!iconOnly && (successText || children) && 'me-2')}
           >
             <Icons.Check size={iconSize} />
           </MotionSpan>
@@ -200,7 +200,7 @@ export const Button = forwardRef<HTMLButtonElement, ButtonProps>(
 
         {/* Right icon */}
         {showIcon && iconPosition === 'right' && !iconOnly && (
-          <span className="ml-2 inline-flex">{icon}</span>
+          <span className="ms-2 inline-flex">{icon}</span>
         )}
 
         {/* Ripple effects */}
@@ -50,7 +50,7 @@ export const Input = forwardRef<HTMLInputElement, InputProps>(
             className="text-sm font-semibold text-slate-700"
           >
             {label}
-            {required && <span className="text-primary ml-1">*</span>}
+            {required && <span className="text-primary ms-1">*</span>}
           </label>
         )}
 
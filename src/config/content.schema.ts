@@ -14,6 +14,11 @@ export interface SiteMetadata {
   siteUrl: string;
   defaultLocale: string;
   supportedLocales: string[];
+  /** Robots directives for every page, e.g. `{ index: false }` on staging */
+  robots?: {
+    index?: boolean;
+    follow?: boolean;
+  };
   contactEmail: string;
   contactPhone: string;
   address: {
@@ -28,12 +33,18 @@ export interface SiteMetadata {
 export interface HeroContent {
   headline: LocalizedString;
   subheadline: LocalizedString;
-  variant?: 'dark' | 'light' | 'split';  // dark: white text on dark gradient, light: colored text on light background, split: text on left with image on right
-  backgroundImage?: string;     // For light variant: shows on right side; for dark: full background; for split: shows on right side
-  backgroundVideo?: string;     // Background video URL (takes precedence over backgroundImage, only for dark variant)
-  overlayGradient?: {           // Overlay gradient colors (only for dark variant)
-    from: string;               // CSS color value (e.g., "rgba(15, 23, 42, 0.7)" or var name like "overlay-dark-from")
-    to: string;                 // CSS color value (e.g., "rgba(15, 23, 42, 0.5)" or var name like "overlay-dark-to")
+  /** dark: white text on dark gradient, light: colored text on light background, split: text on left with image on right */
+  variant?: 'dark' | 'light' | 'split';
+  /** For light variant: shows on right side; for dark: full background; for split: shows on right side */
+  backgroundImage?: string;
+  /** Background video URL (takes precedence over backgroundImage, only for dark variant) */
+  backgroundVideo?: string;
+  /** Overlay gradient colors (only for dark variant) */
+  overlayGradient?: {
+    /** CSS color value (e.g., "rgba(15, 23, 42, 0.7)" or var name like "overlay-dark-from") */
+    from: string;
+    /** CSS color value (e.g., "rgba(15, 23, 42, 0.5)" or var name like "overlay-dark-to") */
+    to: string;
   };
   cta: {
     primary: {
@@ -161,7 +172,38 @@ export interface ServicePageContent {
   };
 }
 
+/**
+ * A section in a declaratively composed page.
+ * `type` selects a component registered with `registerSection()` and
+ * `content` is passed to it as its `content` prop.
+ */
+export interface SectionBlock<TType extends string = string, TContent = unknown> {
+  /** Section type registered with registerSection() (e.g. "hero", "services") */
+  type: TType;
+  /** Stable key and anchor id; defaults to `${type}-${index}` */
+  id?: string;
+  content: TContent;
+  /** Extra props passed through to the component (animations, backgroundColor, ...) */
+  props?: Record<string, unknown>;
+  /** Skip rendering without removing the block */
+  hidden?: boolean;
+}
+
+export type BuiltInSectionBlock =
+  | SectionBlock<'hero', HeroContent>
+  | SectionBlock<'about', AboutContent>
+  | SectionBlock<'whyChooseUs', WhyChooseUsContent>
+  | SectionBlock<'services', ServicesContent>;
+
+export interface PageContent {
+  title?: LocalizedString;
+  description?: LocalizedString;
+  sections: SectionBlock[];
+}
+
 export interface SiteContent {
+  /** Config schema version, used by migrateSiteConfig (1 when absent) */
+  schemaVersion?: number;
   metadata: SiteMetadata;
   hero: HeroContent;
   recognition?: RecognitionContent;
@@ -175,4 +217,9 @@ export interface SiteContent {
   servicePages?: {
     [serviceId: string]: ServicePageContent;
   };
+
+  // Declarative pages rendered with SectionRenderer
+  pages?: {
+    [pageId: string]: PageContent;
+  };
 }
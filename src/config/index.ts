@@ -1,7 +1,14 @@
 // ABOUTME: Configuration schemas export
 // ABOUTME: Central export point for all configuration TypeScript types
 
-export type { ThemeConfig } from './theme.schema';
+export type {
+  ThemeConfig,
+  BrandColors,
+  SlateColors,
+  ColorSchemeConfig,
+  TypographyConfig,
+  FluidTypographyConfig,
+} from './theme.schema';
 
 export type {
   LocalizedString,
@@ -12,6 +19,9 @@ export type {
   WhyChooseUsContent,
   ServicesContent,
   SiteContent,
+  SectionBlock,
+  BuiltInSectionBlock,
+  PageContent,
 } from './content.schema';
 
 export type {
@@ -27,3 +37,46 @@ export type {
 } from './navigation.schema';
 
 export type { ScriptsConfig } from './scripts.schema';
+
+export {
+  validateSiteConfig,
+  assertValidSiteConfig,
+  formatConfigIssues,
+  formatConfigPath,
+  isValidCssColor,
+  createConfigSchemas,
+  getConfigSchemas,
+} from './validation';
+export type {
+  ConfigKind,
+  ConfigIssue,
+  ConfigValidationResult,
+  ConfigSchemas,
+  SiteConfigInput,
+} from './validation';
+
+export {
+  CURRENT_SCHEMA_VERSION,
+  migrateSiteConfig,
+  registerMigration,
+  getMigrations,
+  diffConfig,
+} from './migrations';
+export type {
+  ConfigMigration,
+  MigrationChange,
+  MigrationResult,
+  MigrateOptions,
+} from './migrations';
+
+export {
+  applyConfigOverlay,
+  resolveEnvironmentConfig,
+  formatOverlayChanges,
+} from './overlays';
+export type {
+  ConfigOverlay,
+  EnvironmentConfig,
+  OverlayChange,
+  OverlayResult,
+} from './overlays';
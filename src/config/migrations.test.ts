@@ -0,0 +1,64 @@
+// ABOUTME: Tests for config schema migrations
+// ABOUTME: Validates version upgrades, change reporting and downgrade protection
+
+import { describe, it, expect } from 'vitest'
+import { migrateSiteConfig, diffConfig, CURRENT_SCHEMA_VERSION } from './migrations'
+import { createTestContent, createTestNavigation } from '../test/fixtures'
+
+describe('migrateSiteConfig', () => {
+  it('should upgrade version 1 configs and report the changes', () => {
+    const content = createTestContent()
+    delete content.hero.variant
+    const navigation = createTestNavigation()
+    delete navigation.header.dropdownStyle
+
+    const result = migrateSiteConfig({ content, navigation })
+
+    expect(result.fromVersions).toEqual({ content: 1, navigation: 1 })
+    expect(result.config.content).toMatchObject({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      hero: { variant: 'dark' },
+    })
+    expect(result.config.navigation).toMatchObject({ header: { dropdownStyle: 'mega' } })
+    expect(result.applied).toEqual([expect.objectContaining({ version: 2, configs: ['content', 'navigation'] })])
+    expect(result.changes).toEqual([
+      { config: 'content', version: 2, path: 'hero.variant', kind: 'added', after: 'dark' },
+      { config: 'navigation', version: 2, path: 'header.dropdownStyle', kind: 'added', after: 'mega' },
+    ])
+    expect(content.schemaVersion).toBeUndefined()
+  })
+
+  it('should leave current configs unchanged', () => {
+    const content = { ...createTestContent(), schemaVersion: CURRENT_SCHEMA_VERSION }
+
+    const result = migrateSiteConfig({ content })
+
+    expect(result.config.content).toEqual(content)
+    expect(result.applied).toEqual([])
+  })
+
+  it('should refuse to downgrade', () => {
+    expect(() => migrateSiteConfig({ theme: { schemaVersion: 3 } }, { to: 2 })).toThrow(
+      'Cannot migrate theme from schema version 3 down to 2'
+    )
+  })
+
+  it('should reject invalid target versions and configs', () => {
+    expect(() => migrateSiteConfig({ theme: {} }, { to: NaN })).toThrow(
+      'Invalid target schema version NaN'
+    )
+    expect(() => migrateSiteConfig({ content: [] })).toThrow(
+      'Cannot migrate content: expected a JSON object'
+    )
+  })
+})
+
+describe('diffConfig', () => {
+  it('should list added, removed and changed values with their paths', () => {
+    expect(diffConfig({ a: 1, b: [1, 2] }, { a: 2, b: [1], c: true })).toEqual([
+      { path: 'a', kind: 'changed', before: 1, after: 2 },
+      { path: 'b[1]', kind: 'removed', before: 2 },
+      { path: 'c', kind: 'added', after: true },
+    ])
+  })
+})
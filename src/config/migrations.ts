@@ -0,0 +1,194 @@
+// ABOUTME: Versioned config schema with step-by-step migrations
+// ABOUTME: Upgrades old content, navigation and theme configs and reports every change
+
+import { formatConfigPath, type ConfigKind, type SiteConfigInput } from './validation';
+
+/**
+ * Schema version written by this release of the framework.
+ * Configs without `schemaVersion` are version 1.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+type ConfigObject = Record<string, unknown>;
+
+function isConfigObject(value: unknown): value is ConfigObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export interface ConfigMigration {
+  /** Version this migration upgrades to (from `version - 1`) */
+  version: number;
+  description: string;
+  /** Transforms per config kind; receive a copy and return the migrated config */
+  content?: (config: ConfigObject) => ConfigObject;
+  navigation?: (config: ConfigObject) => ConfigObject;
+  theme?: (config: ConfigObject) => ConfigObject;
+  scripts?: (config: ConfigObject) => ConfigObject;
+}
+
+export interface MigrationChange {
+  config: ConfigKind;
+  /** Version of the migration that made the change */
+  version: number;
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface MigrationResult {
+  /** Migrated configs (only the kinds that were passed in) */
+  config: SiteConfigInput;
+  /** Version each config was at before migrating */
+  fromVersions: Partial<Record<ConfigKind, number>>;
+  toVersion: number;
+  /** Migrations that ran, in order */
+  applied: Array<{ version: number; description: string; configs: ConfigKind[] }>;
+  changes: MigrationChange[];
+}
+
+export interface MigrateOptions {
+  /** Target schema version @default CURRENT_SCHEMA_VERSION */
+  to?: number;
+}
+
+const migrationRegistry = new Map<number, ConfigMigration>();
+
+/**
+ * Register a config migration
+ *
+ * Migrations run in version order. Registering a version that already
+ * exists replaces it.
+ */
+export function registerMigration(migration: ConfigMigration) {
+  migrationRegistry.set(migration.version, migration);
+}
+
+/**
+ * List registered migrations in version order
+ */
+export function getMigrations(): ConfigMigration[] {
+  return Array.from(migrationRegistry.values()).sort((a, b) => a.version - b.version);
+}
+
+// Built-in migrations
+
+registerMigration({
+  version: 2,
+  description:
+    'Record implicit defaults explicitly: header.dropdownStyle ("mega") and hero.variant ("dark")',
+  navigation: (config) => ({
+    ...config,
+    header: isConfigObject(config.header)
+      ? { dropdownStyle: 'mega', ...config.header }
+      : config.header,
+  }),
+  content: (config) => ({
+    ...config,
+    hero: isConfigObject(config.hero) ? { variant: 'dark', ...config.hero } : config.hero,
+  }),
+});
+
+/**
+ * Lists added, removed and changed leaf values between two configs
+ */
+export function diffConfig(
+  before: unknown,
+  after: unknown,
+  path: Array<string | number> = []
+): Array<Pick<MigrationChange, 'path' | 'kind' | 'before' | 'after'>> {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object';
+
+  if (isObject(before) && isObject(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).flatMap((key) => {
+      const segment = Array.isArray(before) ? Number(key) : key;
+      return diffConfig(before[key], after[key], [...path, segment]);
+    });
+  }
+
+  if (before === after) return [];
+  const formatted = formatConfigPath(path);
+  if (before === undefined) return [{ path: formatted, kind: 'added', after }];
+  if (after === undefined) return [{ path: formatted, kind: 'removed', before }];
+  return [{ path: formatted, kind: 'changed', before, after }];
+}
+
+/**
+ * Migrate site configuration to the current schema version
+ *
+ * Each config object carries its own `schemaVersion` (1 when absent).
+ * Registered migrations run one version at a time, and every change they
+ * make is reported so upgrades can be reviewed.
+ *
+ * @example
+ * const { config, changes } = migrateSiteConfig({ content, navigation })
+ * changes.forEach((change) => console.log(`${change.config}.${change.path}: ${change.kind}`))
+ */
+export function migrateSiteConfig(
+  input: SiteConfigInput,
+  options: MigrateOptions = {}
+): MigrationResult {
+  const toVersion = options.to ?? CURRENT_SCHEMA_VERSION;
+  if (!Number.isInteger(toVersion) || toVersion < 1) {
+    throw new Error(`Invalid target schema version ${toVersion}, expected a whole number from 1`);
+  }
+  const migrations = getMigrations();
+  const result: MigrationResult = {
+    config: {},
+    fromVersions: {},
+    toVersion,
+    applied: [],
+    changes: [],
+  };
+
+  for (const kind of ['content', 'navigation', 'theme', 'scripts'] as const) {
+    const original = input[kind];
+    if (original === undefined) continue;
+    if (!isConfigObject(original)) {
+      throw new Error(`Cannot migrate ${kind}: expected a JSON object`);
+    }
+
+    const fromVersion = typeof original.schemaVersion === 'number' ? original.schemaVersion : 1;
+    if (fromVersion > toVersion) {
+      throw new Error(
+        `Cannot migrate ${kind} from schema version ${fromVersion} down to ${toVersion}`
+      );
+    }
+    result.fromVersions[kind] = fromVersion;
+
+    let config: ConfigObject = JSON.parse(JSON.stringify(original));
+    for (const migration of migrations) {
+      if (migration.version <= fromVersion || migration.version > toVersion) continue;
+
+      const transform = migration[kind];
+      if (transform) {
+        const next = transform(JSON.parse(JSON.stringify(config)));
+        result.changes.push(
+          ...diffConfig(config, next)
+            .filter((change) => change.path !== 'schemaVersion')
+            .map((change) => ({ ...change, config: kind, version: migration.version }))
+        );
+        config = next;
+
+        let applied = result.applied.find((entry) => entry.version === migration.version);
+        if (!applied) {
+          applied = { version: migration.version, description: migration.description, configs: [] };
+          result.applied.push(applied);
+        }
+        applied.configs.push(kind);
+      }
+    }
+
+    if (fromVersion !== toVersion) {
+      const rest = { ...config };
+      delete rest.schemaVersion;
+      config = { schemaVersion: toVersion, ...rest };
+    }
+    result.config[kind] = config;
+  }
+
+  result.applied.sort((a, b) => a.version - b.version);
+  return result;
+}
@@ -45,7 +45,10 @@ export interface HeaderConfig {
   logo: LogoConfig;
   mainNav: NavItem[];
   utilityNav: NavLink[];
-  dropdownStyle?: 'mega' | 'simple'; // mega: full-width dropdown, simple: compact card dropdown
+  /** mega: full-width dropdown, simple: compact card dropdown */
+  dropdownStyle?: 'mega' | 'simple';
+  /** link: links to the other locales, dropdown: menu of every locale, buttons: locale codes */
+  languageSwitcher?: 'link' | 'dropdown' | 'buttons';
 }
 
 export interface FooterSection {
@@ -81,6 +84,8 @@ export interface FooterConfig {
 }
 
 export interface NavigationConfig {
+  /** Config schema version, used by migrateSiteConfig (1 when absent) */
+  schemaVersion?: number;
   header: HeaderConfig;
   footer: FooterConfig;
 }
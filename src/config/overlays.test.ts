@@ -0,0 +1,81 @@
+// ABOUTME: Tests for environment-specific config overlays
+// ABOUTME: Validates deep merging, id-keyed array merging, key removal and change reporting
+
+import { describe, it, expect } from 'vitest'
+import { applyConfigOverlay, resolveEnvironmentConfig } from './overlays'
+import { createTestContent, createTestNavigation } from '../test/fixtures'
+import type { ScriptsConfig } from './scripts.schema'
+
+describe('applyConfigOverlay', () => {
+  it('should deep-merge objects and report changed keys', () => {
+    const base = createTestContent()
+
+    const { config, changes } = applyConfigOverlay(base, {
+      metadata: { siteUrl: 'https://staging.example.com', robots: { index: false } },
+    })
+
+    expect(config.metadata.siteUrl).toBe('https://staging.example.com')
+    expect(config.metadata.siteName).toBe(base.metadata.siteName)
+    expect(base.metadata.siteUrl).toBe('https://example.com')
+    expect(changes).toEqual([
+      {
+        path: 'metadata.siteUrl',
+        kind: 'changed',
+        before: 'https://example.com',
+        after: 'https://staging.example.com',
+      },
+      { path: 'metadata.robots', kind: 'added', after: { index: false } },
+    ])
+  })
+
+  it('should merge arrays keyed by id', () => {
+    const base = createTestNavigation()
+
+    const { config, changes } = applyConfigOverlay(base, {
+      header: {
+        mainNav: [
+          { id: 'about', href: '/about-us' },
+          { id: 'services', $remove: true },
+          { id: 'careers', label: { en: 'Careers', fr: 'Carrières' }, href: '/careers' },
+        ],
+      },
+    })
+
+    expect(config.header.mainNav.map((item) => item.id)).toEqual(['about', 'careers'])
+    expect(config.header.mainNav[0]).toMatchObject({ label: { en: 'About' }, href: '/about-us' })
+    expect(changes.map((change) => `${change.kind} ${change.path}`)).toEqual([
+      'changed header.mainNav[id=about].href',
+      'removed header.mainNav[id=services]',
+      'added header.mainNav[id=careers]',
+    ])
+  })
+
+  it('should replace other arrays and remove keys set to null', () => {
+    const base: ScriptsConfig = {
+      head: ['<script>gtm()</script>'],
+      bodyEnd: ['<script>chat()</script>'],
+    }
+
+    const { config } = applyConfigOverlay(base, { head: [], bodyEnd: null })
+
+    expect(config).toEqual({ head: [] })
+  })
+})
+
+describe('resolveEnvironmentConfig', () => {
+  const scripts = {
+    base: { head: ['<script>gtm()</script>'] } as ScriptsConfig,
+    overrides: { staging: { head: [] } },
+  }
+
+  it('should apply the overlay for the environment', () => {
+    expect(resolveEnvironmentConfig(scripts, 'staging')).toMatchObject({
+      config: { head: [] },
+      environment: 'staging',
+    })
+  })
+
+  it('should return the base config for environments without an overlay', () => {
+    expect(resolveEnvironmentConfig(scripts, 'production').config).toEqual(scripts.base)
+  })
+})
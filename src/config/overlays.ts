@@ -0,0 +1,190 @@
+// ABOUTME: Environment-specific config overlays (base config + per-environment overrides)
+// ABOUTME: Deep-merges overrides, merges id-keyed arrays by id and reports every changed key
+
+/**
+ * Partial config accepted as an overlay
+ *
+ * Objects merge recursively. Arrays of items with an `id` merge by id:
+ * items list only the fields they change, and `{ id, $remove: true }`
+ * removes an item. Other arrays replace the base array. `null` removes a key.
+ */
+export type ConfigOverlay<T> = T extends Array<infer Item>
+  ? Item extends { id: string }
+    ? Array<ConfigOverlay<Item> & { id: string; $remove?: boolean }>
+    : T
+  : T extends object
+    ? { [K in keyof T]?: ConfigOverlay<T[K]> | null }
+    : T;
+
+export interface EnvironmentConfig<T> {
+  base: T;
+  /** Overlays by environment name, e.g. `staging`, `preview` */
+  overrides?: Record<string, ConfigOverlay<T>>;
+}
+
+export interface OverlayChange {
+  /** Path of the changed key; id-keyed items are shown as `items[id=tax]` */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface OverlayResult<T> {
+  config: T;
+  /** Environment the overlay was selected for (undefined for applyConfigOverlay) */
+  environment?: string;
+  changes: OverlayChange[];
+}
+
+type Segment = string | number | { id: string };
+
+function formatOverlayPath(path: Segment[]): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    if (typeof segment === 'object') return `${result}[id=${segment.id}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isKeyedArray(value: unknown): value is Array<Record<string, unknown> & { id: string }> {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => isPlainObject(item) && typeof item.id === 'string')
+  );
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function mergeValue(
+  base: unknown,
+  overlay: unknown,
+  path: Segment[],
+  changes: OverlayChange[]
+): unknown {
+  if (isPlainObject(base) && isPlainObject(overlay)) {
+    const result: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(overlay)) {
+      if (value === undefined) continue;
+      if (value === null) {
+        if (key in result) {
+          changes.push({
+            path: formatOverlayPath([...path, key]),
+            kind: 'removed',
+            before: result[key],
+          });
+          delete result[key];
+        }
+        continue;
+      }
+      result[key] = mergeValue(result[key], value, [...path, key], changes);
+    }
+    return result;
+  }
+
+  if (Array.isArray(base) && isKeyedArray(overlay) && (base.length === 0 || isKeyedArray(base))) {
+    const result = base.map((item) => ({ ...item })) as Array<Record<string, unknown>>;
+    for (const { $remove, ...item } of overlay) {
+      const index = result.findIndex((candidate) => candidate.id === item.id);
+      const itemPath = [...path, { id: item.id }];
+
+      if ($remove) {
+        if (index !== -1) {
+          changes.push({
+            path: formatOverlayPath(itemPath),
+            kind: 'removed',
+            before: result[index],
+          });
+          result.splice(index, 1);
+        }
+      } else if (index === -1) {
+        changes.push({ path: formatOverlayPath(itemPath), kind: 'added', after: item });
+        result.push(clone(item));
+      } else {
+        const merged = mergeValue(result[index], item, itemPath, changes);
+        result[index] = merged as Record<string, unknown>;
+      }
+    }
+    return result;
+  }
+
+  if (!isEqual(base, overlay)) {
+    changes.push(
+      base === undefined
+        ? { path: formatOverlayPath(path), kind: 'added', after: overlay }
+        : { path: formatOverlayPath(path), kind: 'changed', before: base, after: overlay }
+    );
+  }
+  return clone(overlay);
+}
+
+/**
+ * Apply an overlay to a base config
+ *
+ * The base config is not modified.
+ *
+ * @example
+ * const { config, changes } = applyConfigOverlay(content, {
+ *   metadata: { siteUrl: 'https://staging.example.com', robots: { index: false } },
+ *   services: {
+ *     items: [{ id: 'tax', href: '/services/tax-preview' }, { id: 'legacy', $remove: true }],
+ *   },
+ * })
+ */
+export function applyConfigOverlay<T>(base: T, overlay: ConfigOverlay<T>): OverlayResult<T> {
+  const changes: OverlayChange[] = [];
+  const config = mergeValue(clone(base), overlay, [], changes) as T;
+  return { config, changes };
+}
+
+function getDefaultEnvironment(): string | undefined {
+  if (typeof process === 'undefined') return undefined;
+  return process.env.SITE_ENV ?? process.env.NODE_ENV;
+}
+
+/**
+ * Resolve a config for an environment
+ *
+ * Environments without an overlay get the base config unchanged.
+ * The environment defaults to `SITE_ENV`, then `NODE_ENV`.
+ *
+ * @example
+ * export const scripts = resolveEnvironmentConfig({
+ *   base: { head: [productionGtm] },
+ *   overrides: { staging: { head: [] } },
+ * }).config
+ */
+export function resolveEnvironmentConfig<T>(
+  { base, overrides = {} }: EnvironmentConfig<T>,
+  environment: string | undefined = getDefaultEnvironment()
+): OverlayResult<T> {
+  const overlay = environment ? overrides[environment] : undefined;
+  if (!overlay) {
+    return { config: clone(base), environment, changes: [] };
+  }
+  return { ...applyConfigOverlay(base, overlay), environment };
+}
+
+/**
+ * Format overlay changes as readable lines
+ */
+export function formatOverlayChanges(changes: OverlayChange[]): string {
+  return changes
+    .map((change) => {
+      const symbol = { added: '+', removed: '-', changed: '~' }[change.kind];
+      const value = change.kind === 'removed' ? change.before : change.after;
+      return `  ${symbol} ${change.path}: ${JSON.stringify(value)}`;
+    })
+    .join('\n');
+}
@@ -2,6 +2,9 @@
 // ABOUTME: Supports head scripts (analytics, fonts) and body end scripts (widgets, tracking)
 
 export interface ScriptsConfig {
+  /** Config schema version, used by migrateSiteConfig (1 when absent) */
+  schemaVersion?: number;
+
   /**
    * Scripts to inject in the <head> section
    * Use for: Analytics, fonts, meta tags, etc.
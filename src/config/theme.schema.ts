@@ -1,21 +1,12 @@
 // ABOUTME: Theme configuration schema for design system abstraction
-// ABOUTME: Defines the structure for brand colors, fonts, and design tokens
+// ABOUTME: Defines the structure for brand colors, color schemes, fonts, and design tokens
 
 export interface ThemeConfig {
+  /** Config schema version, used by migrateSiteConfig (1 when absent) */
+  schemaVersion?: number;
   brand: {
     name: string;
-    colors: {
-      primary: string;
-      primaryHover: string;
-      primaryLight: string;
-      primaryDark: string;
-      primaryGradientStart: string;
-      primaryGradientEnd: string;
-      heroGradientStart: string;
-      heroGradientEnd: string;
-      footerGradientStart: string;
-      footerGradientEnd: string;
-    };
+    colors: BrandColors;
     fonts: {
       heading: {
         family: string;
@@ -34,22 +25,94 @@ export interface ThemeConfig {
     shadows: 'flat' | 'subtle' | 'prominent';
     spacing: 'compact' | 'comfortable' | 'spacious';
   };
+  /** Type scale used by the section components */
+  typography?: TypographyConfig;
   animations?: {
     speed?: 'slow' | 'normal' | 'fast';
     reduceMotion?: boolean;
   };
   colors: {
-    slate: {
-      50: string;
-      100: string;
-      200: string;
-      300: string;
-      400: string;
-      500: string;
-      600: string;
-      700: string;
-      800: string;
-      900: string;
-    };
+    slate: SlateColors;
+    /** Page background of the base (light) palette @default '#ffffff' */
+    background?: string;
+    /** Body text color of the base (light) palette @default colors.slate[900] */
+    foreground?: string;
   };
+  /**
+   * Named color schemes such as 'dark' or 'high-contrast'. Each overrides part of
+   * the base palette, which doubles as the 'light' scheme.
+   */
+  colorSchemes?: Record<string, ColorSchemeConfig>;
+}
+
+export interface BrandColors {
+  primary: string;
+  primaryHover: string;
+  primaryLight: string;
+  primaryDark: string;
+  primaryGradientStart: string;
+  primaryGradientEnd: string;
+  heroGradientStart: string;
+  heroGradientEnd: string;
+  footerGradientStart: string;
+  footerGradientEnd: string;
+}
+
+export interface SlateColors {
+  50: string;
+  100: string;
+  200: string;
+  300: string;
+  400: string;
+  500: string;
+  600: string;
+  700: string;
+  800: string;
+  900: string;
+}
+
+export interface TypographyConfig {
+  /** Body font size in px @default 16 */
+  baseSize?: number;
+  /** Ratio between steps of the scale, e.g. 1.2 (minor third) or 1.25 (major third) @default 1.333 */
+  scaleRatio?: number;
+  /** Grow sizes with the viewport using `clamp()`; `false` for fixed sizes @default true */
+  fluid?: boolean | FluidTypographyConfig;
+  /** Unitless line heights @default { body: 1.625, heading: 1.25 } */
+  lineHeight?: { body?: number; heading?: number };
+  /** CSS letter spacing, e.g. '-0.02em' @default 'normal' */
+  letterSpacing?: { body?: string; heading?: string };
+}
+
+export interface FluidTypographyConfig {
+  /** Viewport width in px below which sizes stop shrinking @default 375 */
+  minViewport?: number;
+  /** Viewport width in px at which sizes reach `baseSize` and `scaleRatio` @default 1280 */
+  maxViewport?: number;
+  /** Body font size in px at `minViewport` @default baseSize */
+  minBaseSize?: number;
+  /** Scale ratio at `minViewport` @default 1.2 */
+  minScaleRatio?: number;
+}
+
+export interface ColorSchemeConfig {
+  /**
+   * Native color scheme for form controls and scrollbars
+   * @default 'dark' for the scheme named 'dark', otherwise 'light'
+   */
+  colorScheme?: 'light' | 'dark';
+  /**
+   * Brand colors that differ from the base palette; built-in components
+   * draw them on white surfaces
+   */
+  brand?: Partial<BrandColors>;
+  /**
+   * Slate shades that differ from the base palette; built-in components draw
+   * slate text on white surfaces, so keep the dark shades dark
+   */
+  slate?: Partial<SlateColors>;
+  /** Page background */
+  background?: string;
+  /** Body text color */
+  foreground?: string;
 }
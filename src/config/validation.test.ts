@@ -0,0 +1,117 @@
+// ABOUTME: Tests for runtime site configuration validation
+// ABOUTME: Validates error paths, colour warnings and unknown-key detection
+
+import { describe, it, expect } from 'vitest'
+import { validateSiteConfig, assertValidSiteConfig, isValidCssColor } from './validation'
+import { createTestContent, createTestNavigation, createTestTheme } from '../test/fixtures'
+import { type SiteContent } from './content.schema'
+import { type NavDropdown, type NavDropdownItem } from './navigation.schema'
+
+describe('validateSiteConfig', () => {
+  it('should accept valid configuration', () => {
+    const result = validateSiteConfig({
+      content: createTestContent(),
+      navigation: createTestNavigation(),
+      theme: createTestTheme(),
+    })
+
+    expect(result.valid).toBe(true)
+    expect(result.errors).toEqual([])
+    expect(result.warnings).toEqual([])
+  })
+
+  it('should report missing fields with their path', () => {
+    const content = createTestContent()
+    delete (content.services.items[0] as Partial<SiteContent['services']['items'][number]>).href
+
+    const result = validateSiteConfig({ content })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toContainEqual({
+      config: 'content',
+      path: 'services.items[0].href',
+      message: 'missing',
+      severity: 'error',
+    })
+  })
+
+  it('should report invalid enum values', () => {
+    const theme = createTestTheme()
+
+    const result = validateSiteConfig({
+      theme: { ...theme, design: { ...theme.design, borderRadius: 'round' } },
+    })
+
+    expect(result.errors[0].path).toBe('design.borderRadius')
+    expect(result.errors[0].message).toContain("'rounded'")
+  })
+
+  it('should validate dropdowns and links in the main navigation', () => {
+    const navigation = createTestNavigation()
+    const dropdown = navigation.header.mainNav[1] as NavDropdown
+    delete (dropdown.children[0] as Partial<NavDropdownItem>).label
+
+    const result = validateSiteConfig({ navigation })
+
+    expect(result.errors.map((issue) => issue.path)).toEqual([
+      'header.mainNav[1].children[0].label',
+    ])
+  })
+
+  it('should validate the content of built-in page sections', () => {
+    const content = createTestContent()
+    content.pages = {
+      home: {
+        sections: [
+          { type: 'hero', content: { ...content.hero, headline: undefined } },
+          { type: 'custom', content: { anything: true } },
+        ],
+      },
+    }
+
+    const result = validateSiteConfig({ content })
+
+    expect(result.errors.map((issue) => issue.path)).toEqual([
+      'pages.home.sections[0].content.headline',
+    ])
+  })
+
+  it('should warn about invalid colours, relative links and unknown keys', () => {
+    const theme = createTestTheme()
+    theme.brand.colors.primary = 'blu'
+    theme.colorSchemes = { dark: { brand: { primary: '#60a5fa' }, background: '0f172a' } }
+    const content = createTestContent()
+    content.services.items[0].href = 'services/tax'
+    Object.assign(content.hero, { subHeadline: { en: 'Typo' } })
+
+    const result = validateSiteConfig({ theme, content })
+
+    expect(result.valid).toBe(true)
+    expect(result.warnings.map((issue) => issue.path)).toEqual(
+      expect.arrayContaining([
+        'brand.colors.primary',
+        'colorSchemes.dark.background',
+        'services.items[0].href',
+        'hero.subHeadline',
+      ])
+    )
+  })
+
+  it('should throw from assertValidSiteConfig when invalid', () => {
+    expect(() => assertValidSiteConfig({ theme: {} })).toThrow('[theme] brand: missing')
+  })
+})
+
+describe('isValidCssColor', () => {
+  it('should accept common color syntaxes', () => {
+    for (const color of ['#fff', '#0066CC', 'rgb(0 0 0 / 0.5)', 'oklch(0.6 0.2 250)', 'var(--x)', 'white']) {
+      expect(isValidCssColor(color)).toBe(true)
+    }
+  })
+
+  it('should reject malformed colors', () => {
+    for (const color of ['#ggg', '0066cc', 'blu', '']) {
+      expect(isValidCssColor(color)).toBe(false)
+    }
+  })
+})
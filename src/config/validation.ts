@@ -0,0 +1,703 @@
+// ABOUTME: Runtime validation for site content, navigation, theme and scripts configuration
+// ABOUTME: Zod schemas mirroring the config interfaces, with path-addressed errors and warnings
+
+import { z, type z as Zod } from 'zod';
+
+type ZodNamespace = typeof Zod;
+
+export type ConfigKind = 'content' | 'navigation' | 'theme' | 'scripts';
+
+export interface ConfigIssue {
+  /** Which configuration object the issue belongs to */
+  config: ConfigKind;
+  /** Object path of the offending value, e.g. `services.items[2].href` */
+  path: string;
+  /** Short human-readable description, e.g. `missing` */
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ConfigValidationResult {
+  /** True when there are no errors (warnings are allowed) */
+  valid: boolean;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+export type ConfigSchemas = Record<ConfigKind, Zod.ZodTypeAny>;
+
+export interface SiteConfigInput {
+  content?: unknown;
+  navigation?: unknown;
+  theme?: unknown;
+  scripts?: unknown;
+}
+
+/**
+ * Builds the Zod schemas for every configuration type.
+ * Objects are strict so that misspelled keys surface (as warnings); the
+ * top-level SiteContent is passthrough because apps add their own sections.
+ */
+export function createConfigSchemas(z: ZodNamespace): ConfigSchemas {
+  const localizedString = z.record(z.string());
+  const schemaVersion = z.number().int().positive().optional();
+
+  const image = z
+    .object({
+      src: z.string(),
+      alt: localizedString,
+      placeholder: z.string().optional(),
+    })
+    .strict();
+
+  const link = z.object({ text: localizedString, href: z.string() }).strict();
+
+  const address = z
+    .object({
+      street: z.string(),
+      city: z.string(),
+      province: z.string(),
+      postalCode: z.string(),
+      country: z.string(),
+    })
+    .strict();
+
+  const siteMetadata = z
+    .object({
+      siteName: z.string(),
+      siteUrl: z.string(),
+      defaultLocale: z.string(),
+      supportedLocales: z.array(z.string()).min(1),
+      robots: z
+        .object({ index: z.boolean().optional(), follow: z.boolean().optional() })
+        .strict()
+        .optional(),
+      contactEmail: z.string(),
+      contactPhone: z.string(),
+      address,
+    })
+    .strict();
+
+  const hero = z
+    .object({
+      headline: localizedString,
+      subheadline: localizedString,
+      variant: z.enum(['dark', 'light', 'split']).optional(),
+      backgroundImage: z.string().optional(),
+      backgroundVideo: z.string().optional(),
+      overlayGradient: z.object({ from: z.string(), to: z.string() }).strict().optional(),
+      cta: z.object({ primary: link, secondary: link.optional() }).strict(),
+      trustLine: localizedString.optional(),
+    })
+    .strict();
+
+  const recognition = z.object({ paragraphs: z.array(localizedString) }).strict();
+
+  const paragraphsBlock = z
+    .object({
+      heading: localizedString,
+      dividerLine: z.boolean().optional(),
+      paragraphs: z.array(localizedString),
+      image: image.optional(),
+    })
+    .strict();
+
+  const serviceItem = z
+    .object({
+      id: z.string(),
+      name: localizedString,
+      description: localizedString,
+      href: z.string(),
+      icon: z.string().optional(),
+    })
+    .strict();
+
+  const services = z
+    .object({
+      heading: localizedString,
+      description: localizedString,
+      dividerLine: z.boolean().optional(),
+      items: z.array(serviceItem),
+      image: image.optional(),
+      cta: z
+        .object({
+          text: localizedString,
+          subtext: localizedString,
+          button: link,
+        })
+        .strict()
+        .optional(),
+    })
+    .strict();
+
+  const contact = z
+    .object({
+      heading: localizedString,
+      description: localizedString.optional(),
+      form: z
+        .object({
+          namePlaceholder: localizedString,
+          emailPlaceholder: localizedString,
+          phonePlaceholder: localizedString,
+          messagePlaceholder: localizedString,
+          submitButton: localizedString,
+          successMessage: localizedString,
+          errorMessage: localizedString,
+        })
+        .strict(),
+      info: z
+        .object({
+          addressLabel: localizedString,
+          phoneLabel: localizedString,
+          emailLabel: localizedString,
+          hoursLabel: localizedString,
+          hours: localizedString,
+        })
+        .strict(),
+    })
+    .strict();
+
+  const teamMember = z
+    .object({
+      name: z.string(),
+      title: localizedString,
+      bio: localizedString,
+      education: localizedString,
+      linkedin: z.string().optional(),
+      image: z.string().optional(),
+    })
+    .strict();
+
+  const team = z
+    .object({
+      heading: localizedString,
+      members: z.array(teamMember),
+      history: z
+        .object({ heading: localizedString, paragraphs: z.array(localizedString) })
+        .strict(),
+    })
+    .strict();
+
+  const servicePage = z
+    .object({
+      title: localizedString,
+      description: localizedString,
+      lead: localizedString,
+      sections: z.array(
+        z
+          .object({
+            heading: localizedString,
+            subsections: z.array(
+              z.object({ title: localizedString, content: localizedString }).strict()
+            ),
+          })
+          .strict()
+      ),
+      benefits: z
+        .object({
+          heading: localizedString,
+          items: z.array(
+            z.object({ title: localizedString, description: localizedString }).strict()
+          ),
+        })
+        .strict()
+        .optional(),
+    })
+    .strict();
+
+  // Built-in section types get their content checked; custom types are opaque
+  const sectionContent: Record<string, Zod.ZodTypeAny> = {
+    hero,
+    about: paragraphsBlock,
+    whyChooseUs: paragraphsBlock,
+    services,
+  };
+
+  const sectionBlock = z
+    .object({
+      type: z.string().min(1),
+      id: z.string().optional(),
+      content: z.unknown(),
+      props: z.record(z.unknown()).optional(),
+      hidden: z.boolean().optional(),
+    })
+    .strict()
+    .superRefine((block, ctx) => {
+      const schema = sectionContent[block.type];
+      if (!schema) return;
+      const parsed = schema.safeParse(block.content);
+      if (!parsed.success) {
+        parsed.error.issues.forEach((issue) =>
+          ctx.addIssue({ ...issue, path: ['content', ...issue.path] })
+        );
+      }
+    });
+
+  const page = z
+    .object({
+      title: localizedString.optional(),
+      description: localizedString.optional(),
+      sections: z.array(sectionBlock),
+    })
+    .strict();
+
+  const siteContent = z
+    .object({
+      schemaVersion,
+      metadata: siteMetadata,
+      hero,
+      recognition: recognition.optional(),
+      about: paragraphsBlock,
+      whyChooseUs: paragraphsBlock,
+      services,
+      contact: contact.optional(),
+      team: team.optional(),
+      servicePages: z.record(servicePage).optional(),
+      pages: z.record(page).optional(),
+    })
+    .passthrough();
+
+  const navLink = z
+    .object({
+      id: z.string(),
+      label: localizedString,
+      href: z.union([z.string(), localizedString]),
+      external: z.boolean().optional(),
+      icon: z.string().optional(),
+    })
+    .strict();
+
+  const navDropdownItem = navLink.extend({ description: localizedString.optional() }).strict();
+
+  const navDropdown = z
+    .object({
+      id: z.string(),
+      label: localizedString,
+      type: z.literal('dropdown'),
+      children: z.array(navDropdownItem),
+      cta: z
+        .object({
+          label: localizedString,
+          href: z.string(),
+          external: z.boolean().optional(),
+        })
+        .strict()
+        .optional(),
+    })
+    .strict();
+
+  // Dropdowns are recognised by their `type` so link errors stay readable
+  const navItem = z.any().superRefine((value, ctx) => {
+    const schema = value && typeof value === 'object' && 'type' in value ? navDropdown : navLink;
+    const parsed = schema.safeParse(value);
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => ctx.addIssue(issue));
+    }
+  });
+
+  const logo = z
+    .object({
+      text: localizedString.optional(),
+      image: z.string().optional(),
+      imageAlt: localizedString.optional(),
+      href: z.string(),
+      width: z.number().optional(),
+      height: z.number().optional(),
+      displayHeight: z.number().optional(),
+    })
+    .strict();
+
+  const navigation = z
+    .object({
+      schemaVersion,
+      header: z
+        .object({
+          logo,
+          mainNav: z.array(navItem),
+          utilityNav: z.array(navLink),
+          dropdownStyle: z.enum(['mega', 'simple']).optional(),
+          languageSwitcher: z.enum(['link', 'dropdown', 'buttons']).optional(),
+        })
+        .strict(),
+      footer: z
+        .object({
+          sections: z
+            .array(
+              z.object({ heading: localizedString.optional(), links: z.array(navLink) }).strict()
+            )
+            .optional(),
+          copyright: localizedString,
+          tagline: localizedString.optional(),
+          social: z
+            .array(
+              z
+                .object({
+                  platform: z.string(),
+                  url: z.string(),
+                  icon: z.string(),
+                  label: localizedString,
+                })
+                .strict()
+            )
+            .optional(),
+          poweredBy: z
+            .object({
+              text: localizedString,
+              logo: z
+                .object({
+                  src: z.string(),
+                  alt: z.string(),
+                  width: z.number(),
+                  height: z.number(),
+                })
+                .strict()
+                .optional(),
+              href: z.string().optional(),
+            })
+            .strict()
+            .optional(),
+          backgroundColor: z.string().optional(),
+        })
+        .strict(),
+    })
+    .strict();
+
+  const font = z
+    .object({
+      family: z.string().min(1),
+      weights: z.array(z.number().int().min(1).max(1000)),
+      fallback: z.string(),
+    })
+    .strict();
+
+  const brandColors = z
+    .object({
+      primary: z.string(),
+      primaryHover: z.string(),
+      primaryLight: z.string(),
+      primaryDark: z.string(),
+      primaryGradientStart: z.string(),
+      primaryGradientEnd: z.string(),
+      heroGradientStart: z.string(),
+      heroGradientEnd: z.string(),
+      footerGradientStart: z.string(),
+      footerGradientEnd: z.string(),
+    })
+    .strict();
+
+  const slateColors = z
+    .object({
+      50: z.string(),
+      100: z.string(),
+      200: z.string(),
+      300: z.string(),
+      400: z.string(),
+      500: z.string(),
+      600: z.string(),
+      700: z.string(),
+      800: z.string(),
+      900: z.string(),
+    })
+    .strict();
+
+  const colorScheme = z
+    .object({
+      colorScheme: z.enum(['light', 'dark']).optional(),
+      brand: brandColors.partial().optional(),
+      slate: slateColors.partial().optional(),
+      background: z.string().optional(),
+      foreground: z.string().optional(),
+    })
+    .strict();
+
+  const typography = z
+    .object({
+      baseSize: z.number().positive().optional(),
+      scaleRatio: z.number().min(1).optional(),
+      fluid: z
+        .union([
+          z.boolean(),
+          z
+            .object({
+              minViewport: z.number().positive().optional(),
+              maxViewport: z.number().positive().optional(),
+              minBaseSize: z.number().positive().optional(),
+              minScaleRatio: z.number().min(1).optional(),
+            })
+            .strict(),
+        ])
+        .optional(),
+      lineHeight: z
+        .object({
+          body: z.number().positive().optional(),
+          heading: z.number().positive().optional(),
+        })
+        .strict()
+        .optional(),
+      letterSpacing: z
+        .object({ body: z.string().optional(), heading: z.string().optional() })
+        .strict()
+        .optional(),
+    })
+    .strict();
+
+  const theme = z
+    .object({
+      schemaVersion,
+      brand: z
+        .object({
+          name: z.string(),
+          colors: brandColors,
+          fonts: z.object({ heading: font, body: font }).strict(),
+        })
+        .strict(),
+      design: z
+        .object({
+          borderRadius: z.enum(['sharp', 'rounded', 'pill']),
+          shadows: z.enum(['flat', 'subtle', 'prominent']),
+          spacing: z.enum(['compact', 'comfortable', 'spacious']),
+        })
+        .strict(),
+      typography: typography.optional(),
+      animations: z
+        .object({
+          speed: z.enum(['slow', 'normal', 'fast']).optional(),
+          reduceMotion: z.boolean().optional(),
+        })
+        .strict()
+        .optional(),
+      colors: z
+        .object({
+          slate: slateColors,
+          background: z.string().optional(),
+          foreground: z.string().optional(),
+        })
+        .strict(),
+      colorSchemes: z.record(z.string(), colorScheme).optional(),
+    })
+    .strict();
+
+  const scripts = z
+    .object({
+      schemaVersion,
+      head: z.array(z.string()).optional(),
+      bodyEnd: z.array(z.string()).optional(),
+    })
+    .strict();
+
+  return { content: siteContent, navigation, theme, scripts };
+}
+
+let cachedSchemas: ConfigSchemas | null = null;
+
+/**
+ * Get the config schemas, building them on first use
+ */
+export function getConfigSchemas(): ConfigSchemas {
+  if (!cachedSchemas) {
+    cachedSchemas = createConfigSchemas(z);
+  }
+  return cachedSchemas;
+}
+
+/**
+ * Formats an object path as `services.items[2].href`
+ */
+export function formatConfigPath(path: ReadonlyArray<string | number>): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+}
+
+function describeIssue(issue: Zod.ZodIssue): string {
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.received === 'undefined'
+        ? 'missing'
+        : `expected ${issue.expected}, received ${issue.received}`;
+    case 'invalid_enum_value':
+      return `expected one of ${issue.options.map((option) => `'${String(option)}'`).join(' | ')}`;
+    case 'invalid_literal':
+      return `expected '${String(issue.expected)}'`;
+    default:
+      return issue.message;
+  }
+}
+
+// CSS named colors (CSS Color Module Level 4) plus keywords
+const NAMED_COLORS = new Set(
+  (
+    'transparent currentcolor inherit initial unset aliceblue antiquewhite aqua aquamarine azure ' +
+    'beige bisque black blanchedalmond blue blueviolet brown burlywood cadetblue chartreuse ' +
+    'chocolate coral cornflowerblue cornsilk crimson cyan darkblue darkcyan darkgoldenrod darkgray ' +
+    'darkgreen darkgrey darkkhaki darkmagenta darkolivegreen darkorange darkorchid darkred ' +
+    'darksalmon darkseagreen darkslateblue darkslategray darkslategrey darkturquoise darkviolet ' +
+    'deeppink deepskyblue dimgray dimgrey dodgerblue firebrick floralwhite forestgreen fuchsia ' +
+    'gainsboro ghostwhite gold goldenrod gray green greenyellow grey honeydew hotpink indianred ' +
+    'indigo ivory khaki lavender lavenderblush lawngreen lemonchiffon lightblue lightcoral ' +
+    'lightcyan lightgoldenrodyellow lightgray lightgreen lightgrey lightpink lightsalmon ' +
+    'lightseagreen lightskyblue lightslategray lightslategrey lightsteelblue lightyellow lime ' +
+    'limegreen linen magenta maroon mediumaquamarine mediumblue mediumorchid mediumpurple ' +
+    'mediumseagreen mediumslateblue mediumspringgreen mediumturquoise mediumvioletred ' +
+    'midnightblue mintcream mistyrose moccasin navajowhite navy oldlace olive olivedrab orange ' +
+    'orangered orchid palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff ' +
+    'peru pink plum powderblue purple rebeccapurple red rosybrown royalblue saddlebrown salmon ' +
+    'sandybrown seagreen seashell sienna silver skyblue slateblue slategray slategrey snow ' +
+    'springgreen steelblue tan teal thistle tomato turquoise violet wheat white whitesmoke yellow ' +
+    'yellowgreen'
+  ).split(' ')
+);
+
+/**
+ * Checks whether a value is a CSS color the browser will accept:
+ * hex, functional notation (rgb, hsl, oklch, ...), var() or a named color
+ */
+export function isValidCssColor(value: string): boolean {
+  const color = value.trim().toLowerCase();
+  if (/^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(color)) return true;
+  if (/^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix)\(.+\)$/.test(color)) return true;
+  if (/^var\(--[\w-]+(,.+)?\)$/.test(color)) return true;
+  return NAMED_COLORS.has(color);
+}
+
+const LINK_PATTERN = /^(\/|#|https?:\/\/|mailto:|tel:)/;
+
+function collectWarnings(kind: ConfigKind, config: unknown): ConfigIssue[] {
+  const warnings: ConfigIssue[] = [];
+  const warn = (path: Array<string | number>, message: string) =>
+    warnings.push({ config: kind, path: formatConfigPath(path), message, severity: 'warning' });
+
+  if (kind === 'theme') {
+    type ColorGroup = Record<string, unknown> | undefined;
+    type Palette = { slate?: ColorGroup; background?: unknown; foreground?: unknown };
+    const theme = config as {
+      brand?: { colors?: ColorGroup };
+      colors?: Palette;
+      colorSchemes?: Record<string, (Palette & { brand?: ColorGroup }) | undefined>;
+    };
+    const groups: Array<[Array<string>, ColorGroup]> = [
+      [['brand', 'colors'], theme.brand?.colors],
+      [['colors', 'slate'], theme.colors?.slate],
+      [['colors'], { background: theme.colors?.background, foreground: theme.colors?.foreground }],
+    ];
+    for (const [name, scheme] of Object.entries(theme.colorSchemes ?? {})) {
+      groups.push(
+        [['colorSchemes', name, 'brand'], scheme?.brand],
+        [['colorSchemes', name, 'slate'], scheme?.slate],
+        [['colorSchemes', name], { background: scheme?.background, foreground: scheme?.foreground }]
+      );
+    }
+    for (const [path, colors] of groups) {
+      for (const [key, value] of Object.entries(colors ?? {})) {
+        if (typeof value === 'string' && !isValidCssColor(value)) {
+          warn([...path, key], `"${value}" is not a valid CSS color`);
+        }
+      }
+    }
+    return warnings;
+  }
+
+  // Links are prefixed with the locale by components, so relative hrefs break
+  const visit = (value: unknown, path: Array<string | number>) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, index]));
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'href') {
+        const hrefs = typeof child === 'string' ? { '': child } : (child ?? {});
+        for (const [locale, href] of Object.entries(hrefs)) {
+          if (typeof href === 'string' && !LINK_PATTERN.test(href)) {
+            warn(
+              locale ? [...path, key, locale] : [...path, key],
+              `"${href}" should start with "/" or be an absolute URL`
+            );
+          }
+        }
+      } else {
+        visit(child, [...path, key]);
+      }
+    }
+  };
+  visit(config, []);
+  return warnings;
+}
+
+/**
+ * Validate site configuration at runtime
+ *
+ * Checks each provided config object against the framework schemas and
+ * returns path-addressed errors plus warnings for suspicious values
+ * (invalid CSS colors, relative links, unknown keys).
+ *
+ * @example
+ * const result = validateSiteConfig({ content, navigation, theme })
+ * if (!result.valid) {
+ *   console.error(formatConfigIssues(result))
+ * }
+ */
+export function validateSiteConfig(input: SiteConfigInput): ConfigValidationResult {
+  const schemas = getConfigSchemas();
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+
+  for (const kind of ['content', 'navigation', 'theme', 'scripts'] as const) {
+    const config = input[kind];
+    if (config === undefined) continue;
+
+    const parsed = schemas[kind].safeParse(config);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        if (issue.code === 'unrecognized_keys') {
+          for (const key of issue.keys) {
+            warnings.push({
+              config: kind,
+              path: formatConfigPath([...issue.path, key]),
+              message: 'unknown key',
+              severity: 'warning',
+            });
+          }
+          continue;
+        }
+        errors.push({
+          config: kind,
+          path: formatConfigPath(issue.path),
+          message: describeIssue(issue),
+          severity: 'error',
+        });
+      }
+    }
+
+    warnings.push(...collectWarnings(kind, config));
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Formats validation issues one per line, e.g.
+ * `[content] services.items[2].href: missing`
+ */
+export function formatConfigIssues(result: ConfigValidationResult): string {
+  return [...result.errors, ...result.warnings]
+    .map(
+      (issue) =>
+        `${issue.severity === 'warning' ? 'warning ' : ''}[${issue.config}] ${issue.path || '(root)'}: ${issue.message}`
+    )
+    .join('\n');
+}
+
+/**
+ * Validate site configuration and throw if there are errors
+ * Intended for build steps (e.g. next.config.js) so bad content fails fast
+ */
+export function assertValidSiteConfig(input: SiteConfigInput): ConfigValidationResult {
+  const result = validateSiteConfig(input);
+  if (!result.valid) {
+    throw new Error(`Invalid site configuration:\n${formatConfigIssues(result)}`);
+  }
+  return result;
+}
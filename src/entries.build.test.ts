@@ -0,0 +1,70 @@
+// ABOUTME: Tests for the built package entry points
+// ABOUTME: Validates shared configuration across bundles and loading the ESM config entry in Node
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { execFileSync } from 'child_process'
+import { createRequire } from 'module'
+import fs from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { build } from 'tsup'
+
+const outDir = path.resolve(__dirname, '../node_modules/.cache/entries-test')
+const load = createRequire(import.meta.url)
+
+describe('package entries', () => {
+  beforeAll(async () => {
+    // tsup.config.ts with a quicker output
+    await build({ format: ['cjs', 'esm'], dts: false, sourcemap: false, outDir, silent: true })
+  }, 120_000)
+
+  afterAll(() => {
+    const main = load(path.join(outDir, 'index.js'))
+    main.configureLocales({ locales: ['fr', 'en'], defaultLocale: 'fr' })
+    main.configureRoutes(main.defineRoutes({}))
+    fs.rmSync(outDir, { recursive: true, force: true })
+  })
+
+  it('should share locale and route configuration across bundles', () => {
+    const main = load(path.join(outDir, 'index.js'))
+    const components = load(path.join(outDir, 'components/index.js'))
+    const middleware = load(path.join(outDir, 'middleware/index.js'))
+    const { createElement } = load('react')
+    const { renderToStaticMarkup } = load('react-dom/server')
+    const { NextRequest } = load('next/server')
+
+    main.configureLocales({ locales: ['en', 'es'], defaultLocale: 'en' })
+    main.configureRoutes(main.defineRoutes({ about: { en: '/about', es: '/acerca' } }))
+
+    const html = renderToStaticMarkup(
+      createElement(components.LanguageSwitcher, { currentLocale: 'en' })
+    )
+    expect(html).toContain('href="/es"')
+    expect(html).toContain('Español')
+
+    const response = middleware.createLocaleMiddleware()(
+      new NextRequest('https://example.com/about', { headers: { 'accept-language': 'es' } })
+    )
+    expect(response.headers.get('location')).toBe('https://example.com/es/acerca')
+  })
+
+  it('should validate config from the ESM config entry in plain Node', () => {
+    const entry = pathToFileURL(path.join(outDir, 'config/index.mjs')).href
+    const script =
+      `const { validateSiteConfig } = await import('${entry}');` +
+      'console.log(JSON.stringify(validateSiteConfig({ scripts: { head: [1] } }).errors))'
+    const output = execFileSync(process.execPath, ['--input-type=module', '-e', script], {
+      encoding: 'utf8',
+    })
+
+    expect(JSON.parse(output)).toEqual([expect.objectContaining({ path: 'head[0]' })])
+    expect(fs.readFileSync(path.join(outDir, 'config/index.mjs'), 'utf8')).not.toMatch(/react/)
+  })
+
+  it('should mark only the components entry as client code', () => {
+    expect(fs.readFileSync(path.join(outDir, 'components/index.js'), 'utf8')).toMatch(
+      /^'use client';/
+    )
+    expect(fs.readFileSync(path.join(outDir, 'index.js'), 'utf8')).not.toMatch(/^'use client'/)
+  })
+})
@@ -15,6 +15,7 @@ export * from './lib/ab-test';
 export * from './lib/forms';
 export * from './lib/seo';
 export * from './lib/hooks';
+export * from './lib/sites';
 
 // Components
 export { AnalyticsTracker } from './components/AnalyticsTracker';
@@ -34,10 +35,26 @@ export type { AboutSectionProps } from './components/sections/AboutSection';
 export type { ServicesSectionProps } from './components/sections/ServicesSection';
 export type { TestimonialSectionProps } from './components/sections/TestimonialSection';
 export type { ServicePageLayoutProps } from './components/sections/ServicePageLayout';
+export type {
+  SectionRendererProps,
+  SectionDefinition,
+  RegisteredSectionDefinition,
+  SectionRenderContext,
+} from './components/sections/SectionRenderer';
 
 export type { HeaderProps } from './components/layout/Header';
 export type { FooterProps } from './components/layout/Footer';
-export type { LanguageSwitcherProps } from './components/layout/LanguageSwitcher';
+export type {
+  LanguageSwitcherProps,
+  LanguageSwitcherVariant,
+} from './components/layout/LanguageSwitcher';
+
+export type { ThemeToggleProps } from './components/ThemeToggle';
+export type { ThemeScriptProps } from './components/ThemeScript';
+
+export type { SiteProviderProps } from './components/SiteProvider';
+export type { MessagesProviderProps } from './components/MessagesProvider';
+export type { ThemeProviderProps, ThemeScopeProps } from './components/ThemeProvider';
 
 export type { SkipLinkProps } from './components/a11y/SkipLink';
 export type { A11yAnnouncerProps, AnnouncementPriority } from './components/a11y/A11yAnnouncer';
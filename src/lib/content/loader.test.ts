@@ -0,0 +1,100 @@
+// ABOUTME: Tests for the file-based content loader
+// ABOUTME: Validates JSON/YAML/Markdown assembly, locale merging and file:line error reporting
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { loadSiteContent, ContentLoadError } from './loader'
+import { createTestContent, createTestNavigation } from '../../test/fixtures'
+
+let dir: string
+
+async function write(file: string, text: string) {
+  await mkdir(path.dirname(path.join(dir, file)), { recursive: true })
+  await writeFile(path.join(dir, file), text)
+}
+
+async function writeBaseContent() {
+  const content = createTestContent()
+  await write('metadata.json', JSON.stringify(content.metadata, null, 2))
+  await write('hero.json', JSON.stringify(content.hero, null, 2))
+  await write('why-choose-us.json', JSON.stringify(content.whyChooseUs, null, 2))
+  await write('services.json', JSON.stringify(content.services, null, 2))
+}
+
+describe('loadSiteContent', () => {
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'site-content-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should assemble content, navigation and per-locale Markdown', async () => {
+    await writeBaseContent()
+    await write('about.yaml', 'dividerLine: true\n')
+    await write('about.en.md', '---\nheading: About\n---\nSince **1990**.\n\nFamily owned.\n')
+    await write('about.fr.md', '---\nheading: À propos\n---\nDepuis **1990**.\n\nEntreprise familiale.\n')
+    await write('navigation.json', JSON.stringify(createTestNavigation()))
+
+    const { content, navigation } = await loadSiteContent(dir)
+
+    expect(content.about).toEqual({
+      dividerLine: true,
+      heading: { en: 'About', fr: 'À propos' },
+      paragraphs: [
+        { en: 'Since <strong>1990</strong>.', fr: 'Depuis <strong>1990</strong>.' },
+        { en: 'Family owned.', fr: 'Entreprise familiale.' },
+      ],
+    })
+    expect(content.whyChooseUs.heading.fr).toBe('Pourquoi nous')
+    expect(navigation?.header.mainNav).toHaveLength(2)
+  })
+
+  it('should key files in sub-directories by file name', async () => {
+    await writeBaseContent()
+    await write('about.en.md', '---\nheading: About\n---\nText\n')
+    await write(
+      'service-pages/personal-tax.yaml',
+      'title:\n  en: Personal tax\ndescription:\n  en: Returns\nlead:\n  en: We file\nsections: []\n'
+    )
+
+    const { content } = await loadSiteContent(dir)
+
+    expect(content.servicePages?.['personal-tax'].title).toEqual({ en: 'Personal tax' })
+  })
+
+  it('should report syntax errors with file and line', async () => {
+    await writeBaseContent()
+    await write('about.yaml', 'heading:\n  en: About\n  en: Again\n')
+
+    await expect(loadSiteContent(dir)).rejects.toMatchObject({
+      issues: [expect.objectContaining({ file: 'about.yaml', line: 3 })],
+    })
+  })
+
+  it('should map validation errors back to the source file and line', async () => {
+    await writeBaseContent()
+    await write('about.en.md', '---\nheading: About\n---\nText\n')
+    await write(
+      'services.yaml',
+      [
+        'heading: { en: Services }',
+        'description: { en: What we do }',
+        'items:',
+        '  - id: tax',
+        '    name: { en: Tax }',
+        '    description: { en: Returns }',
+        '    href: 42',
+      ].join('\n')
+    )
+    await rm(path.join(dir, 'services.json'))
+
+    const error = await loadSiteContent(dir).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(ContentLoadError)
+    expect(error.message).toContain('services.yaml:7 services.items[0].href: expected string')
+  })
+})
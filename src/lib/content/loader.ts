@@ -0,0 +1,443 @@
+// ABOUTME: File-based content loader for JSON, YAML and Markdown content directories
+// ABOUTME: Assembles SiteContent and NavigationConfig, merging per-locale files into LocalizedStrings
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { LineCounter, isMap, isScalar, isSeq, parseDocument, type Node } from 'yaml';
+import { type SiteContent } from '../../config/content.schema';
+import { type NavigationConfig } from '../../config/navigation.schema';
+import { formatConfigPath, validateSiteConfig } from '../../config/validation';
+
+export interface ContentFileIssue {
+  /** File path relative to the content directory */
+  file?: string;
+  line?: number;
+  /** Object path of the offending value, e.g. `services.items[2].href` */
+  path?: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface LoadSiteContentOptions {
+  /**
+   * Locale for Markdown files without a locale suffix
+   * @default content.metadata.defaultLocale
+   */
+  defaultLocale?: string;
+  /** Validate the assembled config with validateSiteConfig @default true */
+  validate?: boolean;
+}
+
+export interface LoadedSiteContent {
+  content: SiteContent;
+  navigation?: NavigationConfig;
+  /** Non-fatal issues (validation warnings) */
+  warnings: ContentFileIssue[];
+}
+
+type ConfigRoot = 'content' | 'navigation';
+type Segment = string | number;
+
+interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+interface ContentFile {
+  file: string;
+  root: ConfigRoot;
+  mount: Segment[];
+  locale?: string;
+  ext: 'json' | 'yaml' | 'md';
+}
+
+const FILE_PATTERN = /^(.+?)(?:\.([a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*))?\.(json|ya?ml|md)$/;
+
+function camelCase(name: string): string {
+  return name.replace(/[-_]+(\w)/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Maps a file to the place it is merged into:
+ * - `navigation.yaml` is the NavigationConfig, `navigation/header.yaml` its header
+ * - other top-level files are SiteContent sections (`why-choose-us.md` -> `whyChooseUs`)
+ * - files in directories are keyed by file name (`service-pages/tax.md` -> `servicePages.tax`)
+ */
+function describeFile(relativePath: string): ContentFile | null {
+  const parts = relativePath.split(path.sep);
+  const match = FILE_PATTERN.exec(parts[parts.length - 1]);
+  if (!match || parts.length > 2) return null;
+
+  const [, name, locale, extension] = match;
+  const ext = extension === 'yml' ? 'yaml' : (extension as ContentFile['ext']);
+  const dir = parts.length === 2 ? camelCase(parts[0]) : null;
+
+  if (dir === 'navigation') {
+    return { file: relativePath, root: 'navigation', mount: [camelCase(name)], locale, ext };
+  }
+  if (!dir && name === 'navigation') {
+    return { file: relativePath, root: 'navigation', mount: [], locale, ext };
+  }
+  return {
+    file: relativePath,
+    root: 'content',
+    mount: dir ? [dir, name] : [camelCase(name)],
+    locale,
+    ext,
+  };
+}
+
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  const entries = await readdir(path.join(dir, prefix), { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith('.') || entry.name.startsWith('_')) continue;
+    const relative = path.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(dir, relative)));
+    } else {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+/**
+ * Thrown by loadSiteContent; `issues` lists every problem with its file and line
+ */
+export class ContentLoadError extends Error {
+  constructor(readonly issues: ContentFileIssue[]) {
+    super(`Invalid site content:\n${formatContentFileIssues(issues)}`);
+    this.name = 'ContentLoadError';
+  }
+}
+
+/**
+ * Converts the inline Markdown writers commonly use (bold, italic, links)
+ * to the HTML the paragraph-based sections render
+ */
+function renderInlineMarkdown(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*]+)\*/g, '$1<em>$2</em>')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/\s*\n\s*/g, ' ');
+}
+
+interface ParsedFile {
+  data: unknown;
+  /** Line of every value, keyed by its path relative to the file */
+  lines: Map<string, number>;
+}
+
+function parseYaml(text: string, file: string, lineOffset = 0): ParsedFile {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter, uniqueKeys: true });
+
+  if (doc.errors.length > 0) {
+    throw new ContentLoadError(
+      doc.errors.map((error) => ({
+        file,
+        line: (error.linePos?.[0].line ?? 0) + lineOffset,
+        message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+        severity: 'error',
+      }))
+    );
+  }
+
+  const lines = new Map<string, number>();
+  const visit = (node: Node | null | undefined, segments: Segment[]) => {
+    if (!node) return;
+    if (node.range) {
+      lines.set(formatConfigPath(segments), lineCounter.linePos(node.range[0]).line + lineOffset);
+    }
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        visit(pair.value as Node, [...segments, key]);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => visit(item as Node, [...segments, index]));
+    }
+  };
+  visit(doc.contents as Node, []);
+
+  return { data: doc.toJS(), lines };
+}
+
+function parseMarkdown(text: string, file: string): ParsedFile {
+  const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  const parsed = frontMatter ? parseYaml(frontMatter[1], file, 1) : { data: {}, lines: new Map() };
+
+  if (parsed.data === null || typeof parsed.data !== 'object' || Array.isArray(parsed.data)) {
+    throw new ContentLoadError([
+      { file, line: 2, message: 'front matter must be a mapping', severity: 'error' },
+    ]);
+  }
+  const data = parsed.data as Record<string, unknown>;
+
+  // The body goes to `paragraphs` (split on blank lines) unless `bodyField` names another field
+  const bodyField = typeof data.bodyField === 'string' ? data.bodyField : 'paragraphs';
+  delete data.bodyField;
+
+  const bodyStart = frontMatter ? frontMatter[0].split('\n').length : 1;
+  const body = text.slice(frontMatter ? frontMatter[0].length : 0);
+  if (body.trim()) {
+    if (bodyField === 'paragraphs') {
+      const paragraphs: string[] = [];
+      let line = bodyStart;
+      for (const block of body.split(/(\r?\n\s*\r?\n)/)) {
+        if (/^\r?\n\s*\r?\n$/.test(block)) {
+          line += block.split('\n').length - 1;
+          continue;
+        }
+        if (block.trim()) {
+          const leading = block.length - block.trimStart().length;
+          parsed.lines.set(
+            formatConfigPath([bodyField, paragraphs.length]),
+            line + block.slice(0, leading).split('\n').length - 1
+          );
+          paragraphs.push(renderInlineMarkdown(block.trim()));
+        }
+        line += block.split('\n').length - 1;
+      }
+      data[bodyField] = paragraphs;
+    } else {
+      data[bodyField] = body.trim();
+    }
+    parsed.lines.set(bodyField, bodyStart);
+  }
+
+  return { data, lines: parsed.lines };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Merges `value` into `target[key]`. With a locale, string leaves become
+ * `{ [locale]: value }` entries of a LocalizedString.
+ */
+function mergeValue(
+  target: Record<Segment, unknown>,
+  key: Segment,
+  value: unknown,
+  locale: string | undefined,
+  onConflict: (segments: Segment[]) => void,
+  segments: Segment[]
+): void {
+  const existing = target[key];
+
+  if (typeof value === 'string' && locale) {
+    if (typeof existing === 'string') {
+      onConflict(segments);
+      return;
+    }
+    target[key] = { ...(isPlainObject(existing) ? existing : {}), [locale]: value };
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    const array: unknown[] = Array.isArray(existing) ? existing : [];
+    value.forEach((item, index) =>
+      mergeValue(
+        array as unknown as Record<number, unknown>,
+        index,
+        item,
+        locale,
+        onConflict,
+        [...segments, index]
+      )
+    );
+    target[key] = array;
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    const object = isPlainObject(existing) ? existing : {};
+    for (const [childKey, child] of Object.entries(value)) {
+      mergeValue(object, childKey, child, locale, onConflict, [...segments, childKey]);
+    }
+    target[key] = object;
+    return;
+  }
+
+  if (existing === undefined || !locale) {
+    target[key] = value;
+  }
+}
+
+function joinPath(base: string, relative: string): string {
+  if (!base || !relative) return base || relative;
+  return relative.startsWith('[') ? `${base}${relative}` : `${base}.${relative}`;
+}
+
+function parentPath(pathString: string): string | null {
+  const parent = pathString.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+  return parent === pathString ? null : parent;
+}
+
+/**
+ * Load site content from a directory of JSON, YAML and Markdown files
+ *
+ * Each top-level file is a SiteContent section named after the file
+ * (`hero.yaml`, `why-choose-us.md`); files in sub-directories are keyed by
+ * file name (`service-pages/tax.yaml` -> `servicePages.tax`, `pages/home.yaml`).
+ * `navigation.yaml` (or `navigation/header.yaml`, `navigation/footer.yaml`)
+ * builds the NavigationConfig.
+ *
+ * Files with a locale suffix (`about.fr.md`) contribute that locale's text:
+ * their string values are merged into LocalizedString fields. Markdown front
+ * matter provides fields and the body becomes `paragraphs`.
+ *
+ * Throws with file and line numbers for syntax errors and invalid values.
+ *
+ * @example
+ * // app/[locale]/layout.tsx
+ * const { content, navigation } = await loadSiteContent(path.join(process.cwd(), 'content'))
+ */
+export async function loadSiteContent(
+  dir: string,
+  options: LoadSiteContentOptions = {}
+): Promise<LoadedSiteContent> {
+  const files = (await listFiles(dir))
+    .map(describeFile)
+    .filter((file): file is ContentFile => file !== null)
+    // Base files first so locale files merge into them; metadata first for defaultLocale
+    .sort((a, b) => {
+      const rank = (file: ContentFile) =>
+        (file.mount[0] === 'metadata' ? 0 : 2) + (file.locale || file.ext === 'md' ? 1 : 0);
+      return rank(a) - rank(b);
+    });
+
+  const roots: Record<ConfigRoot, Record<string, unknown>> = { content: {}, navigation: {} };
+  const sources: Record<ConfigRoot, Map<string, SourceLocation>> = {
+    content: new Map(),
+    navigation: new Map(),
+  };
+  const errors: ContentFileIssue[] = [];
+  const seen = new Map<string, string>();
+
+  for (const file of files) {
+    const identity = `${file.root}:${formatConfigPath(file.mount)}:${file.locale ?? ''}`;
+    if (seen.has(identity)) {
+      errors.push({
+        file: file.file,
+        message: `duplicates ${seen.get(identity)}`,
+        severity: 'error',
+      });
+      continue;
+    }
+    seen.set(identity, file.file);
+
+    let parsed: ParsedFile;
+    try {
+      const text = await readFile(path.join(dir, file.file), 'utf-8');
+      parsed = file.ext === 'md' ? parseMarkdown(text, file.file) : parseYaml(text, file.file);
+    } catch (error) {
+      if (error instanceof ContentLoadError) {
+        errors.push(...error.issues);
+        continue;
+      }
+      throw error;
+    }
+
+    const metadata = roots.content.metadata as { defaultLocale?: string } | undefined;
+    const locale =
+      file.locale ??
+      (file.ext === 'md' ? (options.defaultLocale ?? metadata?.defaultLocale) : undefined);
+    if (file.ext === 'md' && !locale) {
+      errors.push({
+        file: file.file,
+        message: 'cannot determine locale: add a locale suffix or set metadata.defaultLocale',
+        severity: 'error',
+      });
+      continue;
+    }
+
+    const onConflict = (segments: Segment[]) =>
+      errors.push({
+        file: file.file,
+        line: parsed.lines.get(formatConfigPath(segments.slice(file.mount.length))),
+        path: formatConfigPath(segments),
+        message: 'localized value conflicts with a non-localized value in the base file',
+        severity: 'error',
+      });
+
+    if (file.mount.length === 0) {
+      if (!isPlainObject(parsed.data)) {
+        errors.push({ file: file.file, line: 1, message: 'expected a mapping', severity: 'error' });
+        continue;
+      }
+      for (const [key, value] of Object.entries(parsed.data)) {
+        mergeValue(roots[file.root], key, value, locale, onConflict, [key]);
+      }
+    } else {
+      let parent = roots[file.root];
+      for (const segment of file.mount.slice(0, -1)) {
+        if (!isPlainObject(parent[segment])) parent[segment] = {};
+        parent = parent[segment] as Record<string, unknown>;
+      }
+      mergeValue(parent, file.mount[file.mount.length - 1], parsed.data, locale, onConflict, [
+        ...file.mount,
+      ]);
+    }
+
+    const mount = formatConfigPath(file.mount);
+    for (const [relative, line] of parsed.lines) {
+      const full = joinPath(mount, relative);
+      if (!sources[file.root].has(full) || file.locale) {
+        sources[file.root].set(full, { file: file.file, line });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ContentLoadError(errors);
+  }
+
+  const content = roots.content as unknown as SiteContent;
+  const hasNavigation = Object.keys(roots.navigation).length > 0;
+  const navigation = hasNavigation ? (roots.navigation as unknown as NavigationConfig) : undefined;
+  const warnings: ContentFileIssue[] = [];
+
+  if (options.validate !== false) {
+    const result = validateSiteConfig({ content, navigation });
+    const locate = (issue: (typeof result.errors)[number]): ContentFileIssue => {
+      const map = sources[issue.config as ConfigRoot];
+      let lookup: string | null = issue.path;
+      while (lookup !== null && !map.has(lookup)) lookup = parentPath(lookup);
+      const source = lookup !== null ? map.get(lookup) : undefined;
+      return {
+        file: source?.file,
+        line: source?.line,
+        path: issue.config === 'navigation' ? `navigation.${issue.path}` : issue.path,
+        message: issue.message,
+        severity: issue.severity,
+      };
+    };
+
+    if (!result.valid) {
+      throw new ContentLoadError(result.errors.map(locate));
+    }
+    warnings.push(...result.warnings.map(locate));
+  }
+
+  return { content, navigation, warnings };
+}
+
+/**
+ * Formats content file issues one per line, e.g.
+ * `services.yaml:12 services.items[2].href: missing`
+ */
+export function formatContentFileIssues(issues: ContentFileIssue[]): string {
+  return issues
+    .map((issue) => {
+      const location = issue.file ? `${issue.file}${issue.line ? `:${issue.line}` : ''} ` : '';
+      const target = issue.path ? `${issue.path}: ` : '';
+      const prefix = issue.severity === 'warning' ? 'warning ' : '';
+      return `${prefix}${location}${target}${issue.message}`;
+    })
+    .join('\n');
+}
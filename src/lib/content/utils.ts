@@ -1,12 +1,22 @@
 // ABOUTME: Content utility functions
 // ABOUTME: Helpers for working with localized content
 
+import { resolveLocalizedString } from '../i18n/config';
+import { isPseudoLocale, getPseudoSourceLocale, pseudoLocalize } from '../i18n/pseudo';
+
 /**
  * Helper to get localized string from content
+ *
+ * Follows the locale's fallback chain (`fr-CA` → `fr` → default locale → `en`); use
+ * resolveLocalizedString() to know whether a fallback was used. The
+ * pseudo-locale renders the source locale's text pseudo-localized.
  */
 export function getLocalizedString(
   localizedString: { [locale: string]: string },
   locale: string
 ): string {
-  return localizedString[locale] || localizedString['en'] || '';
+  if (isPseudoLocale(locale)) {
+    return pseudoLocalize(getLocalizedString(localizedString, getPseudoSourceLocale()));
+  }
+  return resolveLocalizedString(localizedString, locale).value;
 }
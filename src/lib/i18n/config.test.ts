@@ -0,0 +1,156 @@
+// ABOUTME: Tests for the configurable locale set
+// ABOUTME: Validates configureLocales, locale checks, display names and cookie parsing
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  configureLocales,
+  isLocale,
+  getLocaleName,
+  getLocaleLabel,
+  getLocaleDirection,
+  getHtmlAttributes,
+  getFallbackChain,
+  resolveLocalizedString,
+  locales,
+  getDefaultLocale,
+} from './config'
+import { getLocaleFromCookie, setLocaleCookie } from './locale-cookie'
+import { getLocalizedString } from '../content/utils'
+import { createTestContent } from '../../test/fixtures'
+
+describe('configureLocales', () => {
+  afterEach(() => {
+    configureLocales({ locales: ['fr', 'en'], defaultLocale: 'fr' })
+  })
+
+  it('should replace the locale set and default locale', () => {
+    configureLocales({ locales: ['en', 'es', 'de'], defaultLocale: 'en' })
+
+    expect(locales).toEqual(['en', 'es', 'de'])
+    expect(getDefaultLocale()).toBe('en')
+    expect(isLocale('es')).toBe(true)
+    expect(isLocale('fr')).toBe(false)
+  })
+
+  it('should accept site metadata', () => {
+    configureLocales(createTestContent().metadata)
+
+    expect(locales).toEqual(['en', 'fr'])
+    expect(getDefaultLocale()).toBe('en')
+  })
+
+  it('should reject a default locale outside the set', () => {
+    expect(() => configureLocales({ locales: ['en'], defaultLocale: 'fr' })).toThrow(
+      'default locale "fr" is not in [en]'
+    )
+  })
+
+  it('should read configured locales from the cookie', () => {
+    configureLocales({ locales: ['en', 'es'], defaultLocale: 'en' })
+
+    setLocaleCookie('es')
+    expect(getLocaleFromCookie()).toBe('es')
+
+    document.cookie = 'NEXT_LOCALE=fr; path=/'
+    expect(getLocaleFromCookie()).toBeNull()
+  })
+})
+
+describe('locale names and labels', () => {
+  it('should use configured names, then Intl display names', () => {
+    expect(getLocaleName('fr')).toBe('Français')
+    expect(getLocaleName('es')).toBe('Español')
+    expect(getLocaleLabel('de')).toBe('DE')
+  })
+})
+
+describe('text direction', () => {
+  it('should detect right-to-left languages from the language code', () => {
+    expect(getLocaleDirection('ar')).toBe('rtl')
+    expect(getLocaleDirection('he-IL')).toBe('rtl')
+    expect(getLocaleDirection('fr-CA')).toBe('ltr')
+    expect(getHtmlAttributes('fa')).toEqual({ lang: 'fa', dir: 'rtl' })
+  })
+
+  it('should prefer configured directions', () => {
+    configureLocales({
+      locales: ['en', 'x-test'],
+      defaultLocale: 'en',
+      localeDirections: { 'x-test': 'rtl' },
+    })
+
+    expect(getLocaleDirection('x-test')).toBe('rtl')
+    configureLocales({ locales: ['fr', 'en'], defaultLocale: 'fr' })
+  })
+})
+
+describe('fallback chains', () => {
+  afterEach(() => {
+    configureLocales({
+      locales: ['fr', 'en'],
+      defaultLocale: 'fr',
+      onMissingTranslation: undefined,
+      warnOnFallback: false,
+    })
+    vi.restoreAllMocks()
+  })
+
+  it('should keep English as the last resort when it is configured', () => {
+    expect(getFallbackChain('fr')).toEqual(['fr', 'en'])
+    expect(getLocalizedString({ en: 'Contact' }, 'fr')).toBe('Contact')
+
+    configureLocales({ locales: ['fr', 'es'], defaultLocale: 'fr' })
+
+    expect(getFallbackChain('es')).toEqual(['es', 'fr'])
+    expect(getLocalizedString({ en: 'Contact' }, 'es')).toBe('')
+  })
+
+  it('should fall back to the base language, then the default locale', () => {
+    configureLocales({ locales: ['en', 'fr', 'fr-CA'], defaultLocale: 'en' })
+
+    expect(getFallbackChain('fr-CA')).toEqual(['fr-CA', 'fr', 'en'])
+    expect(getLocalizedString({ en: 'Hello', fr: 'Bonjour' }, 'fr-CA')).toBe('Bonjour')
+    expect(getLocalizedString({ en: 'Hello' }, 'fr-CA')).toBe('Hello')
+    expect(resolveLocalizedString({ es: 'Hola' }, 'fr-CA')).toEqual({
+      value: '',
+      locale: undefined,
+      fallback: true,
+    })
+  })
+
+  it('should follow configured chains', () => {
+    configureLocales({
+      locales: ['en', 'pt-BR', 'pt-PT'],
+      defaultLocale: 'en',
+      fallbacks: { 'pt-BR': ['pt-PT'] },
+    })
+
+    expect(resolveLocalizedString({ en: 'Hello', 'pt-PT': 'Olá' }, 'pt-BR')).toEqual({
+      value: 'Olá',
+      locale: 'pt-PT',
+      fallback: true,
+    })
+  })
+
+  it('should report missing translations and warn once past the locale chain', () => {
+    const onMissingTranslation = vi.fn()
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    configureLocales({
+      locales: ['en', 'fr', 'fr-CA'],
+      defaultLocale: 'en',
+      onMissingTranslation,
+      warnOnFallback: true,
+    })
+
+    getLocalizedString({ en: 'Hello', fr: 'Bonjour' }, 'fr-CA')
+    getLocalizedString({ en: 'Goodbye' }, 'fr-CA')
+    getLocalizedString({ en: 'Goodbye' }, 'fr-CA')
+
+    expect(onMissingTranslation).toHaveBeenCalledTimes(3)
+    expect(onMissingTranslation).toHaveBeenCalledWith(
+      expect.objectContaining({ locale: 'fr-CA', resolvedLocale: 'fr', value: 'Bonjour' })
+    )
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn).toHaveBeenCalledWith('[i18n] Missing "fr-CA" translation, showing "en": Goodbye')
+  })
+})
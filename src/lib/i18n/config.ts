@@ -1,17 +1,278 @@
-// ABOUTME: i18n configuration for bilingual routing (French/English)
-// ABOUTME: Defines supported locales, default locale, and locale detection settings
+// ABOUTME: i18n configuration for locale-prefixed routing
+// ABOUTME: Configurable locale set, default locale, display names, labels, direction and fallbacks
 
-export const locales = ['fr', 'en'] as const;
-export type Locale = (typeof locales)[number];
+import { type SiteMetadata } from '../../config/content.schema';
+import { getSharedState } from '../utils/shared-state';
 
-export const defaultLocale: Locale = 'fr';
+/**
+ * Declares the app's locales so `Locale` is checked against them
+ *
+ * Without a declaration, `Locale` is `string`.
+ *
+ * @example
+ * // types/simple-site.d.ts
+ * import '@zoyth/simple-site-framework';
+ *
+ * declare module '@zoyth/simple-site-framework' {
+ *   interface LocaleRegistry {
+ *     locale: 'en' | 'fr' | 'es';
+ *   }
+ * }
+ */
+export interface LocaleRegistry {}
 
-export const localeNames: Record<Locale, string> = {
-  fr: 'Français',
-  en: 'English',
-};
+export type Locale = LocaleRegistry extends { locale: infer L extends string } ? L : string;
 
-export const localeLabels: Record<Locale, string> = {
-  fr: 'FR',
-  en: 'EN',
-};
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface MissingTranslation {
+  /** Locale that was requested */
+  locale: Locale;
+  /** Locale whose text was used instead; undefined when nothing matched */
+  resolvedLocale?: Locale;
+  /** Text that was used instead ('' when nothing matched) */
+  value: string;
+  /** The LocalizedString that was looked up */
+  localized: Readonly<Record<string, string>>;
+}
+
+export interface I18nConfig {
+  locales: readonly Locale[];
+  defaultLocale: Locale;
+  /** Display names in each locale's own language, e.g. `{ es: 'Español' }` */
+  localeNames?: Partial<Record<Locale, string>>;
+  /** Short labels, e.g. `{ es: 'ES' }` (defaults to the upper-cased code) */
+  localeLabels?: Partial<Record<Locale, string>>;
+  /** Text direction overrides (detected from the language code by default) */
+  localeDirections?: Partial<Record<Locale, TextDirection>>;
+  /**
+   * Locales to try, in order, when a string is missing, e.g. `{ 'fr-CA': ['fr'] }`
+   * (defaults to the base language); the default locale, then English when
+   * configured, are always tried last
+   */
+  fallbacks?: Partial<Record<Locale, Locale[]>>;
+  /** Called whenever a string is missing in the requested locale */
+  onMissingTranslation?: (missing: MissingTranslation) => void;
+  /**
+   * Warn in the console when a string falls back past the locale's chain to
+   * the default locale @default true in development
+   */
+  warnOnFallback?: boolean;
+}
+
+interface LocaleState {
+  locales: Locale[];
+  defaultLocale: Locale;
+  localeNames: Partial<Record<Locale, string>>;
+  localeLabels: Partial<Record<Locale, string>>;
+  localeDirections: Partial<Record<Locale, TextDirection>>;
+  localeFallbacks: Partial<Record<Locale, Locale[]>>;
+  onMissingTranslation?: I18nConfig['onMissingTranslation'];
+  warnOnFallback: boolean;
+  warnedFallbacks: Set<string>;
+}
+
+// Shared so configureLocales() through any package entry reaches every bundle
+const state = getSharedState<LocaleState>('i18n', () => ({
+  locales: ['fr', 'en'],
+  defaultLocale: 'fr',
+  localeNames: { fr: 'Français', en: 'English' },
+  localeLabels: { fr: 'FR', en: 'EN' },
+  localeDirections: {},
+  localeFallbacks: {},
+  warnOnFallback: process.env.NODE_ENV === 'development',
+  warnedFallbacks: new Set(),
+}));
+
+/** Configured locales; updated in place by configureLocales() */
+export const locales: Locale[] = state.locales;
+
+/** Configured display names; updated in place by configureLocales() */
+export const localeNames: Partial<Record<Locale, string>> = state.localeNames;
+
+/** Configured short labels; updated in place by configureLocales() */
+export const localeLabels: Partial<Record<Locale, string>> = state.localeLabels;
+
+/** Configured text directions; updated in place by configureLocales() */
+export const localeDirections: Partial<Record<Locale, TextDirection>> = state.localeDirections;
+
+/** Configured fallback chains; updated in place by configureLocales() */
+export const localeFallbacks: Partial<Record<Locale, Locale[]>> = state.localeFallbacks;
+
+/**
+ * Get the configured default locale
+ */
+export function getDefaultLocale(): Locale {
+  return state.defaultLocale;
+}
+
+/** Locale tried after the default locale, when configured */
+const LAST_RESORT_LOCALE = 'en' as Locale;
+
+/** Languages written right-to-left */
+const RTL_LANGUAGES = new Set([
+  'ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'ps', 'sd', 'ug', 'ur', 'yi',
+]);
+
+/**
+ * Configure the app's locales
+ *
+ * Call once in a module imported by both server and client code (e.g. the
+ * root layout and middleware). Accepts an explicit config or the content's
+ * `SiteMetadata`.
+ *
+ * @example
+ * configureLocales({ locales: ['en', 'fr', 'es', 'de'], defaultLocale: 'en' })
+ *
+ * @example
+ * configureLocales(content.metadata)
+ */
+export function configureLocales(
+  config: I18nConfig | Pick<SiteMetadata, 'supportedLocales' | 'defaultLocale'>
+) {
+  const next: I18nConfig =
+    'supportedLocales' in config
+      ? {
+          locales: config.supportedLocales as Locale[],
+          defaultLocale: config.defaultLocale as Locale,
+        }
+      : config;
+
+  if (next.locales.length === 0) {
+    throw new Error('configureLocales: at least one locale is required');
+  }
+  if (!next.locales.includes(next.defaultLocale)) {
+    throw new Error(
+      `configureLocales: default locale "${next.defaultLocale}" is not in [${next.locales.join(', ')}]`
+    );
+  }
+
+  locales.splice(0, locales.length, ...next.locales);
+  state.defaultLocale = next.defaultLocale;
+  Object.assign(localeNames, next.localeNames);
+  Object.assign(localeLabels, next.localeLabels);
+  Object.assign(localeDirections, next.localeDirections);
+  Object.assign(localeFallbacks, next.fallbacks);
+  if ('onMissingTranslation' in next) state.onMissingTranslation = next.onMissingTranslation;
+  if (next.warnOnFallback !== undefined) state.warnOnFallback = next.warnOnFallback;
+}
+
+/**
+ * Check whether a value is one of the configured locales
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && locales.includes(value as Locale);
+}
+
+/**
+ * Get a locale's display name in its own language
+ *
+ * Falls back to `Intl.DisplayNames`, then to the locale code.
+ */
+export function getLocaleName(locale: Locale): string {
+  const configured = localeNames[locale];
+  if (configured) return configured;
+
+  try {
+    const name = new Intl.DisplayNames([locale], { type: 'language' }).of(locale);
+    if (name) return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+  } catch {
+    // Invalid or unsupported locale code
+  }
+  return locale;
+}
+
+/**
+ * Get a locale's short label, e.g. 'FR'
+ */
+export function getLocaleLabel(locale: Locale): string {
+  return localeLabels[locale] ?? locale.toUpperCase();
+}
+
+/**
+ * Get a locale's text direction
+ *
+ * Uses `localeDirections` from configureLocales(), then the language code
+ * (`ar`, `he`, `fa`, `ur`… are right-to-left).
+ */
+export function getLocaleDirection(locale: Locale): TextDirection {
+  const configured = localeDirections[locale];
+  if (configured) return configured;
+  return RTL_LANGUAGES.has(locale.split('-')[0].toLowerCase()) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Get the `lang` and `dir` attributes for the root `<html>` element
+ *
+ * @example
+ * // app/[locale]/layout.tsx
+ * <html {...getHtmlAttributes(locale)}>
+ */
+export function getHtmlAttributes(locale: Locale): { lang: string; dir: TextDirection } {
+  return { lang: locale, dir: getLocaleDirection(locale) };
+}
+
+/**
+ * Get the locales to try, in order, for a locale's strings
+ *
+ * The locale, then its configured fallbacks or else its base language
+ * (`fr-CA` → `fr`), then the default locale, then `en` when it is one of the
+ * configured locales, as English was the fallback before chains existed.
+ *
+ * @example
+ * configureLocales({ locales: ['en', 'fr', 'fr-CA'], defaultLocale: 'en' })
+ * getFallbackChain('fr-CA') // ['fr-CA', 'fr', 'en']
+ */
+export function getFallbackChain(locale: Locale): Locale[] {
+  const lastResort = state.locales.includes(LAST_RESORT_LOCALE) ? [LAST_RESORT_LOCALE] : [];
+  return [...new Set([locale, ...getOwnFallbacks(locale), state.defaultLocale, ...lastResort])];
+}
+
+function getOwnFallbacks(locale: Locale): Locale[] {
+  const language = locale.split('-')[0] as Locale;
+  return localeFallbacks[locale] ?? (language === locale ? [] : [language]);
+}
+
+export interface LocalizedStringLookup {
+  /** Resolved text ('' when no locale in the chain has one) */
+  value: string;
+  /** Locale the text came from */
+  locale?: Locale;
+  /** True when the text is not in the requested locale */
+  fallback: boolean;
+}
+
+/**
+ * Look up a LocalizedString through the locale's fallback chain
+ *
+ * Reports strings missing in the requested locale to `onMissingTranslation`,
+ * and warns once per string in development when the text comes from the
+ * default locale rather than the locale's own fallbacks.
+ *
+ * @example
+ * resolveLocalizedString({ en: 'Hello', fr: 'Bonjour' }, 'fr-CA')
+ * // { value: 'Bonjour', locale: 'fr', fallback: true }
+ */
+export function resolveLocalizedString(
+  localized: Readonly<Record<string, string>>,
+  locale: Locale
+): LocalizedStringLookup {
+  const resolvedLocale = getFallbackChain(locale).find((candidate) => localized[candidate]);
+  const value = resolvedLocale ? localized[resolvedLocale] : '';
+  if (resolvedLocale === locale) return { value, locale, fallback: false };
+
+  state.onMissingTranslation?.({ locale, resolvedLocale, value, localized });
+
+  const expected = resolvedLocale !== undefined && getOwnFallbacks(locale).includes(resolvedLocale);
+  const key = `${locale}:${value}`;
+  if (state.warnOnFallback && !expected && !state.warnedFallbacks.has(key)) {
+    state.warnedFallbacks.add(key);
+    console.warn(
+      resolvedLocale
+        ? `[i18n] Missing "${locale}" translation, showing "${resolvedLocale}": ${value}`
+        : `[i18n] Missing "${locale}" translation with no fallback: ${JSON.stringify(localized)}`
+    );
+  }
+
+  return { value, locale: resolvedLocale, fallback: true };
+}
@@ -0,0 +1,69 @@
+// ABOUTME: Tests for the Intl-based formatting helpers
+// ABOUTME: Validates prices, numbers, dates, relative times and durations per locale
+
+import { describe, it, expect } from 'vitest'
+import {
+  formatNumber,
+  formatPrice,
+  formatDate,
+  formatRelativeTime,
+  formatDuration,
+  createFormatter,
+} from './format'
+
+// Intl separates French digit groups with narrow no-break spaces
+const spaces = (text: string) => text.replace(/\s/g, ' ')
+
+describe('formatPrice', () => {
+  it('should follow the locale currency pattern', () => {
+    expect(spaces(formatPrice(1000.5, 'CAD', { locale: 'fr-CA' }))).toBe('1 000,50 $')
+    expect(formatPrice(49, 'USD', { locale: 'en' })).toBe('$49')
+    expect(formatPrice(49.9, 'EUR', { locale: 'en' })).toBe('€49.90')
+  })
+
+  it('should prefix a currency symbol to the formatted number', () => {
+    expect(formatPrice(1200, '$', { locale: 'en' })).toBe('$1,200')
+  })
+})
+
+describe('formatNumber', () => {
+  it('should use locale separators', () => {
+    expect(spaces(formatNumber(1234.56, { locale: 'fr' }))).toBe('1 234,56')
+    expect(formatNumber(0.25, { locale: 'en', style: 'percent' })).toBe('25%')
+  })
+})
+
+describe('formatDate', () => {
+  it('should format date-only strings in UTC and keep unparseable strings', () => {
+    expect(formatDate('2024-01-15', { locale: 'fr', dateStyle: 'long' })).toBe('15 janvier 2024')
+    expect(formatDate('2024-01-15', { locale: 'en' })).toBe('Jan 15, 2024')
+    expect(formatDate('Today', { locale: 'en' })).toBe('Today')
+  })
+})
+
+describe('formatRelativeTime', () => {
+  it('should pick the largest fitting unit', () => {
+    const now = new Date('2024-06-10T12:00:00Z')
+
+    expect(formatRelativeTime('2024-06-10T10:00:00Z', { locale: 'en', now })).toBe('2 hours ago')
+    expect(formatRelativeTime('2024-06-11T12:00:00Z', { locale: 'fr', now })).toBe('demain')
+    expect(formatRelativeTime(now, { locale: 'en', now })).toBe('now')
+  })
+})
+
+describe('formatDuration', () => {
+  it('should format seconds and parts', () => {
+    expect(formatDuration(5400, { locale: 'en' })).toBe('1 hour 30 minutes')
+    expect(spaces(formatDuration({ minutes: 5 }, { locale: 'fr', style: 'short' }))).toBe('5 min')
+    expect(formatDuration(0, { locale: 'en' })).toBe('0 seconds')
+  })
+})
+
+describe('createFormatter', () => {
+  it('should bind the locale and default currency', () => {
+    const format = createFormatter('fr-CA', { currency: 'CAD' })
+
+    expect(spaces(format.formatPrice(1000.5))).toBe('1 000,50 $')
+    expect(format.formatDate('2024-01-15', { dateStyle: 'short' })).toBe('2024-01-15')
+  })
+})
@@ -0,0 +1,232 @@
+// ABOUTME: Locale-aware formatting for prices, numbers, dates, relative times and durations
+// ABOUTME: Thin wrappers over Intl that default to the configured locale
+
+import { getDefaultLocale, type Locale } from './config';
+
+export interface LocaleOption {
+  /** Locale to format for @default the configured default locale */
+  locale?: Locale;
+}
+
+export type NumberFormatOptions = Intl.NumberFormatOptions & LocaleOption;
+
+export type DateFormatOptions = Intl.DateTimeFormatOptions & LocaleOption;
+
+export interface RelativeTimeFormatOptions extends LocaleOption {
+  /** Reference time @default now */
+  now?: Date | string | number;
+  /** 'auto' allows "yesterday" instead of "1 day ago" @default 'auto' */
+  numeric?: 'always' | 'auto';
+  style?: 'long' | 'short' | 'narrow';
+}
+
+export interface DurationParts {
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+}
+
+export interface DurationFormatOptions extends LocaleOption {
+  style?: 'long' | 'short' | 'narrow';
+}
+
+/** ISO 4217 currency code, e.g. 'CAD' */
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDate(value: Date | string | number): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+/**
+ * Format a number with the locale's grouping and decimal separators
+ *
+ * @example
+ * formatNumber(1234.5, { locale: 'fr' }) // '1 234,5'
+ * formatNumber(0.25, { style: 'percent' }) // '25%'
+ */
+export function formatNumber(value: number, options: NumberFormatOptions = {}): string {
+  const { locale = getDefaultLocale(), ...format } = options;
+  return new Intl.NumberFormat(locale, format).format(value);
+}
+
+/**
+ * Format a price
+ *
+ * `currency` is an ISO 4217 code; whole amounts drop the cents unless
+ * `minimumFractionDigits` is set. A non-code such as `'$'` is prefixed to
+ * the locale-formatted number, for configs that stored a symbol.
+ *
+ * @example
+ * formatPrice(1000.5, 'CAD', { locale: 'fr-CA' }) // '1 000,50 $'
+ * formatPrice(49, 'USD', { locale: 'en' }) // '$49'
+ */
+export function formatPrice(
+  amount: number,
+  currency: string,
+  options: NumberFormatOptions = {}
+): string {
+  const { locale = getDefaultLocale(), ...format } = options;
+  const fractionDigits = Number.isInteger(amount) ? 0 : 2;
+
+  if (!CURRENCY_CODE.test(currency)) {
+    const number = formatNumber(amount, {
+      locale,
+      minimumFractionDigits: fractionDigits,
+      ...format,
+    });
+    return `${currency}${number}`;
+  }
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    ...format,
+  }).format(amount);
+}
+
+/**
+ * Format a date
+ *
+ * Strings are parsed with `new Date()`; unparseable strings are returned
+ * unchanged so preformatted dates still render. Date-only strings
+ * ('2024-01-15') format in UTC unless `timeZone` is set, so they show the
+ * same day on the server and in every visitor's browser.
+ *
+ * @example
+ * formatDate('2024-01-15', { locale: 'fr', dateStyle: 'long' }) // '15 janvier 2024'
+ */
+export function formatDate(value: Date | string | number, options: DateFormatOptions = {}): string {
+  const { locale = getDefaultLocale(), ...format } = options;
+  const date = toDate(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+
+  const hasFields = Object.keys(format).some((key) => key !== 'timeZone');
+  const resolved: Intl.DateTimeFormatOptions = hasFields
+    ? { ...format }
+    : { ...format, dateStyle: 'medium' };
+  if (typeof value === 'string' && DATE_ONLY.test(value)) resolved.timeZone ??= 'UTC';
+  return new Intl.DateTimeFormat(locale, resolved).format(date);
+}
+
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 24 * 3600],
+  ['month', 30 * 24 * 3600],
+  ['week', 7 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60],
+  ['second', 1],
+];
+
+/**
+ * Format a date relative to now, in the largest fitting unit
+ *
+ * @example
+ * formatRelativeTime(Date.now() - 2 * 3600_000) // '2 hours ago'
+ * formatRelativeTime(tomorrow, { locale: 'fr' }) // 'demain'
+ */
+export function formatRelativeTime(
+  value: Date | string | number,
+  options: RelativeTimeFormatOptions = {}
+): string {
+  const { locale = getDefaultLocale(), now = Date.now(), numeric = 'auto', style = 'long' } = options;
+  const seconds = (toDate(value).getTime() - toDate(now).getTime()) / 1000;
+  const [unit, size] =
+    RELATIVE_UNITS.find(([, unitSeconds]) => Math.abs(seconds) >= unitSeconds) ??
+    RELATIVE_UNITS[RELATIVE_UNITS.length - 1];
+
+  return new Intl.RelativeTimeFormat(locale, { numeric, style }).format(
+    Math.round(seconds / size),
+    unit
+  );
+}
+
+function splitSeconds(value: number): DurationParts {
+  const total = Math.round(value);
+  return {
+    days: Math.floor(total / 86400),
+    hours: Math.floor((total % 86400) / 3600),
+    minutes: Math.floor((total % 3600) / 60),
+    seconds: total % 60,
+  };
+}
+
+/**
+ * Format a duration given in seconds or as parts
+ *
+ * Zero parts are left out; a zero duration formats as zero seconds.
+ *
+ * @example
+ * formatDuration(5400) // '1 hour 30 minutes'
+ * formatDuration({ minutes: 5 }, { locale: 'fr', style: 'short' }) // '5 min'
+ */
+export function formatDuration(
+  value: number | DurationParts,
+  options: DurationFormatOptions = {}
+): string {
+  const { locale = getDefaultLocale(), style = 'long' } = options;
+  const parts = typeof value === 'number' ? splitSeconds(value) : value;
+  const units: Array<[keyof DurationParts, string]> = [
+    ['days', 'day'],
+    ['hours', 'hour'],
+    ['minutes', 'minute'],
+    ['seconds', 'second'],
+  ];
+  const formatUnit = (unit: string, amount: number) =>
+    new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: style }).format(amount);
+
+  const formatted = units
+    .filter(([key]) => parts[key])
+    .map(([key, unit]) => formatUnit(unit, parts[key]!));
+
+  return formatted.length ? formatted.join(' ') : formatUnit('second', 0);
+}
+
+export interface FormatterOptions {
+  /** ISO 4217 code used by formatPrice() when none is given */
+  currency?: string;
+  /** Time zone for dates, e.g. 'America/Toronto' */
+  timeZone?: string;
+}
+
+export interface Formatter {
+  locale: Locale;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatPrice: (amount: number, currency?: string, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatRelativeTime: (
+    value: Date | string | number,
+    options?: Omit<RelativeTimeFormatOptions, 'locale'>
+  ) => string;
+  formatDuration: (
+    value: number | DurationParts,
+    options?: Omit<DurationFormatOptions, 'locale'>
+  ) => string;
+}
+
+/**
+ * Bind the formatting helpers to a locale
+ *
+ * @example
+ * const format = createFormatter('fr-CA', { currency: 'CAD' })
+ * format.formatPrice(1000.5) // '1 000,50 $'
+ */
+export function createFormatter(
+  locale: Locale = getDefaultLocale(),
+  { currency = 'USD', timeZone }: FormatterOptions = {}
+): Formatter {
+  return {
+    locale,
+    formatNumber: (value, options) => formatNumber(value, { ...options, locale }),
+    formatPrice: (amount, code = currency, options) =>
+      formatPrice(amount, code, { ...options, locale }),
+    formatDate: (value, options) =>
+      formatDate(value, { ...(timeZone && { timeZone }), ...options, locale }),
+    formatRelativeTime: (value, options) => formatRelativeTime(value, { ...options, locale }),
+    formatDuration: (value, options) => formatDuration(value, { ...options, locale }),
+  };
+}
@@ -1,8 +1,118 @@
 // ABOUTME: i18n configuration export
 // ABOUTME: Export i18n types and configuration
 
-export { locales, defaultLocale } from './config';
-export type { Locale } from './config';
+export {
+  locales,
+  getDefaultLocale,
+  localeNames,
+  localeLabels,
+  localeDirections,
+  localeFallbacks,
+  configureLocales,
+  isLocale,
+  getLocaleName,
+  getLocaleLabel,
+  getLocaleDirection,
+  getHtmlAttributes,
+  getFallbackChain,
+  resolveLocalizedString,
+} from './config';
+export type {
+  Locale,
+  LocaleRegistry,
+  I18nConfig,
+  TextDirection,
+  MissingTranslation,
+  LocalizedStringLookup,
+} from './config';
 export { getLocaleFromCookie, setLocaleCookie, LOCALE_COOKIE_NAME } from './locale-cookie';
-export { translateSlug, defaultSlugTranslations } from './slug-translations';
-export type { SlugTranslations } from './slug-translations';
+export { negotiateLocale } from './negotiate';
+export {
+  defineRoutes,
+  configureRoutes,
+  getRoutes,
+  matchRoute,
+  getRouteHref,
+  translateSlug,
+  stripLocalePrefix,
+  getAlternatePaths,
+  checkRoutes,
+  formatRouteIssues,
+} from './routes';
+export type {
+  RouteManifest,
+  LocalizedSlugs,
+  RouteMatch,
+  RouteIssue,
+  RouteIssueKind,
+} from './routes';
+export {
+  defaultMessages,
+  defineMessages,
+  formatMessage,
+  createTranslator,
+} from './messages';
+export type {
+  MessageCatalog,
+  MessageKey,
+  MessageOverrides,
+  MessageValues,
+  Translator,
+  TranslatorOptions,
+} from './messages';
+export {
+  PSEUDO_LOCALE,
+  configurePseudoLocale,
+  isPseudoLocale,
+  getPseudoSourceLocale,
+  pseudoLocalize,
+} from './pseudo';
+export type { PseudoLocaleOptions } from './pseudo';
+export {
+  formatNumber,
+  formatPrice,
+  formatDate,
+  formatRelativeTime,
+  formatDuration,
+  createFormatter,
+} from './format';
+export type {
+  Formatter,
+  FormatterOptions,
+  NumberFormatOptions,
+  DateFormatOptions,
+  RelativeTimeFormatOptions,
+  DurationFormatOptions,
+  DurationParts,
+} from './format';
+export {
+  generateTranslationReport,
+  formatTranslationReport,
+  walkLocalizedStrings,
+} from './translation-report';
+export type {
+  TranslationIssue,
+  TranslationIssueKind,
+  LocaleCoverage,
+  TranslationReport,
+  TranslationReportOptions,
+  TranslatableConfig,
+} from './translation-report';
+export {
+  extractTranslationUnits,
+  exportTranslations,
+  parseTranslations,
+  importTranslations,
+  formatTranslationImport,
+} from './translation-exchange';
+export type {
+  TranslationFormat,
+  TranslationConfigName,
+  TranslationUnit,
+  TranslationDocument,
+  TranslationExportOptions,
+  TranslationImportOptions,
+  TranslationImportIssue,
+  TranslationImportIssueKind,
+  TranslationImportResult,
+} from './translation-exchange';
@@ -1,7 +1,7 @@
 // ABOUTME: Utilities for persisting user locale preference via cookies
 // ABOUTME: Allows remembering language choice across sessions
 
-import { type Locale } from './config';
+import { isLocale, type Locale } from './config';
 
 export const LOCALE_COOKIE_NAME = 'NEXT_LOCALE';
 
@@ -14,8 +14,8 @@ export function getLocaleFromCookie(): Locale | null {
 
   if (!cookie) return null;
 
-  const value = cookie.split('=')[1] as Locale;
-  return value === 'fr' || value === 'en' ? value : null;
+  const value = decodeURIComponent(cookie.split('=')[1]);
+  return isLocale(value) ? value : null;
 }
 
 export function setLocaleCookie(locale: Locale) {
@@ -0,0 +1,94 @@
+// ABOUTME: Tests for the UI message catalog and ICU-style message formatting
+// ABOUTME: Validates interpolation, plurals, selects, overrides and locale fallback
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { formatMessage, createTranslator, defineMessages } from './messages'
+import { getErrorMessage } from '../forms/errors'
+import { configureLocales } from './config'
+
+describe('formatMessage', () => {
+  it('should interpolate values and leave unknown ones in place', () => {
+    expect(formatMessage('Step {step} of {total}', { step: 2, total: 4 })).toBe('Step 2 of 4')
+    expect(formatMessage('Hello {name}')).toBe('Hello {name}')
+  })
+
+  it('should pick plural branches with exact matches and CLDR categories', () => {
+    const files = '{count, plural, =0 {No files} one {# file} other {# files}}'
+
+    expect(formatMessage(files, { count: 0 }, 'en')).toBe('No files')
+    expect(formatMessage(files, { count: 1 }, 'en')).toBe('1 file')
+    expect(formatMessage(files, { count: 1200 }, 'en')).toBe('1,200 files')
+    expect(formatMessage('{count, plural, one {# jour} other {# jours}}', { count: 0 }, 'fr')).toBe(
+      '0 jour'
+    )
+  })
+
+  it('should pick select branches and format nested arguments', () => {
+    const message = '{kind, select, pdf {PDF from {author}} other {File}}'
+
+    expect(formatMessage(message, { kind: 'pdf', author: 'Ann' })).toBe('PDF from Ann')
+    expect(formatMessage(message, { kind: 'zip' })).toBe('File')
+  })
+
+  it('should reject unbalanced braces', () => {
+    expect(() => formatMessage('Step {step')).toThrow(/Unbalanced/)
+  })
+})
+
+describe('createTranslator', () => {
+  const messages = defineMessages({
+    en: { servicePage: { ctaPrimary: 'Book a call' } },
+    es: { multiStepForm: { progress: 'Paso {step} de {total}' } },
+  })
+
+  it('should prefer app overrides over the built-in catalog', () => {
+    const t = createTranslator({ locale: 'en', messages })
+
+    expect(t('servicePage.ctaPrimary')).toBe('Book a call')
+    expect(t('multiStepForm.next')).toBe('Next')
+  })
+
+  afterEach(() => {
+    configureLocales({ locales: ['fr', 'en'], defaultLocale: 'fr' })
+  })
+
+  it('should fall back to the base language, then the default locale', () => {
+    const canadian = createTranslator({ locale: 'fr-CA' })
+    const spanish = createTranslator({ locale: 'es', messages })
+
+    expect(canadian('countdown.days', { count: 2 })).toBe('Jours')
+    expect(spanish('multiStepForm.progress', { step: 1, total: 3 })).toBe('Paso 1 de 3')
+    expect(spanish('multiStepForm.next')).toBe('Suivant')
+  })
+
+  it('should follow configured fallbacks, then English', () => {
+    configureLocales({
+      locales: ['en', 'es', 'es-MX', 'de'],
+      defaultLocale: 'de',
+      fallbacks: { 'es-MX': ['es'] },
+    })
+
+    const mexican = createTranslator({ locale: 'es-MX', messages })
+    const german = createTranslator({ locale: 'de' })
+
+    expect(mexican('multiStepForm.progress', { step: 2, total: 3 })).toBe('Paso 2 de 3')
+    expect(german('multiStepForm.next')).toBe('Next')
+  })
+})
+
+describe('getErrorMessage', () => {
+  it('should read form errors from the catalog with overrides', () => {
+    const messages = defineMessages({ es: { forms: { required: 'Campo obligatorio' } } })
+
+    expect(getErrorMessage('minLength', 'fr', { min: 3 })).toBe(
+      'Doit contenir au moins 3 caractères'
+    )
+    expect(getErrorMessage('fileInvalidType', 'en', { types: 'PDF, PNG' })).toBe(
+      'File must be one of: PDF, PNG'
+    )
+    expect(getErrorMessage('required', 'es', undefined, messages)).toBe('Campo obligatorio')
+    expect(getErrorMessage('email', 'es', undefined, messages)).toBe(
+      'Veuillez entrer une adresse e-mail valide'
+    )
+  })
+})
@@ -0,0 +1,540 @@
+// ABOUTME: Message catalog for the framework's built-in UI strings
+// ABOUTME: Namespaced keys with ICU-style interpolation, plurals and selects, overridable per locale
+
+import { getDefaultLocale, getFallbackChain, type Locale } from './config';
+import { isPseudoLocale, getPseudoSourceLocale, pseudoLocalize } from './pseudo';
+
+const en = {
+  common: {
+    close: 'Close',
+    dismiss: 'Dismiss',
+    learnMore: 'Learn more',
+    toggleMenu: 'Toggle menu',
+    breadcrumb: 'Breadcrumb',
+    scrollForMore: 'Scroll for more',
+    copyCode: 'Copy code',
+    copied: 'Copied!',
+  },
+  languageSwitcher: {
+    label: 'Language',
+    switchTo: 'Switch to {language}',
+  },
+  themeToggle: {
+    label: 'Color scheme',
+    system: 'System',
+    light: 'Light',
+    dark: 'Dark',
+  },
+  multiStepForm: {
+    next: 'Next',
+    previous: 'Previous',
+    submit: 'Submit',
+    progress: 'Step {step} of {total}',
+  },
+  fileUpload: {
+    dropZone: 'Drag & drop files here, or click to select',
+    dropActive: 'Drop files here',
+    browse: 'Browse files',
+    remove: 'Remove',
+    fileTooLarge: '{name}: File is too large',
+    tooManyFiles: 'Too many files',
+    invalidType: '{name}: Invalid file type',
+  },
+  countdown: {
+    days: '{count, plural, one {Day} other {Days}}',
+    hours: '{count, plural, one {Hour} other {Hours}}',
+    minutes: '{count, plural, one {Minute} other {Minutes}}',
+    seconds: '{count, plural, one {Second} other {Seconds}}',
+  },
+  blogCard: {
+    byAuthor: 'by {author}',
+    readTime: '{minutes} min read',
+  },
+  features: {
+    keyBenefits: 'Key Benefits:',
+    useCases: 'Use Cases:',
+  },
+  pricing: {
+    monthly: 'Monthly',
+    annual: 'Annual',
+    perPeriod: '/{period, select, monthly {mo} other {yr}}',
+  },
+  testimonials: {
+    previous: 'Previous testimonial',
+    next: 'Next testimonial',
+    goTo: 'Go to testimonial {index}',
+  },
+  contact: {
+    title: 'Contact Us',
+    formTitle: 'Send us a message',
+    name: 'Name',
+    email: 'Email',
+    phone: 'Phone',
+    subject: 'Subject',
+    message: 'Message',
+    attachment: 'Attachment (optional)',
+    send: 'Send Message',
+    sent: 'Sent!',
+    nameRequired: 'Name required (min {min} chars)',
+    emailInvalid: 'Invalid email',
+    messageRequired: 'Message required (min {min} chars)',
+    success: "Message sent! We'll get back to you as soon as possible.",
+    error: 'An error occurred. Please try again.',
+    address: 'Address',
+    hours: 'Hours',
+    openUntil: 'Open • Closes at {time}',
+    closedUntil: 'Closed • Opens at {time}',
+    weekday:
+      '{day, select, monday {Monday} tuesday {Tuesday} wednesday {Wednesday} ' +
+      'thursday {Thursday} friday {Friday} saturday {Saturday} sunday {Sunday} other {{day}}}',
+    defaultLocation: 'Our Office',
+    viewOnMap: 'View on Google Maps',
+    mapAlt: 'Location map',
+    map: 'Map',
+  },
+  forms: {
+    required: 'This field is required',
+    email: 'Please enter a valid email address',
+    phone: 'Please enter a valid phone number',
+    url: 'Please enter a valid URL',
+    passwordTooShort: 'Password must be at least 8 characters',
+    passwordNoUppercase: 'Password must contain at least one uppercase letter',
+    passwordNoLowercase: 'Password must contain at least one lowercase letter',
+    passwordNoNumber: 'Password must contain at least one number',
+    postalCode: 'Invalid postal code',
+    creditCard: 'Invalid credit card number',
+    fileTooLarge: 'File size must be less than {maxSize}MB',
+    fileInvalidType: 'File must be one of: {types}',
+    mustAccept: 'You must accept to continue',
+    minLength: 'Must be at least {min} characters',
+    maxLength: 'Must be no more than {max} characters',
+    min: 'Must be at least {min}',
+    max: 'Must be no more than {max}',
+    invalidFormat: 'Invalid format',
+  },
+  servicePage: {
+    ctaTitle: 'Need our services?',
+    ctaDescription: 'Contact us today to discuss your needs and discover how we can help you.',
+    ctaPrimary: 'Talk to a CPA',
+    ctaSecondary: 'Back to home',
+  },
+  recruiting: {
+    title: 'LMKP is hiring!',
+    description:
+      'We are always looking for talented individuals who want to put their skills at the ' +
+      'service of Quebec businesses. Would you like to work in a dynamic and challenging ' +
+      "environment? Do you want to work for the benefit of Quebec's economic fabric?",
+    callToAction: 'Join us! Send us your CV!',
+    sendCv: 'Send a CV',
+  },
+  securePortal: {
+    title: 'Secure Portal',
+    intro: 'At LMKP, client comfort is a priority.',
+    description:
+      'We have implemented a secure document portal that facilitates the sending, review and ' +
+      'approval of documents, in full collaboration with our clients.',
+    access: 'ACCESS SECURE PORTAL',
+  },
+  personalTaxes: {
+    title: 'Personal Taxes',
+    questionnaires: 'GET QUESTIONNAIRES IN ENGLISH',
+  },
+  styleGuide: {
+    title: 'Style Guide',
+    subtitle: 'Brand design elements and components',
+    brandIdentity: 'Brand Identity',
+    colorPalette: 'Color Palette',
+    gradients: 'Gradients',
+    colorSchemes: 'Color Schemes',
+    contrast: 'Color Contrast',
+    contrastDescription:
+      'WCAG 2.2 contrast of the text and background pairings used by the components',
+    contrastPairing: 'Pairing',
+    contrastRatio: 'Ratio',
+    contrastSuggestion: 'Nearest passing shade',
+    typography: 'Typography',
+    fontFamilies: 'Font Families',
+    typeScale: 'Type Scale',
+    headings: 'Headings',
+    bodyText: 'Body Text',
+    buttons: 'Buttons',
+    formComponents: 'Form Components',
+    uiComponents: 'UI Components',
+    toastTitle: 'Toast Notifications',
+    toastDescription: 'Feedback messages for success, errors, warnings, and information',
+    animations: 'Animations',
+    animationsDescription:
+      'Scroll-triggered animations to enhance engagement. ' +
+      'Automatically respects reduced motion preferences.',
+    animationExample: 'Animation Example',
+    animationHint: 'Scroll up and down to see the animation',
+    stagger: 'Stagger Effect',
+    staggerDescription: 'Child elements animate in sequence with AnimatedItem',
+    firstItem: 'First item',
+    secondItem: 'Second item',
+    thirdItem: 'Third item',
+    usageExample: 'Usage Example',
+    spacingScale: 'Spacing Scale',
+    componentExamples: 'Component Examples',
+    toastSuccess: 'Success',
+    toastSuccessMessage: 'Changes saved successfully!',
+    toastError: 'Error',
+    toastErrorMessage: 'Failed to submit form',
+    toastWarning: 'Warning',
+    toastWarningMessage: 'You have unsaved changes',
+    toastInfo: 'Info with Action',
+    toastInfoMessage: 'New features available',
+  },
+};
+
+/** Shape of a message catalog: namespace → key → ICU-style message */
+export type MessageCatalog = { [N in keyof typeof en]: { [K in keyof (typeof en)[N]]: string } };
+
+/** Namespaced message key, e.g. `'fileUpload.browse'` */
+export type MessageKey = {
+  [N in keyof MessageCatalog]: `${N}.${keyof MessageCatalog[N] & string}`;
+}[keyof MessageCatalog];
+
+/** Partial catalog used to override or add messages for one locale */
+export type MessageOverrides = { [N in keyof MessageCatalog]?: Partial<MessageCatalog[N]> };
+
+/** Interpolation values for a message */
+export type MessageValues = Record<string, string | number>;
+
+/** Translate a message key for the translator's locale */
+export type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+const fr: MessageCatalog = {
+  common: {
+    close: 'Fermer',
+    dismiss: 'Ignorer',
+    learnMore: 'En savoir plus',
+    toggleMenu: 'Afficher le menu',
+    breadcrumb: "Fil d'Ariane",
+    scrollForMore: 'Défiler pour en voir plus',
+    copyCode: 'Copier le code',
+    copied: 'Copié!',
+  },
+  languageSwitcher: {
+    label: 'Langue',
+    switchTo: 'Changer de langue : {language}',
+  },
+  themeToggle: {
+    label: 'Thème de couleurs',
+    system: 'Système',
+    light: 'Clair',
+    dark: 'Sombre',
+  },
+  multiStepForm: {
+    next: 'Suivant',
+    previous: 'Précédent',
+    submit: 'Soumettre',
+    progress: 'Étape {step} de {total}',
+  },
+  fileUpload: {
+    dropZone: 'Glissez-déposez des fichiers ici, ou cliquez pour sélectionner',
+    dropActive: 'Déposez les fichiers ici',
+    browse: 'Parcourir les fichiers',
+    remove: 'Retirer',
+    fileTooLarge: '{name}: Fichier trop volumineux',
+    tooManyFiles: 'Trop de fichiers',
+    invalidType: '{name}: Type de fichier invalide',
+  },
+  countdown: {
+    days: '{count, plural, one {Jour} other {Jours}}',
+    hours: '{count, plural, one {Heure} other {Heures}}',
+    minutes: '{count, plural, one {Minute} other {Minutes}}',
+    seconds: '{count, plural, one {Seconde} other {Secondes}}',
+  },
+  blogCard: {
+    byAuthor: 'par {author}',
+    readTime: '{minutes} min de lecture',
+  },
+  features: {
+    keyBenefits: 'Avantages clés :',
+    useCases: "Cas d'usage :",
+  },
+  pricing: {
+    monthly: 'Mensuel',
+    annual: 'Annuel',
+    perPeriod: '/{period, select, monthly {mois} other {an}}',
+  },
+  testimonials: {
+    previous: 'Témoignage précédent',
+    next: 'Témoignage suivant',
+    goTo: 'Aller au témoignage {index}',
+  },
+  contact: {
+    title: 'Contactez-nous',
+    formTitle: 'Envoyez-nous un message',
+    name: 'Nom',
+    email: 'Email',
+    phone: 'Téléphone',
+    subject: 'Sujet',
+    message: 'Message',
+    attachment: 'Pièce jointe (optionnel)',
+    send: 'Envoyer le message',
+    sent: 'Envoyé!',
+    nameRequired: 'Nom requis (min {min} caractères)',
+    emailInvalid: 'Email invalide',
+    messageRequired: 'Message requis (min {min} caractères)',
+    success: 'Message envoyé! Nous vous répondrons dans les plus brefs délais.',
+    error: "Une erreur s'est produite. Veuillez réessayer.",
+    address: 'Adresse',
+    hours: 'Horaires',
+    openUntil: 'Ouvert • Ferme à {time}',
+    closedUntil: 'Fermé • Ouvre à {time}',
+    weekday:
+      '{day, select, monday {Lundi} tuesday {Mardi} wednesday {Mercredi} ' +
+      'thursday {Jeudi} friday {Vendredi} saturday {Samedi} sunday {Dimanche} other {{day}}}',
+    defaultLocation: 'Notre bureau',
+    viewOnMap: 'Voir sur Google Maps',
+    mapAlt: "Carte de l'emplacement",
+    map: 'Carte',
+  },
+  forms: {
+    required: 'Ce champ est obligatoire',
+    email: 'Veuillez entrer une adresse e-mail valide',
+    phone: 'Veuillez entrer un numéro de téléphone valide',
+    url: 'Veuillez entrer une URL valide',
+    passwordTooShort: 'Le mot de passe doit contenir au moins 8 caractères',
+    passwordNoUppercase: 'Le mot de passe doit contenir au moins une lettre majuscule',
+    passwordNoLowercase: 'Le mot de passe doit contenir au moins une lettre minuscule',
+    passwordNoNumber: 'Le mot de passe doit contenir au moins un chiffre',
+    postalCode: 'Code postal invalide',
+    creditCard: 'Numéro de carte de crédit invalide',
+    fileTooLarge: 'La taille du fichier doit être inférieure à {maxSize}Mo',
+    fileInvalidType: 'Le fichier doit être de type : {types}',
+    mustAccept: 'Vous devez accepter pour continuer',
+    minLength: 'Doit contenir au moins {min} caractères',
+    maxLength: 'Ne doit pas dépasser {max} caractères',
+    min: 'Doit être au moins {min}',
+    max: 'Ne doit pas dépasser {max}',
+    invalidFormat: 'Format invalide',
+  },
+  servicePage: {
+    ctaTitle: 'Besoin de nos services?',
+    ctaDescription:
+      "Contactez-nous dès aujourd'hui pour discuter de vos besoins et découvrir " +
+      'comment nous pouvons vous aider.',
+    ctaPrimary: 'Parlez à un CPA',
+    ctaSecondary: "Retour à l'accueil",
+  },
+  recruiting: {
+    title: 'LMKP recrute!',
+    description:
+      'Nous sommes toujours à la recherche de talents qui désirent mettre leurs compétences ' +
+      'au service des entreprises québécoises. Vous souhaitez évoluer dans un environnement ' +
+      'dynamique et riche en défis? Vous souhaitez œuvrer en faveur du tissu économique ' +
+      'Québécois?',
+    callToAction: 'Rejoignez-nous! Envoyez-nous votre CV!',
+    sendCv: 'Envoyer un CV',
+  },
+  securePortal: {
+    title: 'Portail sécurisé',
+    intro: 'Chez LMKP, le confort de nos clients est une priorité.',
+    description:
+      "Nous avons alors mis en œuvre un portail de documents sécurisé qui facilite l'envoi, " +
+      "l'examen et l'approbation de documents, en pleine collaboration avec nos clients.",
+    access: 'ACCÉDER AU PORTAIL SÉCURISÉ',
+  },
+  personalTaxes: {
+    title: 'Impôts personnels',
+    questionnaires: 'OBTENIR LES QUESTIONNAIRES EN FRANÇAIS',
+  },
+  styleGuide: {
+    title: 'Guide de style',
+    subtitle: 'Éléments de design et composants de la marque',
+    brandIdentity: 'Identité de marque',
+    colorPalette: 'Palette de couleurs',
+    gradients: 'Dégradés',
+    colorSchemes: 'Schémas de couleurs',
+    contrast: 'Contraste des couleurs',
+    contrastDescription:
+      'Contraste WCAG 2.2 des paires de texte et de fond utilisées par les composants',
+    contrastPairing: 'Paire',
+    contrastRatio: 'Ratio',
+    contrastSuggestion: 'Teinte conforme la plus proche',
+    typography: 'Typographie',
+    fontFamilies: 'Familles de polices',
+    typeScale: 'Échelle typographique',
+    headings: 'Titres',
+    bodyText: 'Corps de texte',
+    buttons: 'Boutons',
+    formComponents: 'Composants de formulaire',
+    uiComponents: 'Composants UI',
+    toastTitle: 'Notifications Toast',
+    toastDescription: 'Messages de retour pour succès, erreurs, avertissements et informations',
+    animations: 'Animations',
+    animationsDescription:
+      "Animations déclenchées par le défilement pour améliorer l'engagement. " +
+      'Respecte automatiquement les préférences de mouvement réduit.',
+    animationExample: "Exemple d'animation",
+    animationHint: "Faites défiler vers le haut et vers le bas pour voir l'animation",
+    stagger: 'Effet de décalage',
+    staggerDescription: "Les éléments enfants s'animent en séquence avec AnimatedItem",
+    firstItem: 'Premier élément',
+    secondItem: 'Deuxième élément',
+    thirdItem: 'Troisième élément',
+    usageExample: "Exemple d'utilisation",
+    spacingScale: "Échelle d'espacement",
+    componentExamples: 'Exemples de composants',
+    toastSuccess: 'Succès',
+    toastSuccessMessage: 'Modifications enregistrées!',
+    toastError: 'Erreur',
+    toastErrorMessage: 'Échec de la soumission du formulaire',
+    toastWarning: 'Avertissement',
+    toastWarningMessage: 'Modifications non enregistrées',
+    toastInfo: 'Info avec action',
+    toastInfoMessage: 'Nouvelles fonctionnalités disponibles',
+  },
+};
+
+/**
+ * Built-in catalogs; other locales fall back to English
+ */
+export const defaultMessages: Record<string, MessageCatalog> = { en, fr };
+
+/**
+ * Type helper for app message overrides, keyed by locale
+ *
+ * @example
+ * export const messages = defineMessages({
+ *   en: { servicePage: { ctaPrimary: 'Book a call' } },
+ *   es: { multiStepForm: { next: 'Siguiente', progress: 'Paso {step} de {total}' } },
+ * })
+ */
+export function defineMessages(
+  messages: Partial<Record<Locale, MessageOverrides>>
+): Partial<Record<Locale, MessageOverrides>> {
+  return messages;
+}
+
+function findClosingBrace(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced braces in message "${text}"`);
+}
+
+function parseOptions(text: string): Map<string, string> {
+  const options = new Map<string, string>();
+  let i = 0;
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(text, open);
+    options.set(text.slice(i, open).trim(), text.slice(open + 1, close));
+    i = close + 1;
+  }
+  return options;
+}
+
+function formatArgument(argument: string, values: MessageValues, locale: string): string {
+  const [name, type, ...rest] = argument.split(',');
+  const key = name.trim();
+  const value = values[key];
+
+  if (type === undefined) return value === undefined ? `{${key}}` : String(value);
+
+  const options = parseOptions(rest.join(','));
+  if (type.trim() === 'plural') {
+    const count = Number(value);
+    const option =
+      options.get(`=${count}`) ??
+      options.get(new Intl.PluralRules(locale).select(count)) ??
+      options.get('other') ??
+      '';
+    return formatSegment(option, values, locale, count);
+  }
+  if (type.trim() === 'select') {
+    const option = options.get(String(value)) ?? options.get('other') ?? '';
+    return formatSegment(option, values, locale);
+  }
+  throw new Error(`Unsupported message argument type "${type.trim()}"`);
+}
+
+function formatSegment(
+  text: string,
+  values: MessageValues,
+  locale: string,
+  count?: number
+): string {
+  let result = '';
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '#' && count !== undefined) {
+      result += new Intl.NumberFormat(locale).format(count);
+      i++;
+    } else if (text[i] === '{') {
+      const close = findClosingBrace(text, i);
+      result += formatArgument(text.slice(i + 1, close), values, locale);
+      i = close + 1;
+    } else {
+      result += text[i++];
+    }
+  }
+  return result;
+}
+
+/**
+ * Format an ICU-style message
+ *
+ * Supports `{name}` interpolation, `{count, plural, =0 {…} one {# item} other {# items}}`
+ * with CLDR plural categories, and `{kind, select, a {…} other {…}}`. Inside a
+ * plural branch `#` is the locale-formatted count. Apostrophes are literal.
+ *
+ * @example
+ * formatMessage('{count, plural, =0 {No files} one {# file} other {# files}}', { count: 3 }, 'en')
+ * // '3 files'
+ */
+export function formatMessage(
+  template: string,
+  values: MessageValues = {},
+  locale: string = getDefaultLocale()
+): string {
+  return formatSegment(template, values, locale);
+}
+
+export interface TranslatorOptions {
+  locale: Locale;
+  /** App overrides and additional locales, keyed by locale */
+  messages?: Partial<Record<Locale, MessageOverrides>>;
+}
+
+/**
+ * Create a translator for the built-in UI strings
+ *
+ * Messages resolve along the locale's fallback chain (getFallbackChain():
+ * its configured fallbacks or base language, then the default locale),
+ * checking the app overrides before the built-in catalog at each step, and
+ * finally the built-in English catalog. Unknown keys return the key itself.
+ * The pseudo-locale pseudo-localizes the source locale's messages.
+ *
+ * @example
+ * const t = createTranslator({ locale: 'fr', messages })
+ * t('multiStepForm.progress', { step: 2, total: 4 }) // 'Étape 2 de 4'
+ */
+export function createTranslator({ locale, messages = {} }: TranslatorOptions): Translator {
+  if (isPseudoLocale(locale)) {
+    const translate = createTranslator({ locale: getPseudoSourceLocale(), messages });
+    return (key, values) => pseudoLocalize(translate(key, values));
+  }
+
+  const overrides = messages as Record<string, MessageOverrides | undefined>;
+  const chain = [...new Set([...getFallbackChain(locale), 'en'])];
+
+  return (key, values) => {
+    const [namespace, name] = key.split('.') as [keyof MessageCatalog, string];
+    for (const candidate of chain) {
+      const catalogs = [overrides[candidate], defaultMessages[candidate]];
+      for (const catalog of catalogs) {
+        const template = (catalog?.[namespace] as Record<string, string> | undefined)?.[name];
+        if (template !== undefined) return formatMessage(template, values, locale);
+      }
+    }
+    return key;
+  };
+}
@@ -0,0 +1,93 @@
+// ABOUTME: Tests for the locale detection middleware and Accept-Language negotiation
+// ABOUTME: Validates cookie/header/default precedence, slug translation, skipped paths and domains
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createLocaleMiddleware } from './middleware'
+import { negotiateLocale } from './negotiate'
+import { configureRoutes, defineRoutes } from './routes'
+import { configureLocales } from './config'
+
+function request(url: string, headers: Record<string, string> = {}) {
+  return new NextRequest(url, { headers })
+}
+
+describe('negotiateLocale', () => {
+  it('should pick the highest quality supported locale', () => {
+    expect(negotiateLocale('de;q=0.9,fr-CA;q=0.8,en;q=0.5', ['en', 'fr'])).toBe('fr')
+    expect(negotiateLocale('pt', ['en', 'pt-BR'])).toBe('pt-BR')
+    expect(negotiateLocale('de, *;q=0.1', ['en', 'fr'])).toBe('en')
+    expect(negotiateLocale('de', ['en', 'fr'])).toBeUndefined()
+  })
+})
+
+describe('createLocaleMiddleware', () => {
+  const middleware = createLocaleMiddleware({
+    locales: ['en', 'fr'],
+    defaultLocale: 'en',
+    routes: defineRoutes({ about: { en: '/about', fr: '/a-propos' } }),
+  })
+
+  it('should prefer the locale cookie over Accept-Language', () => {
+    const response = middleware(
+      request('https://example.com/about?ref=ad', {
+        cookie: 'NEXT_LOCALE=fr',
+        'accept-language': 'en',
+      })
+    )
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toBe('https://example.com/fr/a-propos?ref=ad')
+  })
+
+  it('should fall back to Accept-Language, then the default locale', () => {
+    const negotiated = middleware(request('https://example.com/', { 'accept-language': 'fr-CA' }))
+    const fallback = middleware(request('https://example.com/pricing'))
+
+    expect(negotiated.headers.get('location')).toBe('https://example.com/fr')
+    expect(fallback.headers.get('location')).toBe('https://example.com/en/pricing')
+  })
+
+  it('should pass through prefixed paths, API routes and static files', () => {
+    for (const path of ['/fr/contact', '/api/contact', '/_next/static/app.js', '/logo.svg']) {
+      expect(middleware(request(`https://example.com${path}`)).headers.get('location')).toBeNull()
+    }
+  })
+
+  it('should use domain locales', () => {
+    const domainMiddleware = createLocaleMiddleware({
+      locales: ['en', 'fr'],
+      defaultLocale: 'en',
+      domains: [
+        { domain: 'example.fr', defaultLocale: 'fr' },
+        { domain: 'example.com', defaultLocale: 'en' },
+      ],
+    })
+
+    const unprefixed = domainMiddleware(
+      request('https://example.fr/contact', { 'accept-language': 'en' })
+    )
+    const otherDomain = domainMiddleware(request('https://example.fr/en/about'))
+
+    expect(unprefixed.headers.get('location')).toBe('https://example.fr/fr/contact')
+    expect(otherDomain.headers.get('location')).toBe('https://example.com/en/about')
+  })
+
+  describe('with configured locales and routes', () => {
+    afterEach(() => {
+      configureLocales({ locales: ['fr', 'en'], defaultLocale: 'fr' })
+      configureRoutes(defineRoutes({}))
+    })
+
+    it('should default to the configured locales and route manifest', () => {
+      configureLocales({ locales: ['en', 'es'], defaultLocale: 'en' })
+      configureRoutes(defineRoutes({ about: { en: '/about', es: '/acerca' } }))
+
+      const response = createLocaleMiddleware()(
+        request('https://example.com/about', { 'accept-language': 'es' })
+      )
+
+      expect(response.headers.get('location')).toBe('https://example.com/es/acerca')
+    })
+  })
+})
@@ -0,0 +1,144 @@
+// ABOUTME: Next.js middleware factory for locale detection and redirects
+// ABOUTME: Redirects unprefixed paths by locale cookie, Accept-Language, then default locale
+
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  locales as configuredLocales,
+  getDefaultLocale,
+  type Locale,
+} from './config';
+import { LOCALE_COOKIE_NAME } from './locale-cookie';
+import { negotiateLocale } from './negotiate';
+import { translateSlug, type RouteManifest } from './routes';
+
+export interface LocaleDomain {
+  /** Hostname, e.g. 'example.fr' */
+  domain: string;
+  defaultLocale: Locale;
+  /** Locales served on this domain @default [defaultLocale] */
+  locales?: Locale[];
+}
+
+export interface LocaleMiddlewareOptions {
+  /** @default the locales set with configureLocales() before creating the middleware */
+  locales?: readonly Locale[];
+  /** @default the default locale set with configureLocales() before creating the middleware */
+  defaultLocale?: Locale;
+  /**
+   * Route manifest for translating slugs; unprefixed paths use the (domain's)
+   * default locale's slugs @default the manifest set with configureRoutes()
+   */
+  routes?: RouteManifest;
+  /** Locale per domain, e.g. example.fr → fr and example.com → en */
+  domains?: LocaleDomain[];
+  /** Additional paths to leave untouched (prefixes or patterns) */
+  ignore?: Array<string | RegExp>;
+  /** @default 'NEXT_LOCALE' */
+  cookieName?: string;
+}
+
+// API routes, Next.js internals and files with an extension
+const DEFAULT_IGNORE: RegExp[] = [
+  /^\/api(\/|$)/,
+  /^\/_next(\/|$)/,
+  /^\/_vercel(\/|$)/,
+  /\.[^/]+$/,
+];
+
+function getPathLocale(pathname: string, locales: readonly Locale[]): Locale | undefined {
+  const segment = pathname.split('/')[1];
+  return locales.find((locale) => locale.toLowerCase() === segment?.toLowerCase());
+}
+
+/**
+ * Create a Next.js middleware that redirects paths without a locale prefix
+ *
+ * The locale comes from the `NEXT_LOCALE` cookie, then `Accept-Language`,
+ * then the default locale. Paths that already have a locale prefix pass
+ * through; API routes, `/_next` and static files are skipped. With
+ * `domains`, each domain only serves its own locales and its default
+ * locale replaces the global one; prefixed paths for another domain's
+ * locale redirect to that domain.
+ *
+ * Locales and routes default to the configured ones. `/middleware`
+ * re-exports configureLocales() and configureRoutes() so the app's i18n
+ * module can be imported by middleware.ts without pulling in React.
+ *
+ * @example
+ * // middleware.ts
+ * import { createLocaleMiddleware } from '@zoyth/simple-site-framework/middleware'
+ *
+ * export default createLocaleMiddleware({
+ *   locales: ['en', 'fr'],
+ *   defaultLocale: 'en',
+ *   domains: [
+ *     { domain: 'example.fr', defaultLocale: 'fr' },
+ *     { domain: 'example.com', defaultLocale: 'en' },
+ *   ],
+ * })
+ *
+ * export const config = { matcher: ['/((?!_next|api).*)'] }
+ */
+export function createLocaleMiddleware(options: LocaleMiddlewareOptions = {}) {
+  const {
+    locales = configuredLocales,
+    defaultLocale = getDefaultLocale(),
+    routes,
+    domains = [],
+    ignore = [],
+    cookieName = LOCALE_COOKIE_NAME,
+  } = options;
+
+  const isIgnored = (pathname: string) =>
+    [...DEFAULT_IGNORE, ...ignore].some((pattern) =>
+      typeof pattern === 'string' ? pathname.startsWith(pattern) : pattern.test(pathname)
+    );
+
+  const findDomain = (hostname: string) =>
+    domains.find((entry) => entry.domain.toLowerCase() === hostname.toLowerCase());
+
+  return function localeMiddleware(request: NextRequest): NextResponse {
+    const { pathname, search } = request.nextUrl;
+    if (isIgnored(pathname)) return NextResponse.next();
+
+    const hostname = (request.headers.get('x-forwarded-host') ?? request.nextUrl.hostname)
+      .split(':')[0];
+    const domain = findDomain(hostname);
+    const domainLocales = domain ? (domain.locales ?? [domain.defaultLocale]) : locales;
+
+    const pathLocale = getPathLocale(pathname, locales);
+    if (pathLocale) {
+      // Locale served on another domain
+      if (domain && !domainLocales.includes(pathLocale)) {
+        const target = domains.find((entry) =>
+          (entry.locales ?? [entry.defaultLocale]).includes(pathLocale)
+        );
+        if (target) {
+          const url = request.nextUrl.clone();
+          url.host = target.domain;
+          url.port = '';
+          return NextResponse.redirect(url);
+        }
+      }
+      return NextResponse.next();
+    }
+
+    const cookieLocale = request.cookies.get(cookieName)?.value;
+    const locale =
+      (cookieLocale && domainLocales.includes(cookieLocale) ? cookieLocale : undefined) ??
+      negotiateLocale(request.headers.get('accept-language'), domainLocales) ??
+      domain?.defaultLocale ??
+      defaultLocale;
+
+    const sourceLocale = domain?.defaultLocale ?? defaultLocale;
+    const path =
+      locale === sourceLocale
+        ? pathname
+        : translateSlug(pathname, sourceLocale, locale, routes);
+
+    const url = request.nextUrl.clone();
+    url.pathname = `/${locale}${path === '/' ? '' : path}`;
+    url.search = search;
+    return NextResponse.redirect(url);
+  };
+}
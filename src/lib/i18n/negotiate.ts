@@ -0,0 +1,56 @@
+// ABOUTME: Accept-Language negotiation against the configured locales
+// ABOUTME: Picks the best supported locale by quality value, with language-only fallback
+
+import { type Locale } from './config';
+import { isPseudoLocale } from './pseudo';
+
+interface LanguageRange {
+  tag: string;
+  quality: number;
+}
+
+function parseAcceptLanguage(header: string): LanguageRange[] {
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((param) => param.trim().startsWith('q='));
+      const quality = q ? Number(q.trim().slice(2)) : 1;
+      return { tag: tag.trim().toLowerCase(), quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter((range) => range.tag && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+}
+
+/**
+ * Pick the best locale for an `Accept-Language` header
+ *
+ * Exact tags match first (`fr-CA` → `fr-CA`), then the language alone
+ * (`fr-CA` → `fr`, `pt` → `pt-BR`). Returns undefined when nothing matches.
+ * The pseudo-locale is never negotiated.
+ *
+ * @example
+ * negotiateLocale('fr-CA,fr;q=0.9,en;q=0.8', ['en', 'fr']) // 'fr'
+ */
+export function negotiateLocale(
+  acceptLanguage: string | null | undefined,
+  locales: readonly Locale[]
+): Locale | undefined {
+  if (!acceptLanguage) return undefined;
+
+  const language = (tag: string) => tag.split('-')[0];
+  const candidates = locales.filter((locale) => !isPseudoLocale(locale));
+
+  for (const { tag } of parseAcceptLanguage(acceptLanguage)) {
+    if (tag === '*') return candidates[0];
+
+    const exact = candidates.find((locale) => locale.toLowerCase() === tag);
+    if (exact) return exact;
+
+    const sameLanguage = candidates.find(
+      (locale) => language(locale.toLowerCase()) === language(tag)
+    );
+    if (sameLanguage) return sameLanguage;
+  }
+  return undefined;
+}
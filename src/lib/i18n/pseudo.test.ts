@@ -0,0 +1,52 @@
+// ABOUTME: Tests for pseudo-localization
+// ABOUTME: Validates accenting, padding, brackets and the pseudo-locale in string lookups
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { pseudoLocalize, configurePseudoLocale, PSEUDO_LOCALE } from './pseudo'
+import { createTranslator } from './messages'
+import { negotiateLocale } from './negotiate'
+import { getLocalizedString } from '../content/utils'
+import { getNavigationString } from '../navigation/utils'
+import { getErrorMessage } from '../forms/errors'
+
+describe('pseudoLocalize', () => {
+  it('should accent, pad and bracket text', () => {
+    expect(pseudoLocalize('Contact us')).toBe('[Çöñţåçţ ûš on]')
+    expect(pseudoLocalize('Contact us', { expansion: 0, brackets: false })).toBe('Çöñţåçţ ûš')
+    expect(pseudoLocalize('')).toBe('')
+  })
+
+  it('should keep placeholders, tags and entities intact', () => {
+    expect(pseudoLocalize('© {year} <b>Acme</b> &amp; co', { expansion: 0 })).toBe(
+      '[© {year} <b>Åçɱé</b> &amp; çö]'
+    )
+  })
+})
+
+describe('pseudo-locale lookups', () => {
+  afterEach(() => {
+    configurePseudoLocale({ locale: PSEUDO_LOCALE, sourceLocale: undefined, expansion: 0.3 })
+  })
+
+  it('should render the source locale pseudo-localized', () => {
+    configurePseudoLocale({ sourceLocale: 'en', expansion: 0 })
+    const t = createTranslator({ locale: PSEUDO_LOCALE })
+
+    expect(getLocalizedString({ en: 'About', fr: 'À propos' }, PSEUDO_LOCALE)).toBe('[Åƀöûţ]')
+    expect(getNavigationString({ en: 'Home' }, PSEUDO_LOCALE)).toBe('[Ĥöɱé]')
+    expect(t('multiStepForm.next')).toBe('[Ñéẋţ]')
+    expect(getErrorMessage('required', PSEUDO_LOCALE)).toMatch(/^\[Ţĥîš/)
+  })
+
+  it('should never negotiate the pseudo-locale', () => {
+    expect(negotiateLocale('en-US', [PSEUDO_LOCALE, 'en'])).toBe('en')
+    expect(negotiateLocale('en-XA', [PSEUDO_LOCALE, 'fr'])).toBeUndefined()
+  })
+
+  it('should use a configured locale code and source', () => {
+    configurePseudoLocale({ locale: 'fr-XA', sourceLocale: 'fr', expansion: 0 })
+
+    expect(getLocalizedString({ en: 'About', fr: 'À propos' }, 'fr-XA')).toBe('[À þŕöþöš]')
+    expect(getLocalizedString({ en: 'About' }, PSEUDO_LOCALE)).toBe('About')
+  })
+})
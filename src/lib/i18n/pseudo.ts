@@ -0,0 +1,97 @@
+// ABOUTME: Pseudo-localization for finding truncation and hard-coded strings before translation
+// ABOUTME: Renders the source text accented, padded and bracketed under a dedicated pseudo-locale
+
+import { getDefaultLocale, type Locale } from './config';
+import { getSharedState } from '../utils/shared-state';
+
+/** Conventional pseudo-locale code for accented, expanded English */
+export const PSEUDO_LOCALE = 'en-XA';
+
+export interface PseudoLocaleOptions {
+  /** Locale code that renders pseudo-localized text @default 'en-XA' */
+  locale?: string;
+  /** Locale whose text is pseudo-localized @default the configured default locale */
+  sourceLocale?: Locale;
+  /** Extra length as a fraction of the original; French runs about 0.3 longer @default 0.3 */
+  expansion?: number;
+  /** Replace letters with accented look-alikes @default true */
+  accents?: boolean;
+  /** Markers around each string, or false for none @default ['[', ']'] */
+  brackets?: [string, string] | false;
+}
+
+const pseudoLocaleOptions = getSharedState<PseudoLocaleOptions>('pseudo-locale', () => ({
+  locale: PSEUDO_LOCALE,
+  expansion: 0.3,
+  accents: true,
+  brackets: ['[', ']'],
+}));
+
+const PLAIN = Array.from('abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ');
+const ACCENTED = Array.from('åƀçðéƒĝĥîĵķļɱñöþǫŕšţûṽŵẋýžÅƁÇÐÉƑĜĤÎĴĶĻṀÑÖÞǪŔŠŢÛṼŴẊÝŽ');
+const ACCENT_MAP = new Map(PLAIN.map((char, index) => [char, ACCENTED[index]]));
+
+const PADDING = ' one two three four five six seven eight nine ten';
+
+/** Placeholders, tags and entities must survive pseudo-localization unchanged */
+const PROTECTED = /(\{[^{}]*\}|<[^>]*>|&#?\w+;)/;
+
+/**
+ * Configure the pseudo-locale
+ *
+ * Add the pseudo-locale to configureLocales() in development to render it.
+ *
+ * @example
+ * configurePseudoLocale({ expansion: 0.4 })
+ * configureLocales({
+ *   locales: ['en', 'fr', ...(isDev ? [PSEUDO_LOCALE] : [])],
+ *   defaultLocale: 'en',
+ * })
+ */
+export function configurePseudoLocale(options: PseudoLocaleOptions) {
+  Object.assign(pseudoLocaleOptions, options);
+}
+
+/**
+ * Check whether a locale is the configured pseudo-locale
+ */
+export function isPseudoLocale(locale: string): boolean {
+  return locale === pseudoLocaleOptions.locale;
+}
+
+/**
+ * Get the locale whose text the pseudo-locale renders
+ */
+export function getPseudoSourceLocale(): Locale {
+  return pseudoLocaleOptions.sourceLocale ?? getDefaultLocale();
+}
+
+/**
+ * Pseudo-localize a string: accent letters, pad by the expansion ratio and
+ * wrap in brackets
+ *
+ * `{placeholders}`, HTML tags and entities are left intact. Clipped brackets
+ * reveal truncation; text without brackets was never looked up.
+ *
+ * @example
+ * pseudoLocalize('Contact us') // '[Çöñţåçţ ûš one]'
+ */
+export function pseudoLocalize(text: string, options: PseudoLocaleOptions = {}): string {
+  if (!text) return text;
+  const { expansion, accents, brackets } = { ...pseudoLocaleOptions, ...options };
+
+  const body = text
+    .split(PROTECTED)
+    .map((part, index) =>
+      index % 2 === 1 || !accents
+        ? part
+        : Array.from(part, (char) => ACCENT_MAP.get(char) ?? char).join('')
+    )
+    .join('');
+
+  const length = Math.ceil(text.length * (expansion ?? 0));
+  const padding = PADDING.repeat(Math.ceil(length / PADDING.length)).slice(0, length).trimEnd();
+  const [open, close] = brackets || ['', ''];
+
+  return `${open}${body}${padding}${close}`;
+}
@@ -0,0 +1,106 @@
+// ABOUTME: Tests for the localized route manifest
+// ABOUTME: Validates slug maps, slug translation, hreflang alternates, sitemaps and consistency checks
+
+import { describe, it, expect } from 'vitest'
+import {
+  defineRoutes,
+  translateSlug,
+  getRouteHref,
+  getAlternatePaths,
+  stripLocalePrefix,
+  checkRoutes,
+} from './routes'
+import { generateSitemap } from '../seo/sitemap'
+
+const routes = defineRoutes({
+  home: { en: '/', fr: '/' },
+  about: { en: '/about', fr: 'a-propos/' },
+  services: { en: '/services', fr: '/services' },
+  'services.tax': { en: '/services/tax', fr: '/services/impots' },
+  blog: { en: '/blog', fr: '/blogue' },
+  careers: { en: '/careers' },
+})
+
+describe('defineRoutes', () => {
+  it('should build normalized forward and reverse maps', () => {
+    expect(routes.forward.about).toEqual({ en: '/about', fr: '/a-propos' })
+    expect(routes.reverse.fr['/services/impots']).toBe('services.tax')
+    expect(getRouteHref('about', 'fr', routes)).toBe('/fr/a-propos')
+    expect(getRouteHref('home', 'en', routes)).toBe('/en')
+  })
+})
+
+describe('stripLocalePrefix', () => {
+  it('should only remove a whole locale segment', () => {
+    expect(stripLocalePrefix('/en/enterprise', 'en')).toBe('/enterprise')
+    expect(stripLocalePrefix('/en', 'en')).toBe('/')
+    expect(stripLocalePrefix('/enterprise', 'en')).toBe('/enterprise')
+  })
+})
+
+describe('translateSlug', () => {
+  it('should translate in both directions and keep dynamic segments', () => {
+    expect(translateSlug('/about', 'en', 'fr', routes)).toBe('/a-propos')
+    expect(translateSlug('/services/impots', 'fr', 'en', routes)).toBe('/services/tax')
+    expect(translateSlug('/blog/my-post', 'en', 'fr', routes)).toBe('/blogue/my-post')
+    expect(translateSlug('/unknown', 'en', 'fr', routes)).toBe('/unknown')
+  })
+})
+
+describe('getAlternatePaths', () => {
+  it('should list the page in every locale that declares it', () => {
+    expect(getAlternatePaths('/a-propos', 'fr', routes, ['en', 'fr'])).toEqual({
+      en: '/en/about',
+      fr: '/fr/a-propos',
+    })
+    expect(getAlternatePaths('/careers', 'en', routes, ['en', 'fr'])).toEqual({
+      en: '/en/careers',
+    })
+  })
+})
+
+describe('generateSitemap with routes', () => {
+  it('should use localized slugs', () => {
+    const entries = generateSitemap({
+      baseUrl: 'https://example.com',
+      routes: defineRoutes({ about: { en: '/about', fr: '/a-propos' } }),
+      locales: ['en', 'fr'],
+    })
+
+    expect(entries.map((entry) => entry.url)).toEqual([
+      'https://example.com/en/about',
+      'https://example.com/fr/a-propos',
+    ])
+    expect(entries[0].alternates?.languages).toEqual({
+      en: 'https://example.com/en/about',
+      fr: 'https://example.com/fr/a-propos',
+    })
+  })
+})
+
+describe('checkRoutes', () => {
+  it('should accept a consistent manifest', () => {
+    expect(checkRoutes(defineRoutes({ home: { en: '/', fr: '/' } }), ['en', 'fr'])).toEqual([])
+  })
+
+  it('should report missing, duplicate, orphaned and asymmetric slugs', () => {
+    const issues = checkRoutes(
+      defineRoutes({
+        about: { en: '/about', fr: '/a-propos' },
+        team: { en: '/about/team', fr: '/equipe' },
+        contact: { en: '/contact', fr: '/a-propos' },
+        'services.tax': { en: '/services/tax', fr: '/services/impots' },
+        careers: { en: '/careers' },
+      }),
+      ['en', 'fr']
+    )
+
+    expect(issues.map((issue) => `${issue.kind} ${issue.routeId} ${issue.locale}`)).toEqual([
+      'asymmetric team fr',
+      'duplicate contact fr',
+      'orphan services.tax en',
+      'orphan services.tax fr',
+      'missing careers fr',
+    ])
+  })
+})
@@ -0,0 +1,271 @@
+// ABOUTME: Route manifest declaring each logical page once with its slug per locale
+// ABOUTME: Derives slug maps, slug translation, hreflang alternates and consistency checks
+
+import { locales as configuredLocales, type Locale } from './config';
+import { getSharedState } from '../utils/shared-state';
+
+/** Slug per locale for one page, e.g. `{ en: '/about', fr: '/a-propos' }` */
+export type LocalizedSlugs = Partial<Record<Locale, string>>;
+
+export interface RouteManifest {
+  /** Route id → locale → slug (normalized) */
+  forward: Record<string, Record<string, string>>;
+  /** Locale → slug → route id */
+  reverse: Record<string, Record<string, string>>;
+}
+
+export interface RouteMatch {
+  routeId: string;
+  /** Matched slug in the source locale */
+  slug: string;
+  /** Remaining path after the slug, e.g. '/my-post' for dynamic segments */
+  rest: string;
+}
+
+export type RouteIssueKind = 'missing' | 'duplicate' | 'orphan' | 'asymmetric';
+
+export interface RouteIssue {
+  routeId: string;
+  locale: Locale;
+  kind: RouteIssueKind;
+  message: string;
+}
+
+function normalizeSlug(slug: string): string {
+  const withSlash = slug.startsWith('/') ? slug : `/${slug}`;
+  return withSlash.length > 1 ? withSlash.replace(/\/+$/, '') : withSlash;
+}
+
+/**
+ * Declare the app's routes
+ *
+ * Each logical page is declared once with its slug in every locale;
+ * nested pages repeat their parent's localized slug. Slugs without a
+ * route stay untranslated.
+ *
+ * @example
+ * export const routes = defineRoutes({
+ *   home: { en: '/', fr: '/' },
+ *   about: { en: '/about', fr: '/a-propos' },
+ *   services: { en: '/services', fr: '/services' },
+ *   'services.tax': { en: '/services/tax', fr: '/services/impots' },
+ *   blog: { en: '/blog', fr: '/blogue' }, // '/blog/my-post' → '/blogue/my-post'
+ * })
+ */
+export function defineRoutes(routes: Record<string, LocalizedSlugs>): RouteManifest {
+  const manifest: RouteManifest = { forward: {}, reverse: {} };
+
+  for (const [routeId, slugs] of Object.entries(routes)) {
+    manifest.forward[routeId] = {};
+    for (const [locale, slug] of Object.entries(slugs) as Array<[Locale, string | undefined]>) {
+      if (slug === undefined) continue;
+      const normalized = normalizeSlug(slug);
+      manifest.forward[routeId][locale] = normalized;
+      manifest.reverse[locale] ??= {};
+      // First declaration wins; checkRoutes() reports the duplicate
+      manifest.reverse[locale][normalized] ??= routeId;
+    }
+  }
+
+  return manifest;
+}
+
+const routeState = getSharedState('routes', () => ({ manifest: defineRoutes({}) }));
+
+/**
+ * Set the route manifest used by default by translateSlug(), the locale
+ * middleware and LanguageSwitcher
+ *
+ * Call next to configureLocales(), in a module imported by both server and
+ * client code.
+ */
+export function configureRoutes(manifest: RouteManifest) {
+  routeState.manifest = manifest;
+}
+
+/**
+ * Get the route manifest set with configureRoutes()
+ */
+export function getRoutes(): RouteManifest {
+  return routeState.manifest;
+}
+
+/**
+ * Find the route for a locale-less path
+ *
+ * Exact slugs match first, then the longest slug the path starts with.
+ */
+export function matchRoute(
+  path: string,
+  locale: Locale,
+  manifest: RouteManifest = getRoutes()
+): RouteMatch | undefined {
+  const slugs = manifest.reverse[locale];
+  if (!slugs) return undefined;
+
+  const normalized = normalizeSlug(path);
+  if (slugs[normalized]) {
+    return { routeId: slugs[normalized], slug: normalized, rest: '' };
+  }
+
+  let best: RouteMatch | undefined;
+  for (const [slug, routeId] of Object.entries(slugs)) {
+    if (slug === '/' || !normalized.startsWith(`${slug}/`)) continue;
+    if (best && best.slug.length >= slug.length) continue;
+    best = { routeId, slug, rest: normalized.slice(slug.length) };
+  }
+  return best;
+}
+
+/**
+ * Get the locale-prefixed href for a route
+ *
+ * @example
+ * getRouteHref('about', 'fr') // '/fr/a-propos'
+ */
+export function getRouteHref(
+  routeId: string,
+  locale: Locale,
+  manifest: RouteManifest = getRoutes()
+): string | undefined {
+  const slug = manifest.forward[routeId]?.[locale];
+  if (slug === undefined) return undefined;
+  return `/${locale}${slug === '/' ? '' : slug}`;
+}
+
+/**
+ * Translates a path from one locale to another
+ * @param path - The current path (without locale prefix)
+ * @param fromLocale - The current locale
+ * @param toLocale - The target locale
+ * @param manifest - Route manifest (defaults to the one set with configureRoutes())
+ * @returns The translated path, or the original path when no route matches
+ */
+export function translateSlug(
+  path: string,
+  fromLocale: Locale,
+  toLocale: Locale,
+  manifest: RouteManifest = getRoutes()
+): string {
+  if (fromLocale === toLocale) return path;
+
+  const match = matchRoute(path, fromLocale, manifest);
+  const target = match && manifest.forward[match.routeId][toLocale];
+  if (!match || target === undefined) return path;
+
+  return `${target === '/' ? '' : target}${match.rest}` || '/';
+}
+
+/**
+ * Remove a locale prefix from a pathname
+ *
+ * Only a whole first segment matches, so `/en/enterprise` keeps `/enterprise`.
+ *
+ * @example
+ * stripLocalePrefix('/en/enterprise', 'en') // '/enterprise'
+ * stripLocalePrefix('/enterprise', 'en') // '/enterprise'
+ */
+export function stripLocalePrefix(pathname: string, locale: Locale): string {
+  const [, first, ...rest] = pathname.split('/');
+  if (first?.toLowerCase() !== locale.toLowerCase()) return pathname || '/';
+  return `/${rest.join('/')}`;
+}
+
+/**
+ * Get the locale-prefixed path of a page in every locale, for hreflang links
+ *
+ * Locales without a slug for the matched route are left out.
+ *
+ * @example
+ * getAlternatePaths('/a-propos', 'fr') // { en: '/en/about', fr: '/fr/a-propos' }
+ */
+export function getAlternatePaths(
+  path: string,
+  locale: Locale,
+  manifest: RouteManifest = getRoutes(),
+  locales: readonly Locale[] = configuredLocales
+): Partial<Record<Locale, string>> {
+  const match = matchRoute(path, locale, manifest);
+
+  return Object.fromEntries(
+    locales.flatMap((target) => {
+      if (match && manifest.forward[match.routeId][target] === undefined) return [];
+      const translated = translateSlug(path, locale, target, manifest);
+      return [[target, `/${target}${translated === '/' ? '' : translated}`]];
+    })
+  ) as Partial<Record<Locale, string>>;
+}
+
+/**
+ * Check a route manifest for inconsistent slugs
+ *
+ * - `missing`: a route has no slug for a locale
+ * - `duplicate`: two routes share a slug in one locale
+ * - `orphan`: a nested slug whose parent path is not a declared route
+ * - `asymmetric`: a nested route whose parent differs between locales
+ */
+export function checkRoutes(
+  manifest: RouteManifest,
+  locales: readonly Locale[] = configuredLocales
+): RouteIssue[] {
+  const issues: RouteIssue[] = [];
+  const parentOf = (slug: string) => slug.slice(0, slug.lastIndexOf('/')) || '/';
+
+  for (const [routeId, slugs] of Object.entries(manifest.forward)) {
+    const parents = new Map<string, string | undefined>();
+
+    for (const locale of locales) {
+      const slug = slugs[locale];
+      if (slug === undefined) {
+        issues.push({ routeId, locale, kind: 'missing', message: `no slug for "${locale}"` });
+        continue;
+      }
+
+      const owner = manifest.reverse[locale]?.[slug];
+      if (owner !== routeId) {
+        issues.push({
+          routeId,
+          locale,
+          kind: 'duplicate',
+          message: `slug "${slug}" is also used by "${owner}"`,
+        });
+      }
+
+      if (slug === '/') continue;
+      const parentSlug = parentOf(slug);
+      const parent = parentSlug === '/' ? undefined : manifest.reverse[locale]?.[parentSlug];
+      if (parentSlug !== '/' && !parent) {
+        issues.push({
+          routeId,
+          locale,
+          kind: 'orphan',
+          message: `parent path "${parentSlug}" is not a declared route`,
+        });
+        continue;
+      }
+      parents.set(locale, parent);
+    }
+
+    const [first, ...others] = Array.from(parents.entries());
+    for (const [locale, parent] of others) {
+      if (parent === first[1]) continue;
+      issues.push({
+        routeId,
+        locale,
+        kind: 'asymmetric',
+        message: `parent is "${parent ?? '/'}" here but "${first[1] ?? '/'}" in "${first[0]}"`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Format route issues as readable lines
+ */
+export function formatRouteIssues(issues: RouteIssue[]): string {
+  return issues
+    .map((issue) => `  [${issue.kind}] ${issue.routeId} (${issue.locale}): ${issue.message}`)
+    .join('\n');
+}
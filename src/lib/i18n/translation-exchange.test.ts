@@ -0,0 +1,129 @@
+// ABOUTME: Tests for XLIFF and CSV translation export and import
+// ABOUTME: Validates round trips, context notes, stale units, conflicts and malformed files
+
+import { describe, it, expect } from 'vitest'
+import {
+  exportTranslations,
+  parseTranslations,
+  importTranslations,
+  extractTranslationUnits,
+} from './translation-exchange'
+import { createTestContent, createTestNavigation } from '../../test/fixtures'
+
+function createConfig() {
+  const content = createTestContent()
+  content.servicePages = {
+    tax: {
+      title: { en: 'Tax & "advice" <now>' },
+      description: { en: 'Tax returns', fr: "Déclarations d'impôts" },
+      lead: { en: 'Filing made simple', fr: 'Déclarer simplement' },
+      sections: [],
+    },
+  }
+  return { content, navigation: createTestNavigation() }
+}
+
+describe('extractTranslationUnits', () => {
+  it('should key units by config and path with context notes', () => {
+    const { units } = extractTranslationUnits(createConfig(), { targetLocale: 'fr' })
+
+    expect(units).toContainEqual({
+      config: 'navigation',
+      path: 'header.mainNav[0].label',
+      source: 'About',
+      target: 'À propos',
+      notes: ['navigation: header.mainNav[0].label', 'id: about', 'href: /about'],
+    })
+    expect(units).toContainEqual(
+      expect.objectContaining({ path: 'servicePages.tax.title', target: '' })
+    )
+  })
+})
+
+describe('exportTranslations', () => {
+  it('should write XLIFF 2.0 that parses back to the same units', () => {
+    const config = createConfig()
+    const xliff = exportTranslations(config, { targetLocale: 'fr' })
+
+    expect(xliff).toContain('version="2.0" srcLang="en" trgLang="fr"')
+    expect(xliff).toContain('<unit id="services.items.0.name" name="services.items[0].name">')
+    expect(xliff).toContain('<source>Tax &amp; &quot;advice&quot; &lt;now&gt;</source>')
+    expect(parseTranslations(xliff)).toEqual(
+      extractTranslationUnits(config, { targetLocale: 'fr' })
+    )
+  })
+
+  it('should write CSV with quoted fields that parses back to the same units', () => {
+    const config = createConfig()
+    const csv = exportTranslations(config, { targetLocale: 'fr', format: 'csv' })
+
+    expect(csv.split('\n')[0]).toBe('key,en,fr,notes')
+    expect(csv).toContain('content:servicePages.tax.title,"Tax & ""advice"" <now>",,')
+    expect(parseTranslations(csv)).toEqual(
+      extractTranslationUnits(config, { targetLocale: 'fr' })
+    )
+  })
+
+  it('should leave out translated units when asked', () => {
+    const csv = exportTranslations(createConfig(), {
+      targetLocale: 'fr',
+      format: 'csv',
+      untranslatedOnly: true,
+    })
+
+    expect(csv.trim().split('\n')).toHaveLength(2)
+  })
+})
+
+describe('importTranslations', () => {
+  const csv = [
+    'key,en,fr,notes',
+    'content:servicePages.tax.title,"Tax & ""advice"" <now>",Conseils fiscaux,',
+    'content:hero.headline,Hello,Bonjour,',
+    'content:about.heading,About,Au sujet,',
+    'content:team.heading,Team,Équipe,',
+  ].join('\r\n')
+
+  it('should apply translations and report stale, conflicting and unknown units', () => {
+    const config = createConfig()
+    const result = importTranslations(config, csv)
+
+    expect(result.content.servicePages?.tax.title.fr).toBe('Conseils fiscaux')
+    expect(result.applied).toEqual([{ config: 'content', path: 'servicePages.tax.title' }])
+    expect(result.issues).toEqual([
+      expect.objectContaining({ path: 'hero.headline', kind: 'stale', current: 'Welcome' }),
+      expect.objectContaining({ path: 'about.heading', kind: 'conflict', current: 'À propos' }),
+      expect.objectContaining({ path: 'team.heading', kind: 'unknown' }),
+    ])
+    expect(config.content.servicePages?.tax.title.fr).toBeUndefined()
+  })
+
+  it('should replace conflicting translations with overwrite', () => {
+    const result = importTranslations(createConfig(), csv, { overwrite: true })
+
+    expect(result.content.about.heading.fr).toBe('Au sujet')
+  })
+
+  it('should read targets from segmented XLIFF units', () => {
+    const xliff = `<xliff version="2.0" srcLang="en" trgLang="fr">
+      <file id="content">
+        <unit id="u1" name="hero.subheadline">
+          <segment><source>We </source><target>Nous </target></segment>
+          <segment><source>help</source><target><![CDATA[aidons & plus]]></target></segment>
+        </unit>
+      </file>
+    </xliff>`
+    const content = createTestContent()
+    delete content.hero.subheadline.fr
+
+    const result = importTranslations({ content }, xliff)
+
+    expect(result.content.hero.subheadline.fr).toBe('Nous aidons & plus')
+  })
+
+  it('should reject malformed files', () => {
+    expect(() => parseTranslations('<xliff version="1.2">')).toThrow(/version="2.0"/)
+    expect(() => parseTranslations('path,source\nx,y')).toThrow(/header/)
+    expect(() => parseTranslations('key,en,fr\nabout,"About')).toThrow(/unterminated/)
+  })
+})
@@ -0,0 +1,441 @@
+// ABOUTME: Exports LocalizedStrings from content and navigation as XLIFF 2.0 or CSV for translators
+// ABOUTME: Imports returned translations back, skipping stale units and reporting conflicts
+
+import { type SiteContent } from '../../config/content.schema';
+import { type NavigationConfig } from '../../config/navigation.schema';
+import { formatConfigPath } from '../../config/validation';
+import { walkLocalizedStrings, type TranslatableConfig } from './translation-report';
+
+export type TranslationFormat = 'xliff' | 'csv';
+
+export type TranslationConfigName = 'content' | 'navigation';
+
+export interface TranslationUnit {
+  /** Which configuration object the string belongs to */
+  config: TranslationConfigName;
+  /** Object path of the LocalizedString, e.g. `servicePages.tax.title` */
+  path: string;
+  source: string;
+  /** Current translation; empty when untranslated */
+  target: string;
+  /** Context for translators, e.g. the link the string labels */
+  notes: string[];
+}
+
+export interface TranslationDocument {
+  sourceLocale: string;
+  targetLocale: string;
+  units: TranslationUnit[];
+}
+
+export interface TranslationExportOptions {
+  /** Locale to translate into */
+  targetLocale: string;
+  /** Locale to translate from @default content.metadata.defaultLocale */
+  sourceLocale?: string;
+  /** @default 'xliff' */
+  format?: TranslationFormat;
+  /** Leave out strings that already have a translation */
+  untranslatedOnly?: boolean;
+}
+
+export interface TranslationImportOptions {
+  /** Detected from the file contents when omitted */
+  format?: TranslationFormat;
+  /** Replace existing translations that differ from the imported ones */
+  overwrite?: boolean;
+}
+
+export type TranslationImportIssueKind = 'conflict' | 'stale' | 'unknown';
+
+export interface TranslationImportIssue {
+  config: TranslationConfigName;
+  path: string;
+  kind: TranslationImportIssueKind;
+  /** Source text the translator worked from */
+  source: string;
+  /** Imported translation */
+  target: string;
+  /** Current source (stale) or current translation (conflict) */
+  current?: string;
+}
+
+export interface TranslationImportResult {
+  content: SiteContent;
+  navigation?: NavigationConfig;
+  sourceLocale: string;
+  targetLocale: string;
+  /** Units whose translation was written */
+  applied: Array<Pick<TranslationUnit, 'config' | 'path'>>;
+  issues: TranslationImportIssue[];
+}
+
+/** Fields that identify what a LocalizedString belongs to */
+const CONTEXT_FIELDS = ['id', 'slug', 'href', 'type', 'icon'];
+
+function getParent(root: unknown, segments: Array<string | number>): unknown {
+  return segments
+    .slice(0, -1)
+    .reduce<unknown>(
+      (value, segment) =>
+        value && typeof value === 'object'
+          ? (value as Record<string | number, unknown>)[segment]
+          : undefined,
+      root
+    );
+}
+
+function describeContext(
+  config: TranslationConfigName,
+  root: unknown,
+  segments: Array<string | number>
+): string[] {
+  const notes = [`${config}: ${formatConfigPath(segments)}`];
+  const parent = getParent(root, segments);
+  if (parent && typeof parent === 'object' && !Array.isArray(parent)) {
+    for (const field of CONTEXT_FIELDS) {
+      const value = (parent as Record<string, unknown>)[field];
+      if (typeof value === 'string') notes.push(`${field}: ${value}`);
+    }
+  }
+  return notes;
+}
+
+function getSources({ content, navigation }: TranslatableConfig) {
+  const sources: Array<[TranslationConfigName, unknown]> = [['content', content]];
+  if (navigation) sources.push(['navigation', navigation]);
+  return sources;
+}
+
+/**
+ * Collect the translation units for one target locale
+ *
+ * Every LocalizedString with a non-empty source value becomes a unit keyed
+ * by its config and object path, including `servicePages` and `pages`.
+ */
+export function extractTranslationUnits(
+  config: TranslatableConfig,
+  options: Omit<TranslationExportOptions, 'format'>
+): TranslationDocument {
+  const { targetLocale, untranslatedOnly } = options;
+  const sourceLocale = options.sourceLocale ?? config.content.metadata.defaultLocale;
+  const units: TranslationUnit[] = [];
+
+  for (const [name, root] of getSources(config)) {
+    walkLocalizedStrings(root, [sourceLocale, targetLocale], (localized, segments) => {
+      const source = localized[sourceLocale];
+      const target = localized[targetLocale] ?? '';
+      if (!source?.trim() || (untranslatedOnly && target.trim())) return;
+
+      units.push({
+        config: name,
+        path: formatConfigPath(segments),
+        source,
+        target,
+        notes: describeContext(name, root, segments),
+      });
+    });
+  }
+
+  return { sourceLocale, targetLocale, units };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntity(entity: string, name: string): string {
+  if (name.startsWith('#x') || name.startsWith('#X')) {
+    return String.fromCodePoint(parseInt(name.slice(2), 16));
+  }
+  if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+  return XML_ENTITIES[name] ?? entity;
+}
+
+/** Text content of an element: CDATA kept, inline markup dropped, entities decoded */
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => escapeXml(text))
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, decodeEntity);
+}
+
+/** XLIFF unit ids are NMTOKENs: `services.items[0].name` -> `services.items.0.name` */
+function toUnitId(path: string): string {
+  return path.replace(/\[(\d+)\]/g, '.$1').replace(/[^\w.:-]/g, '_');
+}
+
+function formatXliff({ sourceLocale, targetLocale, units }: TranslationDocument): string {
+  const languages = `srcLang="${escapeXml(sourceLocale)}" trgLang="${escapeXml(targetLocale)}"`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" ${languages}>`,
+  ];
+
+  for (const config of ['content', 'navigation'] as const) {
+    const fileUnits = units.filter((unit) => unit.config === config);
+    if (fileUnits.length === 0) continue;
+
+    lines.push(`  <file id="${config}">`);
+    const ids = new Set<string>();
+    for (const unit of fileUnits) {
+      let id = toUnitId(unit.path);
+      while (ids.has(id)) id += '_';
+      ids.add(id);
+
+      lines.push(`    <unit id="${escapeXml(id)}" name="${escapeXml(unit.path)}">`);
+      lines.push('      <notes>');
+      for (const note of unit.notes) {
+        lines.push(`        <note category="context">${escapeXml(note)}</note>`);
+      }
+      lines.push('      </notes>');
+      lines.push(`      <segment state="${unit.target ? 'translated' : 'initial'}">`);
+      lines.push(`        <source>${escapeXml(unit.source)}</source>`);
+      if (unit.target) lines.push(`        <target>${escapeXml(unit.target)}</target>`);
+      lines.push('      </segment>');
+      lines.push('    </unit>');
+    }
+    lines.push('  </file>');
+  }
+
+  lines.push('</xliff>');
+  return `${lines.join('\n')}\n`;
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attributes);
+  return match ? unescapeXml(match[1] ?? match[2]) : undefined;
+}
+
+/** Concatenate every `<element>` in a unit; CAT tools may split a unit into segments */
+function readElements(body: string, element: 'source' | 'target'): string | undefined {
+  const pattern = new RegExp(`<${element}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${element}>)`, 'g');
+  const matches = [...body.matchAll(pattern)];
+  return matches.length ? matches.map((match) => unescapeXml(match[1] ?? '')).join('') : undefined;
+}
+
+function parseXliff(text: string): TranslationDocument {
+  const root = /<xliff\b([^>]*)>/.exec(text);
+  const sourceLocale = root && readAttribute(root[1], 'srcLang');
+  const targetLocale = root && readAttribute(root[1], 'trgLang');
+  if (!root || readAttribute(root[1], 'version') !== '2.0') {
+    throw new Error('Invalid XLIFF: expected an <xliff version="2.0"> document');
+  }
+  if (!sourceLocale || !targetLocale) {
+    throw new Error('Invalid XLIFF: srcLang and trgLang are required');
+  }
+
+  const units: TranslationUnit[] = [];
+  for (const file of text.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g)) {
+    const config = readAttribute(file[1], 'id');
+    if (config !== 'content' && config !== 'navigation') {
+      throw new Error(`Invalid XLIFF: unknown file "${config}"`);
+    }
+
+    for (const unit of file[2].matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)) {
+      const path = readAttribute(unit[1], 'name') ?? readAttribute(unit[1], 'id');
+      if (!path) throw new Error('Invalid XLIFF: unit without a name');
+
+      const body = unit[2].replace(/<notes\b[\s\S]*?<\/notes>/g, '');
+      const notes = [...unit[2].matchAll(/<note\b[^>]*>([\s\S]*?)<\/note>/g)].map((note) =>
+        unescapeXml(note[1])
+      );
+      units.push({
+        config,
+        path,
+        source: readElements(body, 'source') ?? '',
+        target: readElements(body, 'target') ?? '',
+        notes,
+      });
+    }
+  }
+
+  return { sourceLocale, targetLocale, units };
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsv({ sourceLocale, targetLocale, units }: TranslationDocument): string {
+  const rows = [['key', sourceLocale, targetLocale, 'notes']];
+  for (const unit of units) {
+    rows.push([`${unit.config}:${unit.path}`, unit.source, unit.target, unit.notes.join('\n')]);
+  }
+  return `${rows.map((row) => row.map(escapeCsv).join(',')).join('\n')}\n`;
+}
+
+/** RFC 4180 rows; quoted fields may contain commas, quotes and newlines */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new Error('Invalid CSV: unterminated quoted field');
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+function parseCsv(text: string): TranslationDocument {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header || header[0] !== 'key' || !header[1] || !header[2]) {
+    throw new Error('Invalid CSV: expected a "key,<source locale>,<target locale>,notes" header');
+  }
+
+  const units = rows.map((cells, index): TranslationUnit => {
+    const [key, source = '', target = '', notes = ''] = cells;
+    const match = /^(content|navigation):(.+)$/.exec(key);
+    if (!match) throw new Error(`Invalid CSV: row ${index + 2} has an unknown key "${key}"`);
+    return {
+      config: match[1] as TranslationConfigName,
+      path: match[2],
+      source,
+      target,
+      notes: notes ? notes.split('\n') : [],
+    };
+  });
+
+  return { sourceLocale: header[1], targetLocale: header[2], units };
+}
+
+/**
+ * Export every LocalizedString for a target locale as XLIFF 2.0 or CSV
+ *
+ * XLIFF puts content and navigation in separate `<file>`s with the object
+ * path as each unit's `name`; CSV rows are keyed `content:hero.headline`.
+ * Both carry the source, the current translation and context notes.
+ *
+ * @example
+ * const xliff = exportTranslations({ content, navigation }, { targetLocale: 'fr' })
+ * const csv = exportTranslations({ content }, { targetLocale: 'es', format: 'csv' })
+ */
+export function exportTranslations(
+  config: TranslatableConfig,
+  options: TranslationExportOptions
+): string {
+  const document = extractTranslationUnits(config, options);
+  return options.format === 'csv' ? formatCsv(document) : formatXliff(document);
+}
+
+/**
+ * Parse an XLIFF 2.0 or CSV translation file
+ *
+ * The format is detected from the contents unless given.
+ */
+export function parseTranslations(text: string, format?: TranslationFormat): TranslationDocument {
+  const resolved = format ?? (text.trimStart().startsWith('<') ? 'xliff' : 'csv');
+  return resolved === 'xliff' ? parseXliff(text) : parseCsv(text);
+}
+
+/**
+ * Merge translations from an XLIFF or CSV file back into the config
+ *
+ * Returns updated copies; the inputs are not modified. Units are skipped
+ * and reported when their source text has changed since the export
+ * (`stale`), their path no longer exists (`unknown`), or the config already
+ * has a different translation (`conflict`, replaced with `overwrite`).
+ * Units without a translation are ignored.
+ *
+ * @example
+ * const result = importTranslations({ content, navigation }, fs.readFileSync('fr.xlf', 'utf8'))
+ * console.log(formatTranslationImport(result))
+ */
+export function importTranslations(
+  config: TranslatableConfig,
+  input: string | TranslationDocument,
+  options: TranslationImportOptions = {}
+): TranslationImportResult {
+  const { sourceLocale, targetLocale, units } =
+    typeof input === 'string' ? parseTranslations(input, options.format) : input;
+
+  const result: TranslationImportResult = {
+    content: JSON.parse(JSON.stringify(config.content)),
+    navigation: config.navigation && JSON.parse(JSON.stringify(config.navigation)),
+    sourceLocale,
+    targetLocale,
+    applied: [],
+    issues: [],
+  };
+
+  const targets = new Map<string, Record<string, string>>();
+  for (const [name, root] of getSources(result)) {
+    walkLocalizedStrings(root, [sourceLocale, targetLocale], (localized, segments) => {
+      targets.set(`${name}:${formatConfigPath(segments)}`, localized);
+    });
+  }
+
+  for (const { config: name, path, source, target } of units) {
+    if (!target.trim()) continue;
+
+    const localized = targets.get(`${name}:${path}`);
+    const current = localized?.[targetLocale];
+    const issue = { config: name, path, source, target };
+
+    if (!localized) {
+      result.issues.push({ ...issue, kind: 'unknown' });
+    } else if (localized[sourceLocale] !== source) {
+      result.issues.push({ ...issue, kind: 'stale', current: localized[sourceLocale] });
+    } else if (current === target) {
+      continue;
+    } else if (current?.trim() && !options.overwrite) {
+      result.issues.push({ ...issue, kind: 'conflict', current });
+    } else {
+      localized[targetLocale] = target;
+      result.applied.push({ config: name, path });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Formats an import result as plain text, one issue per line
+ */
+export function formatTranslationImport(result: TranslationImportResult): string {
+  const lines = [`${result.targetLocale}: ${result.applied.length} translation(s) applied`];
+
+  for (const issue of result.issues) {
+    lines.push(`${issue.kind} [${issue.config}] ${issue.path}`);
+  }
+
+  return lines.join('\n');
+}
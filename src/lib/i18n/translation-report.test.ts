@@ -0,0 +1,62 @@
+// ABOUTME: Tests for the translation completeness report
+// ABOUTME: Validates detection of missing, empty and identical translations and coverage
+
+import { describe, it, expect } from 'vitest'
+import { generateTranslationReport } from './translation-report'
+import { createTestContent, createTestNavigation } from '../../test/fixtures'
+
+describe('generateTranslationReport', () => {
+  it('should report missing and empty translations with their paths', () => {
+    const content = createTestContent()
+    delete content.hero.headline.fr
+    content.services.items[0].name.fr = ' '
+
+    const report = generateTranslationReport({ content })
+
+    expect(report.complete).toBe(false)
+    expect(report.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: 'hero.headline', locale: 'fr', kind: 'missing' }),
+        expect.objectContaining({ path: 'services.items[0].name', locale: 'fr', kind: 'empty' }),
+      ])
+    )
+  })
+
+  it('should flag values identical to the source unless allowed', () => {
+    const content = createTestContent()
+
+    const report = generateTranslationReport({ content })
+    const allowed = generateTranslationReport(
+      { content },
+      { allowIdentical: ['services.heading'] }
+    )
+
+    expect(report.complete).toBe(true)
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ path: 'services.heading', locale: 'fr', kind: 'identical' })
+    )
+    expect(allowed.issues).toEqual([])
+  })
+
+  it('should compute per-locale coverage across content and navigation', () => {
+    const content = createTestContent()
+    content.metadata.supportedLocales = ['en', 'fr', 'es']
+    const navigation = createTestNavigation()
+
+    const report = generateTranslationReport({ content, navigation })
+
+    expect(report.coverage.en.coverage).toBe(100)
+    expect(report.coverage.es.translated).toBe(0)
+    expect(report.coverage.es.total).toBe(report.coverage.en.total)
+    expect(report.issues.some((issue) => issue.config === 'navigation')).toBe(true)
+  })
+
+  it('should throw in strict mode when incomplete', () => {
+    const content = createTestContent()
+    delete content.about.heading.fr
+
+    expect(() => generateTranslationReport({ content }, { strict: true })).toThrow(
+      'missing [content] about.heading (fr)'
+    )
+  })
+})
@@ -0,0 +1,183 @@
+// ABOUTME: Translation completeness report for site content and navigation
+// ABOUTME: Finds every LocalizedString and reports missing, empty or untranslated values per locale
+
+import { type SiteContent } from '../../config/content.schema';
+import { type NavigationConfig } from '../../config/navigation.schema';
+import { formatConfigPath } from '../../config/validation';
+
+export type TranslationIssueKind = 'missing' | 'empty' | 'identical';
+
+export interface TranslationIssue {
+  /** Which configuration object the string belongs to */
+  config: 'content' | 'navigation';
+  /** Object path of the LocalizedString, e.g. `services.items[0].name` */
+  path: string;
+  locale: string;
+  kind: TranslationIssueKind;
+  /** Value in the source locale, for context */
+  source?: string;
+}
+
+export interface LocaleCoverage {
+  /** Number of LocalizedString fields found */
+  total: number;
+  /** Fields with a non-empty value for this locale */
+  translated: number;
+  /** translated / total, as a percentage rounded to one decimal */
+  coverage: number;
+}
+
+export interface TranslationReport {
+  sourceLocale: string;
+  locales: string[];
+  coverage: Record<string, LocaleCoverage>;
+  issues: TranslationIssue[];
+  /** True when no field is missing or empty (identical values are allowed) */
+  complete: boolean;
+}
+
+export interface TranslationReportOptions {
+  /** Locale translations are compared against @default content.metadata.defaultLocale */
+  sourceLocale?: string;
+  /** Locales to check @default content.metadata.supportedLocales */
+  locales?: string[];
+  /** Paths whose values may legitimately match the source (brand names, etc.) */
+  allowIdentical?: string[];
+  /** Throw when the report is not complete, to fail the build */
+  strict?: boolean;
+}
+
+export interface TranslatableConfig {
+  content: SiteContent;
+  navigation?: NavigationConfig;
+}
+
+const LOCALE_KEY_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/**
+ * A LocalizedString is a plain object of string values keyed by locale codes,
+ * at least one of which is a locale the site supports
+ */
+function isLocalizedString(value: unknown, locales: string[]): value is Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entries = Object.entries(value);
+  return (
+    entries.length > 0 &&
+    entries.every(([key, item]) => LOCALE_KEY_PATTERN.test(key) && typeof item === 'string') &&
+    entries.some(([key]) => locales.includes(key))
+  );
+}
+
+/**
+ * Walks any configuration object and calls `visit` for every LocalizedString
+ */
+export function walkLocalizedStrings(
+  value: unknown,
+  locales: string[],
+  visit: (localized: Record<string, string>, path: Array<string | number>) => void,
+  path: Array<string | number> = []
+): void {
+  if (isLocalizedString(value, locales)) {
+    visit(value, path);
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => walkLocalizedStrings(item, locales, visit, [...path, index]));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      walkLocalizedStrings(child, locales, visit, [...path, key]);
+    }
+  }
+}
+
+/**
+ * Generate a translation completeness report
+ *
+ * Finds every LocalizedString in the content and navigation config and
+ * reports values that are missing, empty or identical to the source locale,
+ * with per-locale coverage.
+ *
+ * @example
+ * const report = generateTranslationReport({ content, navigation })
+ * console.log(formatTranslationReport(report))
+ *
+ * @example
+ * // In a prebuild script: throws if any translation is missing
+ * generateTranslationReport({ content, navigation }, { strict: true })
+ */
+export function generateTranslationReport(
+  { content, navigation }: TranslatableConfig,
+  options: TranslationReportOptions = {}
+): TranslationReport {
+  const sourceLocale = options.sourceLocale ?? content.metadata.defaultLocale;
+  const locales = options.locales ?? content.metadata.supportedLocales;
+  const allowIdentical = new Set(options.allowIdentical ?? []);
+
+  const issues: TranslationIssue[] = [];
+  const coverage: Record<string, LocaleCoverage> = Object.fromEntries(
+    locales.map((locale) => [locale, { total: 0, translated: 0, coverage: 100 }])
+  );
+
+  const sources: Array<[TranslationIssue['config'], unknown]> = [['content', content]];
+  if (navigation) sources.push(['navigation', navigation]);
+
+  for (const [config, value] of sources) {
+    walkLocalizedStrings(value, locales, (localized, segments) => {
+      const path = formatConfigPath(segments);
+      const source = localized[sourceLocale];
+
+      for (const locale of locales) {
+        const stats = coverage[locale];
+        const translation = localized[locale];
+        stats.total++;
+
+        if (translation === undefined) {
+          issues.push({ config, path, locale, kind: 'missing', source });
+        } else if (translation.trim() === '') {
+          issues.push({ config, path, locale, kind: 'empty', source });
+        } else {
+          stats.translated++;
+          if (locale !== sourceLocale && translation === source && !allowIdentical.has(path)) {
+            issues.push({ config, path, locale, kind: 'identical', source });
+          }
+        }
+      }
+    });
+  }
+
+  for (const stats of Object.values(coverage)) {
+    stats.coverage = stats.total ? Math.round((stats.translated / stats.total) * 1000) / 10 : 100;
+  }
+
+  const report: TranslationReport = {
+    sourceLocale,
+    locales,
+    coverage,
+    issues,
+    complete: !issues.some((issue) => issue.kind !== 'identical'),
+  };
+
+  if (options.strict && !report.complete) {
+    throw new Error(`Incomplete translations:\n${formatTranslationReport(report)}`);
+  }
+
+  return report;
+}
+
+/**
+ * Formats a translation report as plain text, one issue per line
+ */
+export function formatTranslationReport(report: TranslationReport): string {
+  const lines = report.locales.map((locale) => {
+    const { translated, total, coverage } = report.coverage[locale];
+    return `${locale}: ${coverage}% (${translated}/${total})`;
+  });
+
+  for (const issue of report.issues) {
+    lines.push(`${issue.kind} [${issue.config}] ${issue.path} (${issue.locale})`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,14 +1,22 @@
 // ABOUTME: Navigation utility functions
 // ABOUTME: Helpers for working with localized navigation and string placeholders
 
+import { resolveLocalizedString } from '../i18n/config';
+import { isPseudoLocale, getPseudoSourceLocale, pseudoLocalize } from '../i18n/pseudo';
+
 /**
  * Helper to get localized string from navigation
+ *
+ * Resolves like getLocalizedString(), through the locale's fallback chain.
  */
 export function getNavigationString(
   localizedString: { [locale: string]: string },
   locale: string
 ): string {
-  return localizedString[locale] || localizedString['en'] || '';
+  if (isPseudoLocale(locale)) {
+    return pseudoLocalize(getNavigationString(localizedString, getPseudoSourceLocale()));
+  }
+  return resolveLocalizedString(localizedString, locale).value;
 }
 
 /**
@@ -3,3 +3,4 @@
 
 export * from './metadata'
 export * from './structured-data'
+export * from './sitemap'
@@ -33,6 +33,8 @@ export interface MetadataOptions {
   locale?: string
   /** Alternate locales */
   alternateLocales?: string[]
+  /** Absolute URL per locale for hreflang links (replaces URLs derived from alternateLocales) */
+  alternateUrls?: Record<string, string>
   /** Site name */
   siteName?: string
   /** Robots directives */
@@ -106,6 +108,7 @@ export function generateMetadata({
   twitterCreator,
   locale = 'en',
   alternateLocales,
+  alternateUrls,
   siteName,
   robots,
   keywords,
@@ -160,7 +163,15 @@ export function generateMetadata({
 
     // Alternates for i18n
     ...(url &&
-      alternateLocales && {
+      alternateUrls && {
+        alternates: {
+          canonical: url,
+          languages: alternateUrls
+        }
+      }),
+    ...(url &&
+      alternateLocales &&
+      !alternateUrls && {
         alternates: {
           canonical: url,
           languages: Object.fromEntries(
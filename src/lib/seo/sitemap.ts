@@ -0,0 +1,93 @@
+// ABOUTME: Sitemap generation utilities for Next.js app/sitemap.ts routes
+// ABOUTME: Builds locale-prefixed entries with hreflang alternates
+
+import type { MetadataRoute } from 'next'
+import type { RouteManifest } from '../i18n/routes'
+
+export interface SitemapOptions {
+  /** Absolute site URL without trailing slash, e.g. 'https://example.com' */
+  baseUrl: string
+  /** Locale-less page paths, e.g. ['/', '/about'] */
+  paths?: string[]
+  /** Route manifest; adds one entry per route with its slug in each locale */
+  routes?: RouteManifest
+  /** Locales to prefix paths with; omit for unprefixed URLs */
+  locales?: string[]
+  /** Last modification date for every entry */
+  lastModified?: string | Date
+  /** Change frequency for every entry @default 'monthly' */
+  changeFrequency?: MetadataRoute.Sitemap[number]['changeFrequency']
+  /** Priority per path or route id; the home page defaults to 1, other pages to 0.8 */
+  priority?: Record<string, number>
+}
+
+/**
+ * Generate sitemap entries for Next.js
+ *
+ * With locales, each path produces one entry per locale, and every entry
+ * lists the other locales as hreflang alternates. Routes from a route
+ * manifest use their localized slug in each locale and skip locales
+ * without one.
+ *
+ * @example
+ * // In app/sitemap.ts
+ * export default function sitemap() {
+ *   return generateSitemap({
+ *     baseUrl: 'https://example.com',
+ *     paths: ['/', '/about', '/services'],
+ *     locales: ['en', 'fr']
+ *   })
+ * }
+ *
+ * @example
+ * // Localized slugs from the route manifest
+ * generateSitemap({ baseUrl: 'https://example.com', routes, locales: ['en', 'fr'] })
+ */
+export function generateSitemap({
+  baseUrl,
+  paths = [],
+  routes,
+  locales,
+  lastModified,
+  changeFrequency = 'monthly',
+  priority = {}
+}: SitemapOptions): MetadataRoute.Sitemap {
+  const base = baseUrl.replace(/\/+$/, '')
+  const toUrl = (path: string, locale?: string) => {
+    const suffix = path === '/' ? '' : path
+    return locale ? `${base}/${locale}${suffix}` : `${base}${suffix || '/'}`
+  }
+
+  // Each page: priority key and its path per locale ('' when unprefixed)
+  const pages = [
+    ...paths.map((path) => ({
+      key: path,
+      slugs: Object.fromEntries((locales?.length ? locales : ['']).map((locale) => [locale, path]))
+    })),
+    ...Object.entries(routes?.forward ?? {}).map(([routeId, slugs]) => ({ key: routeId, slugs }))
+  ]
+
+  return pages.flatMap(({ key, slugs }) => {
+    const isHome = Object.values(slugs).includes('/')
+    const entry = {
+      ...(lastModified && { lastModified }),
+      changeFrequency,
+      priority: priority[key] ?? (isHome ? 1 : 0.8)
+    }
+
+    if (!locales?.length) {
+      const path = slugs[''] ?? Object.values(slugs)[0]
+      return path === undefined ? [] : [{ url: toUrl(path), ...entry }]
+    }
+
+    const available = locales.filter((locale) => slugs[locale] !== undefined)
+    const languages = Object.fromEntries(
+      available.map((locale) => [locale, toUrl(slugs[locale], locale)])
+    )
+    return available.map((locale) => ({
+      url: toUrl(slugs[locale], locale),
+      ...entry,
+      alternates: { languages }
+    }))
+  })
+}
@@ -0,0 +1,13 @@
+// ABOUTME: Multi-site utilities export
+// ABOUTME: Site resolver and per-site theme, metadata and sitemap helpers
+
+export { createSiteResolver, SITE_PATHNAME_HEADER } from './resolver';
+export type {
+  SiteDefinition,
+  SiteRequest,
+  ResolvedSite,
+  SiteResolver,
+  SiteResolverOptions,
+} from './resolver';
+export { generateSiteThemeCSS, generateSiteMetadata, generateSiteSitemap } from './site-helpers';
+export type { SiteMetadataOptions } from './site-helpers';
@@ -0,0 +1,92 @@
+// ABOUTME: Tests for multi-site resolution and per-site helpers
+// ABOUTME: Validates hostname/path-prefix matching, theme CSS, metadata and sitemap output
+
+import { describe, it, expect } from 'vitest'
+import { createSiteResolver, type SiteDefinition } from './resolver'
+import { generateSiteThemeCSS, generateSiteMetadata, generateSiteSitemap } from './site-helpers'
+import { createTestContent, createTestTheme } from '../../test/fixtures'
+
+function createSite(id: string, overrides: Partial<SiteDefinition> = {}): SiteDefinition {
+  const content = createTestContent()
+  content.metadata = { ...content.metadata, siteName: id, siteUrl: `https://${id}.example.com` }
+  return { id, content, theme: createTestTheme(), ...overrides }
+}
+
+describe('createSiteResolver', () => {
+  const sites = createSiteResolver(
+    [
+      createSite('acme', { hostnames: ['acme.com', 'www.acme.com'] }),
+      createSite('tenants', { hostnames: ['*.sites.example.com'] }),
+      createSite('hub'),
+      createSite('demo', { pathPrefix: '/demo' }),
+    ],
+    { defaultSiteId: 'acme' }
+  )
+
+  it('should match exact hostnames, ignoring case and port', () => {
+    expect(sites.resolve({ hostname: 'WWW.acme.com:3000', pathname: '/en' })).toMatchObject({
+      site: { id: 'acme' },
+      basePath: '',
+      pathname: '/en',
+    })
+  })
+
+  it('should match wildcard hostnames', () => {
+    expect(sites.resolve({ hostname: 'smith.sites.example.com' })?.site.id).toBe('tenants')
+  })
+
+  it('should match the longest path prefix and strip it', () => {
+    expect(sites.resolve({ hostname: 'localhost', pathname: '/demo/fr/about' })).toMatchObject({
+      site: { id: 'demo' },
+      basePath: '/demo',
+      pathname: '/fr/about',
+    })
+    expect(sites.resolve({ hostname: 'localhost', pathname: '/demonstration' })?.site.id).toBe('hub')
+  })
+
+  it('should reject duplicate routes', () => {
+    expect(() => createSiteResolver([createSite('a'), createSite('b')])).toThrow(
+      'Site "b" duplicates the route "*"'
+    )
+  })
+
+  it('should return null without a match or default site', () => {
+    const resolver = createSiteResolver([createSite('acme', { hostnames: ['acme.com'] })])
+    expect(resolver.resolve({ hostname: 'other.com' })).toBeNull()
+  })
+})
+
+describe('site helpers', () => {
+  const site = createSite('acme', {
+    content: { ...createTestContent(), pages: { home: { sections: [] }, team: { sections: [] } } },
+  })
+
+  it('should generate a scoped theme CSS block', () => {
+    const css = generateSiteThemeCSS(site, '[data-site="acme"]')
+    expect(css).toMatch(/^\[data-site="acme"\] \{/)
+    expect(css).toContain('--radius-default:')
+  })
+
+  it('should generate metadata from the site content', () => {
+    const metadata = generateSiteMetadata(site, {
+      title: 'Team',
+      description: 'Our team',
+      locale: 'fr',
+      path: '/team',
+    })
+    expect(metadata.openGraph).toMatchObject({ siteName: 'Test Co', url: 'https://example.com/fr/team' })
+    expect(metadata.alternates?.languages).toEqual({
+      en: 'https://example.com/en/team',
+      fr: 'https://example.com/fr/team',
+    })
+  })
+
+  it('should list pages for each locale in the sitemap', () => {
+    expect(generateSiteSitemap(site).map((entry) => entry.url)).toEqual([
+      'https://example.com/en',
+      'https://example.com/fr',
+      'https://example.com/en/team',
+      'https://example.com/fr/team',
+    ])
+  })
+})
@@ -0,0 +1,153 @@
+// ABOUTME: Site resolver for hosting several sites from one Next.js app
+// ABOUTME: Picks a site's content, navigation, theme and scripts by hostname or path prefix
+
+import { type SiteContent } from '../../config/content.schema';
+import { type NavigationConfig } from '../../config/navigation.schema';
+import { type ThemeConfig } from '../../config/theme.schema';
+import { type ScriptsConfig } from '../../config/scripts.schema';
+import { type RouteManifest } from '../i18n/routes';
+
+/**
+ * Request header carrying the pathname, set by middleware for path-prefix sites
+ * (Server Components cannot read the request path directly)
+ */
+export const SITE_PATHNAME_HEADER = 'x-site-pathname';
+
+export interface SiteDefinition {
+  /** Unique site identifier, e.g. 'acme' */
+  id: string;
+  /** Hostnames serving this site; `*.example.com` matches any subdomain */
+  hostnames?: string[];
+  /** Path prefix serving this site, e.g. '/acme' */
+  pathPrefix?: string;
+  content: SiteContent;
+  navigation?: NavigationConfig;
+  theme: ThemeConfig;
+  scripts?: ScriptsConfig;
+  /** Localized slugs for this site @default the manifest set with configureRoutes() */
+  routes?: RouteManifest;
+}
+
+export interface SiteRequest {
+  /** Host header value; a port is ignored */
+  hostname?: string | null;
+  /** Request path @default '/' */
+  pathname?: string;
+}
+
+export interface ResolvedSite {
+  site: SiteDefinition;
+  /** Path prefix the site was matched on ('' for hostname-only sites) */
+  basePath: string;
+  /** Request path with the site's path prefix removed */
+  pathname: string;
+}
+
+export interface SiteResolverOptions {
+  /** Site used when no hostname or path prefix matches */
+  defaultSiteId?: string;
+}
+
+export interface SiteResolver {
+  sites: SiteDefinition[];
+  /** Resolve the site for a request, or null when nothing matches */
+  resolve: (request: SiteRequest) => ResolvedSite | null;
+  getSite: (id: string) => SiteDefinition | undefined;
+}
+
+function normalizeHostname(hostname: string): string {
+  return hostname.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+}
+
+function normalizePathPrefix(prefix: string): string {
+  const trimmed = prefix.replace(/\/+$/, '');
+  return trimmed.startsWith('/') || trimmed === '' ? trimmed : `/${trimmed}`;
+}
+
+function matchesPathPrefix(pathname: string, prefix: string): boolean {
+  return prefix === '' || pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/**
+ * Create a resolver for multi-site hosting
+ *
+ * Sites are matched by hostname first (exact hostnames win over
+ * `*.` wildcards, sites without hostnames match any host), then by the
+ * longest matching path prefix. Duplicate ids or hostname/prefix pairs
+ * throw when the resolver is created.
+ *
+ * @example
+ * export const sites = createSiteResolver([
+ *   { id: 'acme', hostnames: ['acme.com', 'www.acme.com'], content, theme },
+ *   { id: 'demo', pathPrefix: '/demo', content: demoContent, theme: demoTheme },
+ * ], { defaultSiteId: 'acme' })
+ *
+ * sites.resolve({ hostname: 'www.acme.com', pathname: '/en/about' })
+ */
+export function createSiteResolver(
+  sites: SiteDefinition[],
+  options: SiteResolverOptions = {}
+): SiteResolver {
+  const byId = new Map<string, SiteDefinition>();
+  const routes = new Set<string>();
+
+  for (const site of sites) {
+    if (byId.has(site.id)) {
+      throw new Error(`Duplicate site id "${site.id}"`);
+    }
+    byId.set(site.id, site);
+
+    const prefix = normalizePathPrefix(site.pathPrefix ?? '');
+    for (const hostname of site.hostnames?.map(normalizeHostname) ?? ['*']) {
+      const route = `${hostname}${prefix}`;
+      if (routes.has(route)) {
+        throw new Error(`Site "${site.id}" duplicates the route "${route}"`);
+      }
+      routes.add(route);
+    }
+  }
+
+  if (options.defaultSiteId && !byId.has(options.defaultSiteId)) {
+    throw new Error(`Default site "${options.defaultSiteId}" is not defined`);
+  }
+
+  const matchHost = (hostname: string) => {
+    const exact = sites.filter((site) =>
+      site.hostnames?.some((candidate) => normalizeHostname(candidate) === hostname)
+    );
+    if (exact.length > 0) return exact;
+
+    const wildcard = sites.filter((site) =>
+      site.hostnames?.some((candidate) => {
+        const pattern = normalizeHostname(candidate);
+        return pattern.startsWith('*.') && hostname.endsWith(pattern.slice(1));
+      })
+    );
+    if (wildcard.length > 0) return wildcard;
+
+    return sites.filter((site) => !site.hostnames?.length);
+  };
+
+  const resolve = ({ hostname, pathname = '/' }: SiteRequest): ResolvedSite | null => {
+    const candidates = matchHost(normalizeHostname(hostname ?? ''));
+
+    let best: ResolvedSite | null = null;
+    for (const site of candidates) {
+      const prefix = normalizePathPrefix(site.pathPrefix ?? '');
+      if (!matchesPathPrefix(pathname, prefix)) continue;
+      if (best && best.basePath.length >= prefix.length) continue;
+      best = { site, basePath: prefix, pathname: pathname.slice(prefix.length) || '/' };
+    }
+
+    if (!best && options.defaultSiteId) {
+      return { site: byId.get(options.defaultSiteId)!, basePath: '', pathname };
+    }
+    return best;
+  };
+
+  return {
+    sites,
+    resolve,
+    getSite: (id) => byId.get(id),
+  };
+}
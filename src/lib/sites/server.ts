@@ -0,0 +1,44 @@
+// ABOUTME: Server helper resolving the active site for the current request
+// ABOUTME: Reads the host and request path headers in Server Components and route handlers
+
+import { headers } from 'next/headers';
+import { SITE_PATHNAME_HEADER, type ResolvedSite, type SiteResolver } from './resolver';
+
+export interface GetActiveSiteOptions {
+  /** Request path; defaults to the `x-site-pathname` header, then '/' */
+  pathname?: string;
+}
+
+/**
+ * Resolve the site serving the current request
+ *
+ * Uses `x-forwarded-host` (behind proxies) or `host`. Throws when no
+ * site matches and the resolver has no default site.
+ *
+ * @example
+ * // app/[locale]/layout.tsx
+ * const { site } = await getActiveSite(sites)
+ * return <SiteProvider site={site}>{children}</SiteProvider>
+ *
+ * @example
+ * // middleware.ts - needed for sites matched by path prefix
+ * export function middleware(request: NextRequest) {
+ *   const requestHeaders = new Headers(request.headers)
+ *   requestHeaders.set(SITE_PATHNAME_HEADER, request.nextUrl.pathname)
+ *   return NextResponse.next({ request: { headers: requestHeaders } })
+ * }
+ */
+export async function getActiveSite(
+  resolver: SiteResolver,
+  options: GetActiveSiteOptions = {}
+): Promise<ResolvedSite> {
+  const requestHeaders = await headers();
+  const hostname = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host');
+  const pathname = options.pathname ?? requestHeaders.get(SITE_PATHNAME_HEADER) ?? '/';
+
+  const resolved = resolver.resolve({ hostname, pathname });
+  if (!resolved) {
+    throw new Error(`No site configured for host "${hostname ?? ''}" and path "${pathname}"`);
+  }
+  return resolved;
+}
@@ -0,0 +1,104 @@
+// ABOUTME: Per-site theme CSS, metadata and sitemap helpers for multi-site hosting
+// ABOUTME: Derive site name, URL and locales from each site's own SiteContent
+
+import type { Metadata, MetadataRoute } from 'next';
+import { generateThemeStylesheet } from '../theme/generate-css';
+import { generateMetadata, type MetadataOptions } from '../seo/metadata';
+import { generateSitemap, type SitemapOptions } from '../seo/sitemap';
+import { getAlternatePaths, getRoutes } from '../i18n/routes';
+import { type SiteDefinition } from './resolver';
+
+/**
+ * Generate the theme CSS block for a site
+ *
+ * Includes brand colours, fonts, slate colours and design tokens, followed by
+ * the rules for the theme's colour schemes.
+ *
+ * @example
+ * <style dangerouslySetInnerHTML={{ __html: generateSiteThemeCSS(site) }} />
+ */
+export function generateSiteThemeCSS(site: SiteDefinition, selector = ':root'): string {
+  return generateThemeStylesheet(site.theme, selector);
+}
+
+export interface SiteMetadataOptions
+  extends Omit<MetadataOptions, 'siteName' | 'url' | 'locale' | 'alternateLocales'> {
+  /** Locale of the page @default content.metadata.defaultLocale */
+  locale?: string;
+  /** Locale-less page path in the page's locale, e.g. '/a-propos' @default '/' */
+  path?: string;
+}
+
+/**
+ * Generate page metadata for a site
+ *
+ * Fills site name, canonical URL and robots directives from
+ * `site.content.metadata`, and hreflang alternates from the site's route
+ * manifest.
+ *
+ * @example
+ * export async function generateMetadata({ params }) {
+ *   const { site } = await getActiveSite(sites)
+ *   return generateSiteMetadata(site, { title: 'About', description: '...', locale: params.locale, path: '/about' })
+ * }
+ */
+export function generateSiteMetadata(
+  site: SiteDefinition,
+  { locale, path = '/', ...options }: SiteMetadataOptions
+): Metadata {
+  const { siteName, siteUrl, defaultLocale, supportedLocales, robots } = site.content.metadata;
+  const pageLocale = locale ?? defaultLocale;
+  const base = siteUrl.replace(/\/+$/, '');
+
+  const alternates = getAlternatePaths(
+    path,
+    pageLocale,
+    site.routes ?? getRoutes(),
+    supportedLocales
+  );
+
+  return generateMetadata({
+    siteName,
+    url: `${base}/${pageLocale}${path === '/' ? '' : path}`,
+    locale: pageLocale,
+    alternateUrls: Object.fromEntries(
+      Object.entries(alternates).map(([alternate, href]) => [alternate, `${base}${href}`])
+    ),
+    robots,
+    ...options,
+  });
+}
+
+/**
+ * Generate sitemap entries for a site
+ *
+ * Uses the site's route manifest when it has one. Otherwise paths default
+ * to the home page plus one path per entry in `content.pages` (the `home`
+ * page maps to `/`).
+ *
+ * @example
+ * // In app/sitemap.ts
+ * export default async function sitemap() {
+ *   const { site } = await getActiveSite(sites)
+ *   return generateSiteSitemap(site, { paths: ['/', '/about', '/contact'] })
+ * }
+ */
+export function generateSiteSitemap(
+  site: SiteDefinition,
+  options: Partial<Omit<SitemapOptions, 'baseUrl' | 'locales'>> = {}
+): MetadataRoute.Sitemap {
+  const { siteUrl, supportedLocales } = site.content.metadata;
+  const pagePaths = Object.keys(site.content.pages ?? {}).map((id) =>
+    id === 'home' ? '/' : `/${id}`
+  );
+
+  const routes = options.routes ?? site.routes;
+
+  return generateSitemap({
+    ...options,
+    baseUrl: siteUrl,
+    locales: supportedLocales,
+    routes,
+    paths: options.paths ?? (routes ? [] : Array.from(new Set(['/', ...pagePaths]))),
+  });
+}
@@ -0,0 +1,107 @@
+// ABOUTME: Tests for color scheme CSS generation, persistence and the pre-hydration script
+// ABOUTME: Validates scheme overrides, selectors, stored preferences and script safety
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  generateThemeCSS,
+  generateColorSchemeCSS,
+  getColorSchemeNames,
+  resolveColorScheme,
+} from './generate-css'
+import { applyColorScheme, getStoredColorScheme, getThemeScript } from './color-scheme'
+import { createTestTheme } from '../../test/fixtures'
+
+function createSchemeTheme() {
+  const theme = createTestTheme()
+  theme.colorSchemes = {
+    dark: {
+      brand: { primary: '#60a5fa' },
+      slate: { 900: '#f8fafc' },
+      background: '#0f172a',
+    },
+    sepia: { background: '#f4ecd8' },
+  }
+  return theme
+}
+
+describe('resolveColorScheme', () => {
+  it('should apply scheme overrides on top of the base palette', () => {
+    const dark = resolveColorScheme(createSchemeTheme(), 'dark')
+
+    expect(dark.brand.colors.primary).toBe('#60a5fa')
+    expect(dark.brand.colors.primaryHover).toBe('#0052a3')
+    expect(dark.colors.slate[900]).toBe('#f8fafc')
+    expect(dark.colors.background).toBe('#0f172a')
+  })
+
+  it('should list light first and return the base palette for it', () => {
+    const theme = createSchemeTheme()
+
+    expect(getColorSchemeNames(theme)).toEqual(['light', 'dark', 'sepia'])
+    expect(resolveColorScheme(theme, 'light')).toBe(theme)
+  })
+})
+
+describe('generateColorSchemeCSS', () => {
+  it('should emit page colors in the base block', () => {
+    expect(generateThemeCSS(createTestTheme())).toContain('--color-background: #ffffff;')
+    expect(generateThemeCSS(createTestTheme())).toContain('--color-foreground: #0f172a;')
+  })
+
+  it('should follow the system preference until a scheme is chosen', () => {
+    const css = generateColorSchemeCSS(createSchemeTheme())
+
+    expect(css).toMatch(/^@media \(prefers-color-scheme: dark\) \{\n:root:not\(\[data-theme\]\) \{/)
+    expect(css).toContain('[data-theme="light"] {')
+    expect(css).toContain('[data-theme="sepia"] {')
+
+    const dark = css.slice(css.indexOf('[data-theme="dark"] {'))
+    expect(dark).toMatch(/--color-primary: #60a5fa;[\s\S]*--color-foreground: #f8fafc;/)
+    expect(dark).toContain('color-scheme: dark;')
+  })
+
+  it('should scope schemes to a site selector', () => {
+    const css = generateColorSchemeCSS(createSchemeTheme(), '[data-site="acme"]')
+
+    expect(css).toContain(':root:not([data-theme]) [data-site="acme"]')
+    expect(css).toContain(
+      '[data-theme="dark"] [data-site="acme"], [data-theme="dark"][data-site="acme"], ' +
+        '[data-site="acme"] [data-theme="dark"] {'
+    )
+  })
+
+  it('should return nothing for themes without schemes', () => {
+    expect(generateColorSchemeCSS(createTestTheme())).toBe('')
+  })
+})
+
+describe('color scheme preference', () => {
+  afterEach(() => {
+    document.documentElement.removeAttribute('data-theme')
+    window.localStorage.clear()
+  })
+
+  it('should persist a chosen scheme and clear it for the system preference', () => {
+    applyColorScheme('dark')
+    expect(document.documentElement).toHaveAttribute('data-theme', 'dark')
+    expect(getStoredColorScheme()).toBe('dark')
+
+    applyColorScheme('system')
+    expect(document.documentElement).not.toHaveAttribute('data-theme')
+    expect(getStoredColorScheme()).toBe('system')
+  })
+
+  it('should restore known schemes from the inline script', () => {
+    window.localStorage.setItem('theme', 'sepia')
+    new Function(getThemeScript({ schemes: ['light', 'dark', 'sepia'] }))()
+    expect(document.documentElement).toHaveAttribute('data-theme', 'sepia')
+
+    document.documentElement.removeAttribute('data-theme')
+    new Function(getThemeScript())()
+    expect(document.documentElement).not.toHaveAttribute('data-theme')
+  })
+
+  it('should escape markup in the inline script', () => {
+    expect(getThemeScript({ storageKey: '</script><script>' })).not.toContain('</script>')
+  })
+})
@@ -0,0 +1,86 @@
+// ABOUTME: Persisted color scheme preference and the inline script that restores it on load
+// ABOUTME: Sets data-theme on the root element before hydration so the page never flashes
+
+import { THEME_ATTRIBUTE } from './generate-css';
+
+/** localStorage key holding the visitor's color scheme */
+export const THEME_STORAGE_KEY = 'theme';
+
+/** A color scheme name, or 'system' to follow `prefers-color-scheme` */
+export type ColorSchemePreference = 'system' | (string & {});
+
+export interface ThemeScriptOptions {
+  /** Schemes a stored preference may select @default ['light', 'dark'] */
+  schemes?: readonly string[];
+  /** localStorage key @default 'theme' */
+  storageKey?: string;
+}
+
+/**
+ * Read the visitor's stored color scheme
+ *
+ * Returns 'system' on the server, without a stored choice, or when storage is
+ * unavailable (private browsing, blocked cookies).
+ */
+export function getStoredColorScheme(storageKey = THEME_STORAGE_KEY): ColorSchemePreference {
+  if (typeof window === 'undefined') return 'system';
+  try {
+    return window.localStorage.getItem(storageKey) ?? 'system';
+  } catch {
+    return 'system';
+  }
+}
+
+/**
+ * Apply a color scheme to the root element and remember it
+ *
+ * 'system' removes `data-theme`, handing the choice back to
+ * `prefers-color-scheme`.
+ */
+export function applyColorScheme(
+  preference: ColorSchemePreference,
+  storageKey = THEME_STORAGE_KEY
+) {
+  if (typeof document === 'undefined') return;
+
+  const root = document.documentElement;
+  if (preference === 'system') {
+    root.removeAttribute(THEME_ATTRIBUTE);
+  } else {
+    root.setAttribute(THEME_ATTRIBUTE, preference);
+  }
+
+  try {
+    if (preference === 'system') {
+      window.localStorage.removeItem(storageKey);
+    } else {
+      window.localStorage.setItem(storageKey, preference);
+    }
+  } catch {
+    // The choice still applies to this page view
+  }
+}
+
+/** JSON for an inline script, safe from `</script>` in configured values */
+function toScriptLiteral(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/**
+ * Get the inline script that restores the stored color scheme
+ *
+ * Run it in `<head>` before the page paints; `ThemeScript` renders it.
+ * Unknown stored values are ignored so a removed scheme falls back to the
+ * system preference.
+ */
+export function getThemeScript(options: ThemeScriptOptions = {}): string {
+  const { schemes = ['light', 'dark'], storageKey = THEME_STORAGE_KEY } = options;
+
+  return (
+    '(function(){try{' +
+    `var s=localStorage.getItem(${toScriptLiteral(storageKey)});` +
+    `if(${toScriptLiteral(schemes)}.indexOf(s)>-1)` +
+    `document.documentElement.setAttribute(${toScriptLiteral(THEME_ATTRIBUTE)},s)` +
+    '}catch(e){}})()'
+  );
+}
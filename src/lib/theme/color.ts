@@ -0,0 +1,223 @@
+// ABOUTME: Color parsing and conversion between sRGB and OKLCH with gamut mapping
+// ABOUTME: Builds perceptually even tonal scales and measures WCAG contrast
+
+/** OKLCH color: lightness 0–1, chroma 0–0.4, hue in degrees */
+export interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/** sRGB channels from 0 to 1 */
+export type Rgb = [number, number, number];
+
+/** Shade names of a tonal scale, matching Tailwind's */
+export type TonalShade = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | 950;
+
+export type TonalScale = Record<TonalShade, string>;
+
+/** Lightness of each shade, spaced like Tailwind's palettes */
+const SCALE_LIGHTNESS: Record<TonalShade, number> = {
+  50: 0.97,
+  100: 0.932,
+  200: 0.882,
+  300: 0.809,
+  400: 0.707,
+  500: 0.623,
+  600: 0.546,
+  700: 0.488,
+  800: 0.424,
+  900: 0.379,
+  950: 0.282,
+};
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number): number {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
+
+/**
+ * Parse a `#rgb` or `#rrggbb` color into sRGB channels from 0 to 1
+ */
+export function parseHexColor(hex: string): Rgb {
+  const match = HEX_PATTERN.exec(hex.trim());
+  if (!match) {
+    throw new Error(`Expected a hex color such as #0066cc, got "${hex}"`);
+  }
+
+  const digits =
+    match[1].length === 3 ? Array.from(match[1], (digit) => digit + digit).join('') : match[1];
+  return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16) / 255) as Rgb;
+}
+
+const NAMED_COLORS: Record<string, string> = { white: '#ffffff', black: '#000000' };
+
+function parseChannel(value: string, scale: number): number {
+  return value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value) / scale;
+}
+
+/**
+ * Parse a hex, `rgb()`, `oklch()`, `white` or `black` color into sRGB channels
+ *
+ * Returns null for other syntaxes, such as `var()` or named colors, whose
+ * value is only known in the browser. Alpha is ignored.
+ */
+export function parseColor(value: string): Rgb | null {
+  const color = NAMED_COLORS[value.trim().toLowerCase()] ?? value.trim();
+  if (HEX_PATTERN.test(color)) return parseHexColor(color);
+
+  const match = /^(rgba?|oklch)\(([^)]*)\)$/i.exec(color);
+  if (!match) return null;
+
+  const parts = match[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3 || parts.slice(0, 3).some((part) => Number.isNaN(parseFloat(part)))) {
+    return null;
+  }
+
+  if (match[1].toLowerCase() === 'oklch') {
+    const rgb = oklchToLinearRgb({
+      l: parseChannel(parts[0], 1),
+      c: parseFloat(parts[1]),
+      h: parseFloat(parts[2]),
+    });
+    return rgb.map((channel) => Math.min(Math.max(fromLinear(channel), 0), 1)) as Rgb;
+  }
+  return parts.slice(0, 3).map((part) => parseChannel(part, 255)) as Rgb;
+}
+
+/**
+ * WCAG relative luminance of an sRGB color
+ */
+export function getRelativeLuminance([r, g, b]: Rgb): number {
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 to 21
+ *
+ * @example
+ * getContrastRatio('#ffffff', '#0066cc') // 5.57
+ */
+export function getContrastRatio(foreground: string | Rgb, background: string | Rgb): number {
+  const [a, b] = [foreground, background].map((color) => {
+    const rgb = typeof color === 'string' ? parseColor(color) : color;
+    if (!rgb) throw new Error(`Cannot measure the contrast of "${color}"`);
+    return getRelativeLuminance(rgb);
+  });
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * Format sRGB channels from 0 to 1 as `#rrggbb`
+ */
+export function formatHexColor(rgb: Rgb): string {
+  return `#${rgb
+    .map((channel) =>
+      Math.round(Math.min(Math.max(channel, 0), 1) * 255)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')}`;
+}
+
+function oklchToLinearRgb({ l, c, h }: Oklch): Rgb {
+  const a = c * Math.cos((h * Math.PI) / 180);
+  const b = c * Math.sin((h * Math.PI) / 180);
+
+  const lms = [
+    (l + 0.3963377774 * a + 0.2158037573 * b) ** 3,
+    (l - 0.1055613458 * a - 0.0638541728 * b) ** 3,
+    (l - 0.0894841775 * a - 1.291485548 * b) ** 3,
+  ];
+
+  return [
+    4.0767416621 * lms[0] - 3.3077115913 * lms[1] + 0.2309699292 * lms[2],
+    -1.2684380046 * lms[0] + 2.6097574011 * lms[1] - 0.3413193965 * lms[2],
+    -0.0041960863 * lms[0] - 0.7034186147 * lms[1] + 1.707614701 * lms[2],
+  ];
+}
+
+function isInGamut(rgb: Rgb): boolean {
+  return rgb.every((channel) => channel >= -0.0001 && channel <= 1.0001);
+}
+
+/**
+ * Convert a hex color to OKLCH
+ *
+ * @example
+ * hexToOklch('#0066cc') // { l: 0.5, c: 0.16, h: 255.6 } (rounded)
+ */
+export function hexToOklch(hex: string): Oklch {
+  return rgbToOklch(parseHexColor(hex));
+}
+
+/**
+ * Convert sRGB channels to OKLCH
+ */
+export function rgbToOklch(rgb: Rgb): Oklch {
+  const [r, g, b] = rgb.map(toLinear);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const chroma = Math.sqrt(a * a + bAxis * bAxis);
+  // Greys have no meaningful hue
+  const hue = chroma < 0.0001 ? 0 : ((Math.atan2(bAxis, a) * 180) / Math.PI + 360) % 360;
+
+  return { l: lightness, c: chroma, h: hue };
+}
+
+/**
+ * Convert an OKLCH color to hex
+ *
+ * Colors outside sRGB keep their lightness and hue and lose chroma until they
+ * fit, so shades of a scale never shift hue.
+ */
+export function oklchToHex(color: Oklch): string {
+  const l = Math.min(Math.max(color.l, 0), 1);
+  let rgb = oklchToLinearRgb({ ...color, l });
+
+  if (!isInGamut(rgb)) {
+    let low = 0;
+    let high = color.c;
+    for (let step = 0; step < 24; step++) {
+      const c = (low + high) / 2;
+      if (isInGamut(oklchToLinearRgb({ l, c, h: color.h }))) low = c;
+      else high = c;
+    }
+    rgb = oklchToLinearRgb({ l, c: low, h: color.h });
+  }
+
+  return formatHexColor(rgb.map(fromLinear) as Rgb);
+}
+
+/**
+ * Build a 50–950 tonal scale with the hue and colorfulness of a color
+ *
+ * Shades are evenly spaced in perceived lightness. Chroma tapers towards
+ * white and black the way it does in hand-tuned palettes.
+ *
+ * @example
+ * createTonalScale('#0066cc')[100] // a pale blue for tinted backgrounds
+ */
+export function createTonalScale(color: string): TonalScale {
+  const { l, c, h } = hexToOklch(color);
+  const peak = 4 * l * (1 - l) || 1;
+
+  const scale = {} as TonalScale;
+  for (const [shade, lightness] of Object.entries(SCALE_LIGHTNESS)) {
+    const taper = Math.min((4 * lightness * (1 - lightness)) / peak, 1);
+    scale[Number(shade) as TonalShade] = oklchToHex({ l: lightness, c: c * taper, h });
+  }
+  return scale;
+}
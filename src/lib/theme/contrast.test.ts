@@ -0,0 +1,72 @@
+// ABOUTME: Tests for WCAG contrast ratios and the theme contrast audit
+// ABOUTME: Validates ratios, AA/AAA results, suggested shades, schemes and unmeasurable colors
+
+import { describe, it, expect } from 'vitest'
+import { getContrastRatio, parseColor } from './color'
+import { auditThemeContrast } from './contrast'
+import { createTestTheme } from '../../test/fixtures'
+
+describe('getContrastRatio', () => {
+  it('should match WCAG reference ratios', () => {
+    expect(getContrastRatio('#000', '#fff')).toBeCloseTo(21, 5)
+    expect(getContrastRatio('#fff', '#fff')).toBe(1)
+    expect(getContrastRatio('#ffffff', '#0066cc')).toBeCloseTo(5.57, 2)
+    expect(getContrastRatio('rgb(119 119 119)', 'white')).toBeCloseTo(4.48, 2)
+  })
+
+  it('should parse oklch and leave browser-only colors unmeasured', () => {
+    const white = parseColor('oklch(100% 0 0)')
+    expect(white).toHaveLength(3)
+    white?.forEach((channel) => expect(channel).toBeCloseTo(1, 5))
+    expect(parseColor('var(--brand)')).toBeNull()
+  })
+})
+
+describe('auditThemeContrast', () => {
+  it('should report the ratio and levels of each component pairing', () => {
+    const { checks } = auditThemeContrast(createTestTheme())
+    const filled = checks.find((check) => check.id === 'white-on-primary')
+
+    expect(filled).toMatchObject({
+      foreground: 'white',
+      background: 'brand.colors.primary',
+      ratio: 5.56,
+      aa: true,
+      aaa: false,
+    })
+    expect(checks.map((check) => check.id)).toContain('slate-500-on-white')
+  })
+
+  it('should suggest the nearest passing shade of the theme color', () => {
+    const theme = createTestTheme()
+    theme.brand.colors.primary = '#F16531'
+
+    const { failures } = auditThemeContrast(theme)
+    const filled = failures.find((check) => check.id === 'white-on-primary')
+
+    expect(filled?.aa).toBe(false)
+    expect(filled?.suggestion?.token).toBe('brand.colors.primary')
+    expect(filled?.suggestion?.ratio).toBeGreaterThanOrEqual(4.5)
+    expect(filled?.suggestion?.ratio).toBeLessThan(4.7)
+  })
+
+  it('should audit at AAA and in a color scheme', () => {
+    const theme = createTestTheme()
+    theme.colorSchemes = { dark: { colorScheme: 'dark', foreground: '#334155', background: '#0f172a' } }
+
+    const strict = auditThemeContrast(theme, { level: 'AAA' })
+    expect(strict.failures.map((check) => check.id)).toContain('white-on-primary')
+
+    const dark = auditThemeContrast(theme, { scheme: 'dark' })
+    expect(dark.failures.map((check) => check.id)).toContain('foreground-on-background')
+  })
+
+  it('should skip colors that are only known in the browser', () => {
+    const theme = createTestTheme()
+    theme.brand.colors.primaryHover = 'var(--brand-hover)'
+
+    expect(auditThemeContrast(theme).skipped).toEqual([
+      { id: 'white-on-primary-hover', token: 'brand.colors.primaryHover', color: 'var(--brand-hover)' },
+    ])
+  })
+})
@@ -0,0 +1,265 @@
+// ABOUTME: WCAG 2.2 contrast audit of the color pairings framework components render
+// ABOUTME: Reports each pairing's ratio with AA and AAA results and the nearest passing shade
+
+import { type ThemeConfig } from '../../config/theme.schema';
+import { resolveColorScheme } from './generate-css';
+import { getContrastRatio, oklchToHex, parseColor, rgbToOklch } from './color';
+
+export type ContrastLevel = 'AA' | 'AAA';
+
+/** `large` is text of at least 24px, or 18.66px bold */
+export type ContrastTextSize = 'text' | 'large';
+
+/** Minimum ratios of WCAG 2.2 success criteria 1.4.3 (AA) and 1.4.6 (AAA) */
+const MINIMUM_RATIOS: Record<ContrastTextSize, Record<ContrastLevel, number>> = {
+  text: { AA: 4.5, AAA: 7 },
+  large: { AA: 3, AAA: 4.5 },
+};
+
+interface ContrastPairing {
+  id: string;
+  label: string;
+  foreground: string;
+  background: string;
+  size: ContrastTextSize;
+}
+
+/**
+ * Text and background pairings used by the built-in components; `white` is
+ * hard-coded in components, other tokens are theme paths
+ */
+const PAIRINGS: ContrastPairing[] = [
+  {
+    id: 'primary-on-white',
+    label: 'Links, text and outlined buttons (text-primary on white)',
+    foreground: 'brand.colors.primary',
+    background: 'white',
+    size: 'text',
+  },
+  {
+    id: 'white-on-primary',
+    label: 'Filled buttons and badges (text-white on bg-primary)',
+    foreground: 'white',
+    background: 'brand.colors.primary',
+    size: 'text',
+  },
+  {
+    id: 'white-on-primary-hover',
+    label: 'Filled buttons on hover (text-white on bg-primary-hover)',
+    foreground: 'white',
+    background: 'brand.colors.primaryHover',
+    size: 'text',
+  },
+  {
+    id: 'white-on-primary-dark',
+    label: 'Gradient stats band (text-white on primary-dark)',
+    foreground: 'white',
+    background: 'brand.colors.primaryDark',
+    size: 'text',
+  },
+  {
+    id: 'primary-on-slate-50',
+    label: 'Links on tinted sections (text-primary on bg-slate-50)',
+    foreground: 'brand.colors.primary',
+    background: 'colors.slate.50',
+    size: 'text',
+  },
+  {
+    id: 'white-on-hero-gradient-start',
+    label: 'Hero and service page headers (text-white on hero gradient)',
+    foreground: 'white',
+    background: 'brand.colors.heroGradientStart',
+    size: 'text',
+  },
+  {
+    id: 'white-on-hero-gradient-end',
+    label: 'Hero and service page headers (text-white on hero gradient)',
+    foreground: 'white',
+    background: 'brand.colors.heroGradientEnd',
+    size: 'text',
+  },
+  {
+    id: 'white-on-footer-gradient-start',
+    label: 'Footer (text-white on footer gradient)',
+    foreground: 'white',
+    background: 'brand.colors.footerGradientStart',
+    size: 'text',
+  },
+  {
+    id: 'white-on-footer-gradient-end',
+    label: 'Footer (text-white on footer gradient)',
+    foreground: 'white',
+    background: 'brand.colors.footerGradientEnd',
+    size: 'text',
+  },
+  ...(
+    [
+      [900, 'Headings and body text'],
+      [700, 'Body copy'],
+      [600, 'Secondary text'],
+      [500, 'Captions and addresses'],
+      [400, 'Placeholders and icons'],
+    ] as const
+  ).map(([shade, label]) => ({
+    id: `slate-${shade}-on-white`,
+    label: `${label} (text-slate-${shade} on white)`,
+    foreground: `colors.slate.${shade}`,
+    background: 'white',
+    size: 'text' as const,
+  })),
+  {
+    id: 'slate-700-on-slate-50',
+    label: 'Body copy on tinted sections (text-slate-700 on bg-slate-50)',
+    foreground: 'colors.slate.700',
+    background: 'colors.slate.50',
+    size: 'text',
+  },
+  {
+    id: 'foreground-on-background',
+    label: 'Page text (--color-foreground on --color-background)',
+    foreground: 'colors.foreground',
+    background: 'colors.background',
+    size: 'text',
+  },
+];
+
+export interface ContrastCheck {
+  id: string;
+  /** Where components render the pairing */
+  label: string;
+  /** Theme path of the text color, or 'white' */
+  foreground: string;
+  /** Theme path of the background color, or 'white' */
+  background: string;
+  foregroundColor: string;
+  backgroundColor: string;
+  size: ContrastTextSize;
+  /** Contrast ratio, rounded down to two decimals */
+  ratio: number;
+  aa: boolean;
+  aaa: boolean;
+  /** Nearest shade of the theme color that meets the audit level, for failures */
+  suggestion?: {
+    /** Theme path to change */
+    token: string;
+    color: string;
+    ratio: number;
+  };
+}
+
+export interface ContrastAuditOptions {
+  /** Level a pairing must meet to pass @default 'AA' */
+  level?: ContrastLevel;
+  /** Color scheme to audit @default the base palette */
+  scheme?: string;
+}
+
+export interface ContrastAudit {
+  level: ContrastLevel;
+  scheme?: string;
+  checks: ContrastCheck[];
+  /** Checks below the audit level */
+  failures: ContrastCheck[];
+  /** Pairings with a color that can't be measured outside the browser, such as `var()` */
+  skipped: Array<{ id: string; token: string; color: string }>;
+}
+
+function getTokenColor(theme: ThemeConfig, token: string): string {
+  if (token === 'white') return '#ffffff';
+  if (token === 'colors.background') return theme.colors.background ?? '#ffffff';
+  if (token === 'colors.foreground') return theme.colors.foreground ?? theme.colors.slate[900];
+
+  const value = token
+    .split('.')
+    .reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], theme);
+  return String(value);
+}
+
+function floorRatio(ratio: number): number {
+  return Math.floor(ratio * 100) / 100;
+}
+
+/**
+ * Find the closest lightness of a color, keeping its hue, that reaches a ratio
+ */
+function findPassingShade(color: string, against: string, minimum: number): string | undefined {
+  const rgb = parseColor(color);
+  if (!rgb) return undefined;
+  const base = rgbToOklch(rgb);
+
+  for (let delta = 0.005; delta <= 1; delta += 0.005) {
+    for (const l of [base.l - delta, base.l + delta]) {
+      if (l < 0 || l > 1) continue;
+      const candidate = oklchToHex({ ...base, l });
+      if (getContrastRatio(candidate, against) >= minimum) return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check the contrast of every text and background pairing the components use
+ *
+ * Ratios follow WCAG 2.2: 4.5:1 for AA and 7:1 for AAA. Failing pairings
+ * suggest the nearest shade of the theme color, as components hard-code
+ * white. Never rounds a ratio up to pass.
+ *
+ * @example
+ * const { failures } = auditThemeContrast(theme)
+ * // [{ id: 'white-on-primary', ratio: 2.91, suggestion: { token: 'brand.colors.primary', ... } }]
+ */
+export function auditThemeContrast(
+  theme: ThemeConfig,
+  options: ContrastAuditOptions = {}
+): ContrastAudit {
+  const { level = 'AA', scheme } = options;
+  const palette = scheme ? resolveColorScheme(theme, scheme) : theme;
+  const audit: ContrastAudit = { level, scheme, checks: [], failures: [], skipped: [] };
+
+  for (const pairing of PAIRINGS) {
+    const foregroundColor = getTokenColor(palette, pairing.foreground);
+    const backgroundColor = getTokenColor(palette, pairing.background);
+
+    const unmeasurable = [
+      [pairing.foreground, foregroundColor],
+      [pairing.background, backgroundColor],
+    ].find(([, color]) => !parseColor(color));
+    if (unmeasurable) {
+      audit.skipped.push({ id: pairing.id, token: unmeasurable[0], color: unmeasurable[1] });
+      continue;
+    }
+
+    const ratio = getContrastRatio(foregroundColor, backgroundColor);
+    const minimums = MINIMUM_RATIOS[pairing.size];
+    const check: ContrastCheck = {
+      ...pairing,
+      foregroundColor,
+      backgroundColor,
+      ratio: floorRatio(ratio),
+      aa: ratio >= minimums.AA,
+      aaa: ratio >= minimums.AAA,
+    };
+
+    if (ratio < minimums[level]) {
+      // Adjust the theme color; white is fixed in the components
+      const adjustForeground = pairing.foreground !== 'white';
+      const token = adjustForeground ? pairing.foreground : pairing.background;
+      const [color, against] = adjustForeground
+        ? [foregroundColor, backgroundColor]
+        : [backgroundColor, foregroundColor];
+      const suggestion = findPassingShade(color, against, minimums[level]);
+      if (suggestion) {
+        check.suggestion = {
+          token,
+          color: suggestion,
+          ratio: floorRatio(getContrastRatio(suggestion, against)),
+        };
+      }
+      audit.failures.push(check);
+    }
+
+    audit.checks.push(check);
+  }
+
+  return audit;
+}
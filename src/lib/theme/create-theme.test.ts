@@ -0,0 +1,71 @@
+// ABOUTME: Tests for OKLCH color conversion and deriving a theme from a brand color
+// ABOUTME: Validates round trips, gamut mapping, tonal scales, variants and overrides
+
+import { describe, it, expect } from 'vitest'
+import { hexToOklch, oklchToHex, createTonalScale } from './color'
+import { createThemeFromBrand } from './create-theme'
+import { validateSiteConfig } from '../../config/validation'
+
+describe('OKLCH conversion', () => {
+  it('should round-trip hex colors', () => {
+    for (const hex of ['#0066cc', '#f16531', '#ffffff', '#000000', '#808080']) {
+      expect(oklchToHex(hexToOklch(hex))).toBe(hex)
+    }
+    expect(hexToOklch('#fff').l).toBeCloseTo(1, 3)
+  })
+
+  it('should reduce chroma, not hue, for colors outside sRGB', () => {
+    const hex = oklchToHex({ l: 0.9, c: 0.4, h: 30 })
+
+    expect(hex).toMatch(/^#[0-9a-f]{6}$/)
+    expect(hexToOklch(hex).h).toBeCloseTo(30, 0)
+    expect(hexToOklch(hex).l).toBeCloseTo(0.9, 2)
+  })
+
+  it('should reject colors that are not hex', () => {
+    expect(() => hexToOklch('blue')).toThrow(/hex color/)
+  })
+})
+
+describe('createTonalScale', () => {
+  it('should step down in lightness while keeping the hue', () => {
+    const scale = createTonalScale('#0066cc')
+    const shades = Object.values(scale).map(hexToOklch)
+
+    shades.slice(1).forEach((shade, index) => {
+      expect(shade.l).toBeLessThan(shades[index].l)
+      expect(shade.h).toBeCloseTo(hexToOklch('#0066cc').h, -1)
+    })
+  })
+})
+
+describe('createThemeFromBrand', () => {
+  it('should derive a complete, valid theme around the exact primary', () => {
+    const theme = createThemeFromBrand({ primary: '#F16531', name: 'Acme' })
+    const primary = hexToOklch('#F16531')
+
+    expect(theme.brand.colors.primary).toBe('#F16531')
+    expect(hexToOklch(theme.brand.colors.primaryHover).l).toBeCloseTo(primary.l - 0.07, 2)
+    expect(hexToOklch(theme.brand.colors.primaryLight).l).toBeGreaterThan(0.9)
+    expect(hexToOklch(theme.brand.colors.primaryDark).l).toBeLessThan(primary.l)
+    expect(validateSiteConfig({ theme }).valid).toBe(true)
+  })
+
+  it('should lighten the hover state of very dark brands', () => {
+    const theme = createThemeFromBrand({ primary: '#1a1a40' })
+
+    expect(hexToOklch(theme.brand.colors.primaryHover).l).toBeGreaterThan(hexToOklch('#1a1a40').l)
+  })
+
+  it('should tint slate with the neutral hue and apply overrides', () => {
+    const theme = createThemeFromBrand(
+      { primary: '#0066cc', neutralHue: 60 },
+      { brand: { colors: { primaryHover: '#004499' } }, design: { borderRadius: 'pill' } }
+    )
+
+    expect(hexToOklch(theme.colors.slate[500]).h).toBeCloseTo(60, -1)
+    expect(theme.brand.colors.primaryHover).toBe('#004499')
+    expect(theme.brand.colors.primaryLight).toBe(createTonalScale('#0066cc')[100])
+    expect(theme.design).toEqual({ borderRadius: 'pill', shadows: 'subtle', spacing: 'comfortable' })
+  })
+})
@@ -0,0 +1,95 @@
+// ABOUTME: Derives a complete ThemeConfig from a single brand color
+// ABOUTME: Computes hover, light and dark variants, gradients and slate shades in OKLCH
+
+import { type ThemeConfig, type SlateColors } from '../../config/theme.schema';
+import { applyConfigOverlay, type ConfigOverlay } from '../../config/overlays';
+import { createTonalScale, hexToOklch, oklchToHex } from './color';
+
+export interface BrandThemeOptions {
+  /** Brand color as hex, used unchanged as `brand.colors.primary` */
+  primary: string;
+  /** Hue in degrees of the slate greys @default the primary's hue */
+  neutralHue?: number;
+  /** Brand name @default 'My Company' */
+  name?: string;
+}
+
+/** Lightness and chroma of each slate shade, after Tailwind's slate */
+const NEUTRAL_STOPS: Record<keyof SlateColors, [number, number]> = {
+  50: [0.984, 0.003],
+  100: [0.968, 0.007],
+  200: [0.929, 0.013],
+  300: [0.869, 0.022],
+  400: [0.704, 0.04],
+  500: [0.554, 0.046],
+  600: [0.446, 0.043],
+  700: [0.372, 0.044],
+  800: [0.279, 0.041],
+  900: [0.208, 0.042],
+};
+
+/**
+ * Create a theme from one brand color
+ *
+ * The primary stays exactly as given. Hover and dark variants step down in
+ * perceived lightness (up for very dark brands, so hover stays visible), the
+ * light variant is a pale tint of the same hue, and the hero and footer
+ * gradients are deep brand-tinted neutrals. Overrides are deep-merged into
+ * the result like a config overlay.
+ *
+ * @example
+ * export const theme = createThemeFromBrand(
+ *   { primary: '#F16531', name: 'Acme' },
+ *   { brand: { fonts: { heading: { family: 'Playfair Display' } } } }
+ * )
+ */
+export function createThemeFromBrand(
+  options: BrandThemeOptions,
+  overrides?: ConfigOverlay<ThemeConfig>
+): ThemeConfig {
+  const primary = hexToOklch(options.primary);
+  const neutralHue = options.neutralHue ?? primary.h;
+  const scale = createTonalScale(options.primary);
+  const shade = (l: number, c = primary.c) => oklchToHex({ l, c, h: primary.h });
+
+  // Very dark brands have no room below them for a visible hover state
+  const isDark = primary.l < 0.35;
+  const primaryHover = shade(isDark ? primary.l + 0.07 : primary.l - 0.07);
+  const primaryDark = shade(Math.max(primary.l - 0.15, 0.2));
+  const brandTint = Math.min(primary.c, 0.06);
+
+  const slate = {} as SlateColors;
+  for (const [name, [l, c]] of Object.entries(NEUTRAL_STOPS)) {
+    slate[Number(name) as keyof SlateColors] = oklchToHex({ l, c, h: neutralHue });
+  }
+
+  const theme: ThemeConfig = {
+    brand: {
+      name: options.name ?? 'My Company',
+      colors: {
+        primary: options.primary,
+        primaryHover,
+        primaryLight: scale[100],
+        primaryDark,
+        primaryGradientStart: options.primary,
+        primaryGradientEnd: primaryDark,
+        heroGradientStart: shade(0.3, brandTint),
+        heroGradientEnd: slate[900],
+        footerGradientStart: slate[900],
+        footerGradientEnd: oklchToHex({ l: 0.15, c: 0.03, h: neutralHue }),
+      },
+      fonts: {
+        heading: { family: 'Inter', weights: [600, 700], fallback: 'sans-serif' },
+        body: { family: 'Inter', weights: [400, 500], fallback: 'sans-serif' },
+      },
+    },
+    design: {
+      borderRadius: 'rounded',
+      shadows: 'subtle',
+      spacing: 'comfortable',
+    },
+    colors: { slate },
+  };
+
+  return overrides ? applyConfigOverlay<ThemeConfig>(theme, overrides).config : theme;
+}
@@ -1,9 +1,40 @@
 // ABOUTME: CSS generation utility for theme system
-// ABOUTME: Converts theme configuration to CSS custom properties
+// ABOUTME: Converts theme configuration and its color schemes to CSS custom properties
 
 import { type ThemeConfig } from '../../config/theme.schema';
+import { getTypographyValues } from './typography';
+
+/** Attribute selecting a color scheme on the root element or any subtree */
+export const THEME_ATTRIBUTE = 'data-theme';
 
 export function generateThemeCSS(theme: ThemeConfig): string {
+  return `
+    ${generateBrandColors(theme)}
+
+    /* Fonts */
+    --font-heading: ${theme.brand.fonts.heading.family}, ${theme.brand.fonts.heading.fallback};
+    --font-body: ${theme.brand.fonts.body.family}, ${theme.brand.fonts.body.fallback};
+    --font-serif: ${theme.brand.fonts.heading.family}, ${theme.brand.fonts.heading.fallback};
+    --font-sans: ${theme.brand.fonts.body.family}, ${theme.brand.fonts.body.fallback};
+
+    ${generatePageColors(theme)}
+  `.trim();
+}
+
+/**
+ * Generate a complete stylesheet for a theme: its variables and design
+ * tokens under the selector, followed by its color scheme rules
+ *
+ * @example
+ * <style dangerouslySetInnerHTML={{ __html: generateThemeStylesheet(theme) }} />
+ */
+export function generateThemeStylesheet(theme: ThemeConfig, selector = ':root'): string {
+  const css = `${selector} {\n${generateThemeCSS(theme)}\n${generateDesignTokens(theme)}\n}`;
+  const schemes = generateColorSchemeCSS(theme, selector);
+  return schemes ? `${css}\n\n${schemes}` : css;
+}
+
+function generateBrandColors(theme: ThemeConfig): string {
   return `
     /* Brand Colors */
     --color-primary: ${theme.brand.colors.primary};
@@ -16,13 +47,11 @@ export function generateThemeCSS(theme: ThemeConfig): string {
     --color-hero-gradient-end: ${theme.brand.colors.heroGradientEnd};
     --color-footer-gradient-start: ${theme.brand.colors.footerGradientStart};
     --color-footer-gradient-end: ${theme.brand.colors.footerGradientEnd};
+  `.trim();
+}
 
-    /* Fonts */
-    --font-heading: ${theme.brand.fonts.heading.family}, ${theme.brand.fonts.heading.fallback};
-    --font-body: ${theme.brand.fonts.body.family}, ${theme.brand.fonts.body.fallback};
-    --font-serif: ${theme.brand.fonts.heading.family}, ${theme.brand.fonts.heading.fallback};
-    --font-sans: ${theme.brand.fonts.body.family}, ${theme.brand.fonts.body.fallback};
-
+function generatePageColors(theme: ThemeConfig): string {
+  return `
     /* Slate Colors */
     --color-slate-50: ${theme.colors.slate[50]};
     --color-slate-100: ${theme.colors.slate[100]};
@@ -34,47 +63,174 @@ export function generateThemeCSS(theme: ThemeConfig): string {
     --color-slate-700: ${theme.colors.slate[700]};
     --color-slate-800: ${theme.colors.slate[800]};
     --color-slate-900: ${theme.colors.slate[900]};
+
+    /* Page Colors */
+    --color-background: ${theme.colors.background ?? '#ffffff'};
+    --color-foreground: ${theme.colors.foreground ?? theme.colors.slate[900]};
   `.trim();
 }
 
-export function generateDesignTokens(theme: ThemeConfig): string {
-  // Border radius mapping
-  const radiusMap: Record<ThemeConfig['design']['borderRadius'], string> = {
-    sharp: '0',
-    rounded: '0.375rem',
-    pill: '9999px',
+/**
+ * List the theme's color schemes, starting with 'light' for the base palette
+ */
+export function getColorSchemeNames(theme: ThemeConfig): string[] {
+  return Array.from(new Set(['light', ...Object.keys(theme.colorSchemes ?? {})]));
+}
+
+/**
+ * Get the theme with a color scheme's overrides applied to the base palette
+ *
+ * Unknown schemes, and 'light' unless it is configured, return the base palette.
+ *
+ * @example
+ * const dark = resolveColorScheme(theme, 'dark')
+ * dark.brand.colors.primary // the dark scheme's primary, or the base one
+ */
+export function resolveColorScheme(theme: ThemeConfig, name: string): ThemeConfig {
+  const scheme = theme.colorSchemes?.[name];
+  if (!scheme) return theme;
+
+  return {
+    ...theme,
+    brand: { ...theme.brand, colors: { ...theme.brand.colors, ...scheme.brand } },
+    colors: {
+      ...theme.colors,
+      slate: { ...theme.colors.slate, ...scheme.slate },
+      background: scheme.background ?? theme.colors.background,
+      foreground: scheme.foreground ?? theme.colors.foreground,
+    },
   };
+}
+
+/**
+ * Get the native color scheme (form controls, scrollbars) of a color scheme
+ */
+export function getNativeColorScheme(theme: ThemeConfig, name: string): 'light' | 'dark' {
+  return theme.colorSchemes?.[name]?.colorScheme ?? (name === 'dark' ? 'dark' : 'light');
+}
+
+/**
+ * Generate the CSS rules that switch between the theme's color schemes
+ *
+ * Follows the generateThemeCSS() block for the same selector. A 'dark' scheme
+ * applies under `prefers-color-scheme: dark` until a visitor picks a scheme,
+ * which sets `data-theme` on the root element. `data-theme` on any other
+ * element switches the scheme of that subtree. Returns an empty string for
+ * themes without color schemes.
+ *
+ * Only the variables change: built-in components keep their `bg-white`
+ * surfaces, while the page and app markup follow `--color-background` and
+ * `--color-foreground`.
+ *
+ * @example
+ * const css = `:root {\n${generateThemeCSS(theme)}\n}\n${generateColorSchemeCSS(theme)}`
+ */
+export function generateColorSchemeCSS(theme: ThemeConfig, selector = ':root'): string {
+  if (Object.keys(theme.colorSchemes ?? {}).length === 0) return '';
 
-  // Shadow mapping
-  const shadowMap: Record<ThemeConfig['design']['shadows'], string> = {
-    flat: 'none',
-    subtle: '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)',
-    prominent: '0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)',
+  const block = (selectors: string, name: string) => {
+    const scheme = resolveColorScheme(theme, name);
+    return `${selectors} {
+    ${generateBrandColors(scheme)}
+
+    ${generatePageColors(scheme)}
+
+    color-scheme: ${getNativeColorScheme(theme, name)};
+}`;
   };
 
-  // Spacing mapping
-  const spacingMap: Record<ThemeConfig['design']['spacing'], { section: string; element: string }> = {
-    compact: {
-      section: '3rem',
-      element: '1rem',
-    },
-    comfortable: {
-      section: '6rem',
-      element: '1.5rem',
-    },
-    spacious: {
-      section: '8rem',
-      element: '2rem',
-    },
+  // Site selectors may sit on the root element or below it
+  const scoped = (scope: string) =>
+    selector === ':root'
+      ? scope
+      : `${scope} ${selector}, ${scope}${selector}, ${selector} ${scope}`;
+
+  const rules = getColorSchemeNames(theme).map((name) =>
+    block(scoped(`[${THEME_ATTRIBUTE}="${name}"]`), name)
+  );
+
+  if (theme.colorSchemes?.dark) {
+    const system = `:root:not([${THEME_ATTRIBUTE}])`;
+    const selectors = selector === ':root' ? system : `${system} ${selector}, ${system}${selector}`;
+    rules.unshift(`@media (prefers-color-scheme: dark) {\n${block(selectors, 'dark')}\n}`);
+  }
+
+  return rules.join('\n\n');
+}
+
+export interface DesignTokenValues {
+  radius: string;
+  shadow: string;
+  spaceSection: string;
+  spaceElement: string;
+}
+
+/** CSS value of each `design.borderRadius` choice */
+export const RADIUS_VALUES: Record<ThemeConfig['design']['borderRadius'], string> = {
+  sharp: '0',
+  rounded: '0.375rem',
+  pill: '9999px',
+};
+
+/** CSS value of each `design.shadows` choice */
+export const SHADOW_VALUES: Record<ThemeConfig['design']['shadows'], string> = {
+  flat: 'none',
+  subtle: '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)',
+  prominent: '0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)',
+};
+
+/** Section and element spacing of each `design.spacing` choice */
+export const SPACING_VALUES: Record<
+  ThemeConfig['design']['spacing'],
+  { section: string; element: string }
+> = {
+  compact: {
+    section: '3rem',
+    element: '1rem',
+  },
+  comfortable: {
+    section: '6rem',
+    element: '1.5rem',
+  },
+  spacious: {
+    section: '8rem',
+    element: '2rem',
+  },
+};
+
+/**
+ * Get the CSS values of the theme's radius, shadow and spacing choices
+ */
+export function getDesignTokenValues(theme: ThemeConfig): DesignTokenValues {
+  const spacing = SPACING_VALUES[theme.design.spacing];
+
+  return {
+    radius: RADIUS_VALUES[theme.design.borderRadius],
+    shadow: SHADOW_VALUES[theme.design.shadows],
+    spaceSection: spacing.section,
+    spaceElement: spacing.element,
   };
+}
 
-  const spacing = spacingMap[theme.design.spacing];
+export function generateDesignTokens(theme: ThemeConfig): string {
+  const tokens = getDesignTokenValues(theme);
+  const { sizes, lineHeight, letterSpacing } = getTypographyValues(theme);
+  const fontSizes = Object.entries(sizes)
+    .map(([step, size]) => `--font-size-${step}: ${size};`)
+    .join('\n    ');
 
   return `
     /* Design Tokens */
-    --radius-default: ${radiusMap[theme.design.borderRadius]};
-    --shadow-default: ${shadowMap[theme.design.shadows]};
-    --space-section: ${spacing.section};
-    --space-element: ${spacing.element};
+    --radius-default: ${tokens.radius};
+    --shadow-default: ${tokens.shadow};
+    --space-section: ${tokens.spaceSection};
+    --space-element: ${tokens.spaceElement};
+
+    /* Typography */
+    ${fontSizes}
+    --line-height-body: ${lineHeight.body};
+    --line-height-heading: ${lineHeight.heading};
+    --letter-spacing-body: ${letterSpacing.body};
+    --letter-spacing-heading: ${letterSpacing.heading};
   `.trim();
 }
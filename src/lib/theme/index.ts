@@ -1,5 +1,80 @@
 // ABOUTME: Theme utilities export
 // ABOUTME: Export all theme-related utilities
 
-export { generateThemeCSS, generateDesignTokens } from './generate-css';
+export {
+  generateThemeCSS,
+  generateDesignTokens,
+  generateColorSchemeCSS,
+  getColorSchemeNames,
+  resolveColorScheme,
+  getNativeColorScheme,
+  getDesignTokenValues,
+  RADIUS_VALUES,
+  SHADOW_VALUES,
+  SPACING_VALUES,
+  generateThemeStylesheet,
+  THEME_ATTRIBUTE,
+  type DesignTokenValues,
+} from './generate-css';
+export {
+  getStoredColorScheme,
+  applyColorScheme,
+  getThemeScript,
+  THEME_STORAGE_KEY,
+  type ColorSchemePreference,
+  type ThemeScriptOptions,
+} from './color-scheme';
+export {
+  hexToOklch,
+  oklchToHex,
+  rgbToOklch,
+  parseHexColor,
+  parseColor,
+  formatHexColor,
+  getRelativeLuminance,
+  getContrastRatio,
+  createTonalScale,
+  type Oklch,
+  type Rgb,
+  type TonalShade,
+  type TonalScale,
+} from './color';
+export { createThemeFromBrand, type BrandThemeOptions } from './create-theme';
+export {
+  auditThemeContrast,
+  type ContrastAudit,
+  type ContrastAuditOptions,
+  type ContrastCheck,
+  type ContrastLevel,
+  type ContrastTextSize,
+} from './contrast';
+export {
+  getTypeScale,
+  getTypographyValues,
+  TYPE_SCALE_STEPS,
+  TYPE_SCALE_CLASSES,
+  type TypeScale,
+  type TypeScaleStep,
+  type TypographyValues,
+} from './typography';
+export { createTailwindPreset, generateTailwindTheme, type TailwindPreset } from './tailwind';
+export {
+  exportThemeTokens,
+  importThemeTokens,
+  type DesignTokenDocument,
+  type ThemeTokenImportOptions,
+  type ThemeTokenImportResult,
+  type TokenColor,
+  type TokenDimension,
+  type TokenShadow,
+} from './theme-tokens';
+export {
+  getThemeVariables,
+  getScopedThemeVariables,
+  resolveThemeScope,
+  resolveThemeTokens,
+  type ThemeOverrides,
+  type ThemeScopeOptions,
+  type ThemeTokens,
+} from './theme-scope';
 export { getFontConfig, getFontVariables } from './load-fonts';
@@ -0,0 +1,70 @@
+// ABOUTME: Tests for the Tailwind v3 preset and v4 @theme CSS generated from a theme
+// ABOUTME: Validates the utilities components depend on, variable fallbacks and dark variant
+
+import { describe, it, expect } from 'vitest'
+import { createTailwindPreset, generateTailwindTheme } from './tailwind'
+import { createTestTheme } from '../../test/fixtures'
+
+describe('createTailwindPreset', () => {
+  it('should define the utilities components use', () => {
+    const { extend } = createTailwindPreset(createTestTheme()).theme
+
+    expect(Object.keys(extend.colors)).toEqual(
+      expect.arrayContaining([
+        'primary',
+        'primary-hover',
+        'primary-light',
+        'primary-dark',
+        'charcoal',
+        'warm-gray',
+      ])
+    )
+    expect(Object.keys(extend.fontFamily)).toEqual(['heading', 'body', 'condensed'])
+    expect(Object.keys(extend.backgroundImage)).toEqual(
+      expect.arrayContaining(['hero-gradient', 'hero-gradient-dark', 'brand-gradient-light'])
+    )
+  })
+
+  it('should read the theme variables with the theme values as fallbacks', () => {
+    const preset = createTailwindPreset(createTestTheme())
+    const { extend } = preset.theme
+
+    expect(extend.colors.primary).toBe(
+      'color-mix(in srgb, var(--color-primary, #0066cc) calc(<alpha-value> * 100%), transparent)'
+    )
+    expect(extend.colors.slate).toMatchObject({ 500: expect.stringContaining('#64748b') })
+    expect(extend.colors.charcoal).toContain('var(--color-slate-800, #1e293b)')
+    expect(extend.fontFamily.heading).toEqual(['var(--font-heading, Inter, sans-serif)'])
+    expect(extend.borderRadius.default).toBe('var(--radius-default, 0.375rem)')
+    expect(extend.fontSize.h2).toEqual([
+      'var(--font-size-h2, clamp(1.728rem, 1.4626rem + 1.1325vw, 2.3686rem))',
+      {
+        lineHeight: 'var(--line-height-heading, 1.25)',
+        letterSpacing: 'var(--letter-spacing-heading, normal)',
+      },
+    ])
+    expect(preset.darkMode).toEqual(['selector', '[data-theme="dark"]'])
+  })
+})
+
+describe('generateTailwindTheme', () => {
+  it('should emit @theme tokens, gradient utilities and a dark variant', () => {
+    const css = generateTailwindTheme(createTestTheme())
+
+    expect(css).toContain('@theme {\n  --color-primary: #0066cc;')
+    expect(css).toContain('--color-slate-900: #0f172a;')
+    expect(css).toContain('--font-body: Inter, sans-serif;')
+    expect(css).toContain('--spacing-section: var(--space-section, 6rem);')
+    expect(css).toContain('--font-condensed: var(--font-family-condensed, var(--font-heading));')
+    expect(css).toContain('--color-charcoal: var(--color-slate-800);')
+    expect(css).toContain('--text-lead--line-height: var(--line-height-body, 1.625);')
+    expect(css).toContain(
+      '@utility bg-hero-gradient {\n' +
+        '  background-image: linear-gradient(135deg, var(--color-hero-gradient-start), ' +
+        'var(--color-hero-gradient-end));\n}'
+    )
+    expect(css).toContain(
+      '@custom-variant dark (&:where([data-theme="dark"], [data-theme="dark"] *));'
+    )
+  })
+})
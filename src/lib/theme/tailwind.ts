@@ -0,0 +1,222 @@
+// ABOUTME: Tailwind v3 preset and v4 @theme CSS built from ThemeConfig
+// ABOUTME: Defines the color, font, type scale, gradient, radius, shadow and spacing utilities
+
+import { type ThemeConfig } from '../../config/theme.schema';
+import { THEME_ATTRIBUTE, getDesignTokenValues } from './generate-css';
+import { getTypographyValues, type TypeScaleStep } from './typography';
+
+/** Tailwind v3 preset; typed loosely so the framework doesn't depend on tailwindcss */
+export interface TailwindPreset {
+  darkMode: ['selector', string];
+  theme: {
+    extend: {
+      colors: Record<string, string | Record<string, string>>;
+      fontFamily: Record<string, string[]>;
+      fontSize: Record<string, [string, { lineHeight: string; letterSpacing: string }]>;
+      backgroundImage: Record<string, string>;
+      borderRadius: Record<string, string>;
+      boxShadow: Record<string, string>;
+      spacing: Record<string, string>;
+    };
+  };
+}
+
+/** Colors components use under their own names, e.g. `text-charcoal` */
+const COLOR_ALIASES: Record<string, string> = {
+  charcoal: 'slate-800',
+  'warm-gray': 'slate-50',
+};
+
+/** Gradient utilities (`bg-hero-gradient`) as stops of theme colors */
+const GRADIENTS: Record<string, [string, string, string]> = {
+  'primary-gradient': ['135deg', 'primary-gradient-start', 'primary-gradient-end'],
+  'hero-gradient': ['135deg', 'hero-gradient-start', 'hero-gradient-end'],
+  'hero-gradient-dark': ['135deg', 'hero-gradient-end', 'footer-gradient-end'],
+  'footer-gradient': ['135deg', 'footer-gradient-start', 'footer-gradient-end'],
+  'brand-gradient-light': ['to bottom', 'slate-50', 'background'],
+};
+
+const DARK_SELECTOR = `[${THEME_ATTRIBUTE}="dark"]`;
+
+/** Steps set in the heading line height and letter spacing */
+const HEADING_STEPS: TypeScaleStep[] = ['display', 'h1', 'h2', 'h3', 'h4'];
+
+/**
+ * Font size utilities (`text-h2`, `text-lead`) with their line height and
+ * letter spacing, reading the typography variables from generateThemeCSS()
+ */
+function getFontSizes(theme: ThemeConfig) {
+  const { sizes, lineHeight, letterSpacing } = getTypographyValues(theme);
+  const ref = (name: string, fallback: string) => `var(--${name}, ${fallback})`;
+
+  return Object.entries(sizes).map(([step, size]) => {
+    const role = HEADING_STEPS.includes(step as TypeScaleStep) ? 'heading' : 'body';
+    return {
+      step,
+      size: ref(`font-size-${step}`, size),
+      lineHeight: ref(`line-height-${role}`, lineHeight[role]),
+      letterSpacing: ref(`letter-spacing-${role}`, letterSpacing[role]),
+    };
+  });
+}
+
+/**
+ * Theme colors by utility name, e.g. `primary-hover` or `slate-500`
+ */
+function getThemeColors(theme: ThemeConfig): Record<string, string> {
+  const { colors } = theme.brand;
+  const slate = Object.entries(theme.colors.slate).map(([shade, value]) => [
+    `slate-${shade}`,
+    value as string,
+  ]);
+
+  return Object.fromEntries([
+    ['primary', colors.primary],
+    ['primary-hover', colors.primaryHover],
+    ['primary-light', colors.primaryLight],
+    ['primary-dark', colors.primaryDark],
+    ['primary-gradient-start', colors.primaryGradientStart],
+    ['primary-gradient-end', colors.primaryGradientEnd],
+    ['hero-gradient-start', colors.heroGradientStart],
+    ['hero-gradient-end', colors.heroGradientEnd],
+    ['footer-gradient-start', colors.footerGradientStart],
+    ['footer-gradient-end', colors.footerGradientEnd],
+    ...slate,
+    ['background', theme.colors.background ?? '#ffffff'],
+    ['foreground', theme.colors.foreground ?? theme.colors.slate[900]],
+  ]);
+}
+
+function getFontStacks(theme: ThemeConfig): Record<string, string> {
+  const { heading, body } = theme.brand.fonts;
+  return {
+    heading: `${heading.family}, ${heading.fallback}`,
+    body: `${body.family}, ${body.fallback}`,
+  };
+}
+
+/**
+ * Create a Tailwind v3 preset for the theme
+ *
+ * Utilities read the CSS variables from generateThemeCSS(), so color schemes
+ * and per-site themes apply at runtime; the theme's values are the fallbacks
+ * when the variables are missing. Colors accept opacity modifiers such as
+ * `text-charcoal/80`. `dark:` variants follow `data-theme="dark"`.
+ *
+ * @example
+ * // tailwind.config.ts
+ * import { createTailwindPreset } from '@zoyth/simple-site-framework'
+ * import { myTheme } from './src/config/theme'
+ *
+ * export default { presets: [createTailwindPreset(myTheme)], content: [...] }
+ */
+export function createTailwindPreset(theme: ThemeConfig): TailwindPreset {
+  const colors = getThemeColors(theme);
+  const ref = (name: string) => `var(--color-${name}, ${colors[name]})`;
+  const color = (name: string) =>
+    `color-mix(in srgb, ${ref(name)} calc(<alpha-value> * 100%), transparent)`;
+
+  const slate: Record<string, string> = {};
+  const extendColors: Record<string, string | Record<string, string>> = { slate };
+  for (const name of Object.keys(colors)) {
+    if (name.startsWith('slate-')) slate[name.slice('slate-'.length)] = color(name);
+    else extendColors[name] = color(name);
+  }
+  for (const [alias, name] of Object.entries(COLOR_ALIASES)) {
+    extendColors[alias] = color(name);
+  }
+
+  const fonts = getFontStacks(theme);
+  const tokens = getDesignTokenValues(theme);
+
+  return {
+    darkMode: ['selector', DARK_SELECTOR],
+    theme: {
+      extend: {
+        colors: extendColors,
+        fontFamily: {
+          heading: [`var(--font-heading, ${fonts.heading})`],
+          body: [`var(--font-body, ${fonts.body})`],
+          condensed: [`var(--font-condensed, var(--font-heading, ${fonts.heading}))`],
+        },
+        fontSize: Object.fromEntries(
+          getFontSizes(theme).map(({ step, size, lineHeight, letterSpacing }) => [
+            step,
+            [size, { lineHeight, letterSpacing }],
+          ])
+        ),
+        backgroundImage: Object.fromEntries(
+          Object.entries(GRADIENTS).map(([name, [angle, start, end]]) => [
+            name,
+            `linear-gradient(${angle}, ${ref(start)}, ${ref(end)})`,
+          ])
+        ),
+        borderRadius: { default: `var(--radius-default, ${tokens.radius})` },
+        boxShadow: { default: `var(--shadow-default, ${tokens.shadow})` },
+        spacing: {
+          section: `var(--space-section, ${tokens.spaceSection})`,
+          element: `var(--space-element, ${tokens.spaceElement})`,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Generate Tailwind v4 CSS for the theme: `@theme` tokens, type scale,
+ * gradient `@utility` rules and a `dark` variant following `data-theme="dark"`
+ *
+ * Token names match generateThemeCSS(), so color schemes and per-site spacing
+ * still switch the utilities at runtime. Set the condensed font with
+ * `--font-family-condensed`; `--font-condensed` is the utility's own token.
+ *
+ * @example
+ * // scripts/build-theme.ts, then `@import './theme.css';` after `@import 'tailwindcss';`
+ * fs.writeFileSync('src/app/theme.css', generateTailwindTheme(myTheme))
+ */
+export function generateTailwindTheme(theme: ThemeConfig): string {
+  const colors = getThemeColors(theme);
+  const fonts = getFontStacks(theme);
+  const tokens = getDesignTokenValues(theme);
+  const declarations = (entries: Array<[string, string]>) =>
+    entries.map(([name, value]) => `  ${name}: ${value};`).join('\n');
+
+  const themeBlock = declarations([
+    ...Object.entries(colors).map(([name, value]): [string, string] => [`--color-${name}`, value]),
+    ['--font-heading', fonts.heading],
+    ['--font-body', fonts.body],
+    ['--radius-default', tokens.radius],
+    ['--shadow-default', tokens.shadow],
+  ]);
+
+  // Aliases resolve where they are used, so they follow scheme, spacing and typography
+  // overrides. The condensed font reads its own variable: a theme variable can't refer to
+  // itself.
+  const inlineBlock = declarations([
+    ...Object.entries(COLOR_ALIASES).map(([alias, name]): [string, string] => [
+      `--color-${alias}`,
+      `var(--color-${name})`,
+    ]),
+    ['--font-condensed', 'var(--font-family-condensed, var(--font-heading))'],
+    ['--spacing-section', `var(--space-section, ${tokens.spaceSection})`],
+    ['--spacing-element', `var(--space-element, ${tokens.spaceElement})`],
+    ...getFontSizes(theme).flatMap(({ step, size, lineHeight, letterSpacing }) => [
+      [`--text-${step}`, size] as [string, string],
+      [`--text-${step}--line-height`, lineHeight] as [string, string],
+      [`--text-${step}--letter-spacing`, letterSpacing] as [string, string],
+    ]),
+  ]);
+
+  const utilities = Object.entries(GRADIENTS).map(
+    ([name, [angle, start, end]]) =>
+      `@utility bg-${name} {\n  background-image: linear-gradient(${angle}, ` +
+      `var(--color-${start}), var(--color-${end}));\n}`
+  );
+
+  return [
+    `@theme {\n${themeBlock}\n}`,
+    `@theme inline {\n${inlineBlock}\n}`,
+    ...utilities,
+    `@custom-variant dark (&:where(${DARK_SELECTOR}, ${DARK_SELECTOR} *));`,
+  ].join('\n\n');
+}
@@ -0,0 +1,115 @@
+// ABOUTME: Resolves a theme with scoped overrides into tokens and CSS custom properties
+// ABOUTME: Backs ThemeProvider, ThemeScope and useTheme() for per-section palettes
+
+import {
+  type ThemeConfig,
+  type BrandColors,
+  type SlateColors,
+} from '../../config/theme.schema';
+import { applyConfigOverlay, type ConfigOverlay } from '../../config/overlays';
+import {
+  generateDesignTokens,
+  generateThemeCSS,
+  getDesignTokenValues,
+  resolveColorScheme,
+  type DesignTokenValues,
+} from './generate-css';
+import { getTypographyValues, type TypographyValues } from './typography';
+
+/** Theme values that differ in a subtree, deep-merged like a config overlay */
+export type ThemeOverrides = ConfigOverlay<ThemeConfig>;
+
+export interface ThemeTokens {
+  /** The theme with the scope's color scheme and overrides applied */
+  config: ThemeConfig;
+  colors: BrandColors & { slate: SlateColors; background: string; foreground: string };
+  /** Font stacks, e.g. `Inter, sans-serif` */
+  fonts: { heading: string; body: string };
+  design: DesignTokenValues;
+  typography: TypographyValues;
+  /** CSS custom properties by name, e.g. `--color-primary` */
+  variables: Record<string, string>;
+}
+
+const DECLARATION_PATTERN = /(--[\w-]+):\s*([^;]+);/g;
+
+/**
+ * Get the CSS custom properties generateThemeCSS() and generateDesignTokens()
+ * declare for a theme
+ */
+export function getThemeVariables(theme: ThemeConfig): Record<string, string> {
+  const css = `${generateThemeCSS(theme)}\n${generateDesignTokens(theme)}`;
+  return Object.fromEntries(
+    Array.from(css.matchAll(DECLARATION_PATTERN), (match) => [match[1], match[2].trim()])
+  );
+}
+
+export interface ThemeScopeOptions {
+  /** Color scheme of the scope, e.g. 'dark' */
+  scheme?: string;
+  overrides?: ThemeOverrides;
+}
+
+/**
+ * Resolve the theme of a scope nested in another
+ *
+ * A scheme replaces the palette with that scheme of the base theme, so a
+ * 'light' scope inside a 'dark' one gets the light palette back; fonts,
+ * design and typography come from the enclosing scope. Overrides apply last.
+ *
+ * @example
+ * const band = resolveThemeScope(theme, theme, { scheme: 'dark' })
+ */
+export function resolveThemeScope(
+  base: ThemeConfig,
+  parent: ThemeConfig,
+  { scheme, overrides }: ThemeScopeOptions = {}
+): ThemeConfig {
+  let theme = parent;
+  if (scheme) {
+    const palette = resolveColorScheme(base, scheme);
+    theme = {
+      ...parent,
+      brand: { ...parent.brand, colors: palette.brand.colors },
+      colors: palette.colors,
+    };
+  }
+  return overrides ? applyConfigOverlay<ThemeConfig>(theme, overrides).config : theme;
+}
+
+/**
+ * Get the variables a subtree must re-declare to switch from one theme to another
+ */
+export function getScopedThemeVariables(
+  parent: ThemeConfig,
+  scoped: ThemeConfig
+): Record<string, string> {
+  const inherited = getThemeVariables(parent);
+  return Object.fromEntries(
+    Object.entries(getThemeVariables(scoped)).filter(([name, value]) => inherited[name] !== value)
+  );
+}
+
+/**
+ * Resolve a theme into the values components use
+ */
+export function resolveThemeTokens(theme: ThemeConfig): ThemeTokens {
+  const { heading, body } = theme.brand.fonts;
+
+  return {
+    config: theme,
+    colors: {
+      ...theme.brand.colors,
+      slate: theme.colors.slate,
+      background: theme.colors.background ?? '#ffffff',
+      foreground: theme.colors.foreground ?? theme.colors.slate[900],
+    },
+    fonts: {
+      heading: `${heading.family}, ${heading.fallback}`,
+      body: `${body.family}, ${body.fallback}`,
+    },
+    design: getDesignTokenValues(theme),
+    typography: getTypographyValues(theme),
+    variables: getThemeVariables(theme),
+  };
+}
@@ -0,0 +1,136 @@
+// ABOUTME: Tests for exporting and importing themes as W3C design tokens (DTCG JSON)
+// ABOUTME: Validates round trips, token formats, aliases, design choices and unmapped warnings
+
+import { describe, it, expect } from 'vitest'
+import { exportThemeTokens, importThemeTokens } from './theme-tokens'
+import { createTestTheme } from '../../test/fixtures'
+
+describe('exportThemeTokens', () => {
+  it('should write DTCG tokens at the theme config paths', () => {
+    const tokens = JSON.parse(exportThemeTokens(createTestTheme()))
+
+    expect(tokens.brand.colors.$type).toBe('color')
+    expect(tokens.brand.colors.primary.$value).toEqual({
+      colorSpace: 'srgb',
+      components: [0, 0.4, 0.8],
+      hex: '#0066cc',
+    })
+    expect(tokens.brand.fonts.heading.family).toEqual({
+      $type: 'fontFamily',
+      $value: ['Inter', 'sans-serif'],
+    })
+    expect(tokens.brand.fonts.body.weights[400]).toEqual({ $value: 400 })
+    expect(tokens.design.borderRadius.$value).toEqual({ value: 0.375, unit: 'rem' })
+    expect(tokens.design.shadows.$value[0]).toMatchObject({
+      color: { colorSpace: 'srgb', components: [0, 0, 0], alpha: 0.1 },
+      offsetY: { value: 1, unit: 'px' },
+    })
+    expect(tokens.colors.slate['500'].$value.hex).toBe('#64748b')
+  })
+})
+
+describe('importThemeTokens', () => {
+  it('should round-trip an exported theme', () => {
+    const theme = {
+      ...createTestTheme(),
+      design: { borderRadius: 'pill', shadows: 'flat', spacing: 'spacious' },
+    } as const
+
+    const result = importThemeTokens(exportThemeTokens(theme))
+
+    expect(result.theme).toEqual(theme)
+    expect(result.warnings).toEqual([])
+    expect(importThemeTokens(exportThemeTokens(createTestTheme())).theme).toEqual(createTestTheme())
+  })
+
+  it('should round-trip color schemes and typography', () => {
+    const theme = {
+      ...createTestTheme(),
+      typography: {
+        baseSize: 18,
+        scaleRatio: 1.25,
+        fluid: { minViewport: 320, minScaleRatio: 1.125 },
+        lineHeight: { heading: 1.1 },
+        letterSpacing: { heading: '-0.02em' },
+      },
+      colorSchemes: {
+        dark: {
+          colorScheme: 'dark',
+          slate: { 900: '#f1f5f9' },
+          background: '#0f172a',
+          foreground: '#f1f5f9',
+        },
+        contrast: { brand: { primary: '#003366' } },
+      },
+    } as const
+
+    const tokens = JSON.parse(exportThemeTokens(theme))
+    const result = importThemeTokens(tokens)
+
+    expect(tokens.typography.baseSize.$value).toEqual({ value: 18, unit: 'px' })
+    expect(tokens.colorSchemes.dark.slate['900'].$value.hex).toBe('#f1f5f9')
+    expect(result.theme).toEqual(theme)
+    expect(result.warnings).toEqual([])
+  })
+
+  it('should follow aliases and accept earlier draft values', () => {
+    const { theme } = importThemeTokens(
+      {
+        palette: { orange: { $type: 'color', $value: '#f16531' } },
+        brand: {
+          colors: { primary: { $value: '{palette.orange}' } },
+          fonts: {
+            heading: {
+              family: { $type: 'fontFamily', $value: 'Playfair Display, serif' },
+              weights: {
+                $type: 'fontWeight',
+                regular: { $value: 'regular' },
+                bold: { $value: 'bold' },
+              },
+            },
+          },
+        },
+        design: { borderRadius: { $type: 'dimension', $value: '0px' } },
+      },
+      { base: createTestTheme() }
+    )
+
+    expect(theme.brand.colors.primary).toBe('#f16531')
+    expect(theme.brand.fonts.heading).toEqual({
+      family: 'Playfair Display',
+      weights: [400, 700],
+      fallback: 'serif',
+    })
+    expect(theme.design.borderRadius).toBe('sharp')
+    expect(theme.brand.colors.primaryHover).toBe(createTestTheme().brand.colors.primaryHover)
+  })
+
+  it('should warn about tokens it cannot map instead of dropping them silently', () => {
+    const { theme, warnings } = importThemeTokens(
+      {
+        brand: { colors: { accent: { $type: 'color', $value: '#ff0000' } } },
+        design: {
+          borderRadius: { $type: 'dimension', $value: { value: 0.5, unit: 'rem' } },
+          spacing: { section: { $type: 'dimension', $value: { value: 5, unit: 'rem' } } },
+        },
+        colors: { slate: { 500: { $type: 'dimension', $value: { value: 1, unit: 'px' } } } },
+      },
+      { base: createTestTheme() }
+    )
+
+    expect(warnings.map((warning) => warning.path)).toEqual([
+      'colors.slate.500',
+      'design.borderRadius',
+      'design.spacing',
+      'brand.colors.accent',
+    ])
+    expect(warnings[1].message).toContain('0.5rem matches no choice')
+    expect(theme.design).toEqual(createTestTheme().design)
+  })
+
+  it('should reject tokens that do not make a valid theme', () => {
+    expect(() =>
+      importThemeTokens({ brand: { colors: { primary: { $type: 'color', $value: '#000' } } } })
+    ).toThrow(/Invalid design tokens/)
+  })
+})
@@ -0,0 +1,616 @@
+// ABOUTME: Exports ThemeConfig as W3C Design Tokens Community Group (DTCG) JSON for design tools
+// ABOUTME: Imports DTCG tokens back into a validated ThemeConfig, warning about unmapped tokens
+
+import {
+  type ThemeConfig,
+  type BrandColors,
+  type SlateColors,
+  type ColorSchemeConfig,
+  type TypographyConfig,
+} from '../../config/theme.schema';
+import { applyConfigOverlay, type ConfigOverlay } from '../../config/overlays';
+import { formatConfigIssues, validateSiteConfig, type ConfigIssue } from '../../config/validation';
+import {
+  RADIUS_VALUES,
+  SHADOW_VALUES,
+  SPACING_VALUES,
+  getDesignTokenValues,
+} from './generate-css';
+import { formatHexColor, parseColor, type Rgb } from './color';
+
+/** DTCG color value */
+export interface TokenColor {
+  colorSpace: string;
+  components: Array<number | 'none'>;
+  alpha?: number;
+  hex?: string;
+}
+
+/** DTCG dimension value */
+export interface TokenDimension {
+  value: number;
+  unit: 'px' | 'rem';
+}
+
+/** One layer of a DTCG shadow value */
+export interface TokenShadow {
+  color: TokenColor | string;
+  offsetX: TokenDimension;
+  offsetY: TokenDimension;
+  blur: TokenDimension;
+  spread: TokenDimension;
+  inset?: boolean;
+}
+
+/** A DTCG token file: nested groups of `{ $type, $value }` tokens */
+export type DesignTokenDocument = Record<string, unknown>;
+
+export interface ThemeTokenImportOptions {
+  /** Theme supplying everything the tokens leave out */
+  base?: ThemeConfig;
+  /** Brand name @default the name in the file, then the base's, then 'My Company' */
+  name?: string;
+}
+
+export interface ThemeTokenImportResult {
+  theme: ThemeConfig;
+  /** Tokens that couldn't be mapped, by token path, followed by validation warnings */
+  warnings: ConfigIssue[];
+}
+
+/**
+ * `$extensions` key for values without a token type, such as the brand name,
+ * fluid type sizing, letter spacing and a scheme's native color scheme
+ */
+const TOKEN_EXTENSION = '@zoyth/simple-site-framework';
+
+const BRAND_COLOR_KEYS: Array<keyof BrandColors> = [
+  'primary',
+  'primaryHover',
+  'primaryLight',
+  'primaryDark',
+  'primaryGradientStart',
+  'primaryGradientEnd',
+  'heroGradientStart',
+  'heroGradientEnd',
+  'footerGradientStart',
+  'footerGradientEnd',
+];
+
+const SLATE_SHADES: Array<keyof SlateColors> = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const DEFAULT_DESIGN: ThemeConfig['design'] = {
+  borderRadius: 'rounded',
+  shadows: 'subtle',
+  spacing: 'comfortable',
+};
+
+/** Font weight names allowed by the DTCG format */
+const FONT_WEIGHT_NAMES: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  'extra-light': 200,
+  'ultra-light': 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  'semi-bold': 600,
+  'demi-bold': 600,
+  bold: 700,
+  'extra-bold': 800,
+  'ultra-bold': 800,
+  black: 900,
+  heavy: 900,
+  'extra-black': 950,
+  'ultra-black': 950,
+};
+
+const ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+const MAX_ALIAS_DEPTH = 10;
+
+interface FlatToken {
+  type?: string;
+  value: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseAlpha(css: string): number {
+  const match =
+    /\/\s*([\d.]+)(%?)\s*\)$/.exec(css) ??
+    /^rgba\((?:[^,]*,){3}\s*([\d.]+)(%?)\s*\)$/i.exec(css.trim());
+  if (!match) return 1;
+  return match[2] ? parseFloat(match[1]) / 100 : parseFloat(match[1]);
+}
+
+/**
+ * Convert a CSS color to a DTCG sRGB color; colors only the browser can
+ * resolve, such as `var()`, stay strings
+ */
+function toTokenColor(css: string): TokenColor | string {
+  const rgb = parseColor(css);
+  if (!rgb) return css;
+
+  const alpha = parseAlpha(css);
+  return {
+    colorSpace: 'srgb',
+    components: rgb.map((channel) => Math.round(channel * 10000) / 10000),
+    ...(alpha < 1 && { alpha }),
+    hex: formatHexColor(rgb),
+  };
+}
+
+function toTokenDimension(css: string): TokenDimension | undefined {
+  const match = /^(-?\d*\.?\d+)(px|rem)?$/.exec(css.trim());
+  if (!match || (!match[2] && parseFloat(match[1]) !== 0)) return undefined;
+  return { value: parseFloat(match[1]), unit: (match[2] ?? 'px') as TokenDimension['unit'] };
+}
+
+/** Size in px of a DTCG dimension, counting 1rem as 16px */
+function toPixels(value: unknown): number | undefined {
+  const css = toCssDimension(value);
+  const dimension = css === undefined ? undefined : toTokenDimension(css);
+  if (!dimension) return undefined;
+  return dimension.unit === 'rem' ? dimension.value * 16 : dimension.value;
+}
+
+function getExtension(node: unknown): Record<string, unknown> | undefined {
+  const extensions = isPlainObject(node) ? node.$extensions : undefined;
+  const extension = isPlainObject(extensions) ? extensions[TOKEN_EXTENSION] : undefined;
+  return isPlainObject(extension) ? extension : undefined;
+}
+
+function toTokenShadow(css: string): TokenShadow[] {
+  if (css === 'none') return [];
+
+  // Split on commas outside parentheses
+  return css.split(/,(?![^(]*\))/).map((layer) => {
+    const match = /^(inset\s+)?(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(.+)$/.exec(layer.trim());
+    const lengths = match?.slice(2, 6).map(toTokenDimension);
+    if (!match || !lengths?.every(Boolean)) {
+      throw new Error(`Cannot convert the shadow "${css}" to a design token`);
+    }
+
+    const [offsetX, offsetY, blur, spread] = lengths as TokenDimension[];
+    return {
+      color: toTokenColor(match[6]),
+      offsetX,
+      offsetY,
+      blur,
+      spread,
+      ...(match[1] && { inset: true }),
+    };
+  });
+}
+
+/**
+ * Convert a DTCG color (or the CSS color string of earlier drafts) to CSS
+ */
+function toCssColor(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (!isPlainObject(value)) return undefined;
+
+  const { colorSpace, components, alpha, hex } = value;
+  const channels =
+    Array.isArray(components) &&
+    components.length === 3 &&
+    components.every((channel) => typeof channel === 'number')
+      ? (components as number[])
+      : undefined;
+  const suffix = typeof alpha === 'number' && alpha < 1 ? ` / ${alpha}` : '';
+
+  if (colorSpace === 'srgb' && channels) {
+    return suffix
+      ? `rgb(${channels.map((channel) => Math.round(channel * 255)).join(' ')}${suffix})`
+      : formatHexColor(channels as Rgb);
+  }
+  if (colorSpace === 'oklch' && channels) return `oklch(${channels.join(' ')}${suffix})`;
+  // `hex` is the fallback the format defines for other color spaces
+  return typeof hex === 'string' ? hex : undefined;
+}
+
+function toCssDimension(value: unknown): string | undefined {
+  const dimension = typeof value === 'string' ? toTokenDimension(value) : value;
+  if (
+    !isPlainObject(dimension) ||
+    typeof dimension.value !== 'number' ||
+    typeof dimension.unit !== 'string'
+  ) {
+    return undefined;
+  }
+  return dimension.value === 0 ? '0' : `${dimension.value}${dimension.unit}`;
+}
+
+function toCssShadow(value: unknown, resolve: (value: unknown) => unknown): string | undefined {
+  const layers = Array.isArray(value) ? value : [value];
+  if (layers.length === 0) return 'none';
+
+  const parts = layers.map((layer) => {
+    if (!isPlainObject(layer)) return undefined;
+    const lengths = [layer.offsetX, layer.offsetY, layer.blur, layer.spread].map((length) =>
+      toCssDimension(resolve(length))
+    );
+    const color = toCssColor(resolve(layer.color));
+    if (!color || lengths.some((length) => length === undefined)) return undefined;
+    return [layer.inset === true && 'inset', ...lengths, color].filter(Boolean).join(' ');
+  });
+  return parts.every(Boolean) ? parts.join(', ') : undefined;
+}
+
+function flattenTokens(
+  node: Record<string, unknown>,
+  path: string[],
+  inheritedType: string | undefined,
+  tokens: Map<string, FlatToken>
+): void {
+  const type = typeof node.$type === 'string' ? node.$type : inheritedType;
+  if ('$value' in node) {
+    tokens.set(path.join('.'), { type, value: node.$value });
+    return;
+  }
+
+  for (const [key, child] of Object.entries(node)) {
+    if (key.startsWith('$') || !isPlainObject(child)) continue;
+    flattenTokens(child, [...path, key], type, tokens);
+  }
+}
+
+function describeChoices(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([choice, css]) => `${choice} ${css}`)
+    .join(', ');
+}
+
+/**
+ * Export a theme as W3C Design Tokens Community Group JSON
+ *
+ * Token paths mirror the ThemeConfig paths: `brand.colors.primary`,
+ * `brand.fonts.heading.family`, `brand.fonts.heading.weights.600`,
+ * `design.borderRadius`, `design.shadows`, `design.spacing.section`,
+ * `colors.slate.500`, `typography.baseSize`, `typography.lineHeight.body` and
+ * `colorSchemes.dark.slate.900`. Design choices are written as the dimensions
+ * and shadows they stand for. Settings without a token type (fluid sizing,
+ * letter spacing and a scheme's `colorScheme`) go in the group's `$extensions`.
+ *
+ * @example
+ * fs.writeFileSync('tokens.json', exportThemeTokens(theme))
+ */
+export function exportThemeTokens(theme: ThemeConfig): string {
+  const colorGroup = (colors: Record<string, string | undefined>) => ({
+    $type: 'color',
+    ...Object.fromEntries(
+      Object.entries(colors)
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(([name, color]) => [name, { $value: toTokenColor(color) }])
+    ),
+  });
+  const fontGroup = ({ family, weights, fallback }: ThemeConfig['brand']['fonts']['heading']) => ({
+    family: {
+      $type: 'fontFamily',
+      $value: [family, ...fallback.split(',').map((name) => name.trim())].filter(Boolean),
+    },
+    weights: {
+      $type: 'fontWeight',
+      ...Object.fromEntries(weights.map((weight) => [String(weight), { $value: weight }])),
+    },
+  });
+  const colorToken = (color: string | undefined) =>
+    color === undefined ? undefined : { $type: 'color', $value: toTokenColor(color) };
+  const extensions = (values: Record<string, unknown>) =>
+    Object.values(values).some((value) => value !== undefined)
+      ? { $extensions: { [TOKEN_EXTENSION]: values } }
+      : undefined;
+  const typographyGroup = (typography: TypographyConfig) => {
+    const { baseSize, scaleRatio, fluid, lineHeight, letterSpacing } = typography;
+    return {
+      ...extensions({ fluid, letterSpacing }),
+      baseSize:
+        baseSize === undefined
+          ? undefined
+          : { $type: 'dimension', $value: { value: baseSize, unit: 'px' } },
+      scaleRatio: scaleRatio === undefined ? undefined : { $type: 'number', $value: scaleRatio },
+      lineHeight: lineHeight && {
+        $type: 'number',
+        ...Object.fromEntries(
+          Object.entries(lineHeight)
+            .filter(([, value]) => value !== undefined)
+            .map(([role, value]) => [role, { $value: value }])
+        ),
+      },
+    };
+  };
+  const schemeGroup = (scheme: ColorSchemeConfig) => ({
+    ...extensions({ colorScheme: scheme.colorScheme }),
+    brand: scheme.brand && colorGroup({ ...scheme.brand }),
+    slate: scheme.slate && colorGroup({ ...scheme.slate }),
+    background: colorToken(scheme.background),
+    foreground: colorToken(scheme.foreground),
+  });
+
+  const design = getDesignTokenValues(theme);
+  const document: DesignTokenDocument = {
+    $description: `${theme.brand.name} theme`,
+    $extensions: { [TOKEN_EXTENSION]: { name: theme.brand.name } },
+    brand: {
+      colors: colorGroup({ ...theme.brand.colors }),
+      fonts: {
+        heading: fontGroup(theme.brand.fonts.heading),
+        body: fontGroup(theme.brand.fonts.body),
+      },
+    },
+    design: {
+      borderRadius: { $type: 'dimension', $value: toTokenDimension(design.radius) },
+      shadows: { $type: 'shadow', $value: toTokenShadow(design.shadow) },
+      spacing: {
+        $type: 'dimension',
+        section: { $value: toTokenDimension(design.spaceSection) },
+        element: { $value: toTokenDimension(design.spaceElement) },
+      },
+    },
+    colors: {
+      slate: colorGroup({ ...theme.colors.slate }),
+      background: colorToken(theme.colors.background),
+      foreground: colorToken(theme.colors.foreground),
+    },
+    typography: theme.typography && typographyGroup(theme.typography),
+    colorSchemes:
+      theme.colorSchemes &&
+      Object.fromEntries(
+        Object.entries(theme.colorSchemes).map(([name, scheme]) => [name, schemeGroup(scheme)])
+      ),
+  };
+
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Build a validated theme from W3C Design Tokens Community Group JSON
+ *
+ * Reads the token paths and extensions exportThemeTokens() writes, following `{alias}`
+ * references. Design dimensions and shadows must match one of the
+ * `design` choices; the base theme's choice (or the default) is kept
+ * otherwise. Tokens that can't be mapped come back as warnings. Throws
+ * when the result isn't a valid theme, e.g. when colors are missing and
+ * no `base` is given.
+ *
+ * @example
+ * const { theme, warnings } = importThemeTokens(fs.readFileSync('tokens.json', 'utf8'), {
+ *   base: currentTheme,
+ * })
+ */
+export function importThemeTokens(
+  input: string | DesignTokenDocument,
+  options: ThemeTokenImportOptions = {}
+): ThemeTokenImportResult {
+  const document: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!isPlainObject(document)) {
+    throw new Error('Expected a design token file with a JSON object at the root');
+  }
+
+  const tokens = new Map<string, FlatToken>();
+  flattenTokens(document, [], undefined, tokens);
+
+  const { base } = options;
+  const warnings: ConfigIssue[] = [];
+  const used = new Set<string>();
+  const warn = (path: string, message: string) =>
+    warnings.push({ config: 'theme', path, message, severity: 'warning' });
+
+  const resolve = (token: FlatToken, path: string, depth = 0): FlatToken | undefined => {
+    const alias = typeof token.value === 'string' ? ALIAS_PATTERN.exec(token.value) : null;
+    if (!alias) return token;
+
+    const target = tokens.get(alias[1]);
+    if (!target || depth >= MAX_ALIAS_DEPTH) {
+      warn(path, `unresolved reference ${token.value}`);
+      return undefined;
+    }
+    used.add(alias[1]);
+    const resolved = resolve(target, path, depth + 1);
+    return resolved && { type: token.type ?? resolved.type, value: resolved.value };
+  };
+
+  const read = (path: string, type: string): unknown => {
+    const token = tokens.get(path);
+    if (!token) return undefined;
+    used.add(path);
+
+    const resolved = resolve(token, path);
+    if (resolved?.type && resolved.type !== type) {
+      warn(path, `expected a ${type} token, not ${resolved.type}`);
+      return undefined;
+    }
+    return resolved?.value;
+  };
+
+  const readColor = (path: string): string | undefined => {
+    const value = read(path, 'color');
+    if (value === undefined) return undefined;
+    const color = toCssColor(value);
+    if (!color) warn(path, 'unsupported color value');
+    return color;
+  };
+
+  const readNumber = (path: string): number | undefined => {
+    const value = read(path, 'number');
+    if (value === undefined || typeof value === 'number') return value;
+    warn(path, 'unsupported number value');
+    return undefined;
+  };
+
+  const readBrandColors = (prefix: string) => {
+    const colors: Partial<BrandColors> = {};
+    for (const key of BRAND_COLOR_KEYS) {
+      const color = readColor(`${prefix}.${key}`);
+      if (color) colors[key] = color;
+    }
+    return colors;
+  };
+
+  const readSlate = (prefix: string) => {
+    const shades: Partial<SlateColors> = {};
+    for (const shade of SLATE_SHADES) {
+      const color = readColor(`${prefix}.${shade}`);
+      if (color) shades[shade] = color;
+    }
+    return shades;
+  };
+
+  const brandColors = readBrandColors('brand.colors');
+  const slate = readSlate('colors.slate');
+
+  const fonts: Record<string, Partial<ThemeConfig['brand']['fonts']['heading']>> = {};
+  for (const role of ['heading', 'body'] as const) {
+    const font: Partial<ThemeConfig['brand']['fonts']['heading']> = {};
+    const family = read(`brand.fonts.${role}.family`, 'fontFamily');
+    const stack = typeof family === 'string' ? family.split(',') : family;
+    const names = (Array.isArray(stack) ? stack : [])
+      .map((name) => String(name).trim().replace(/^['"]|['"]$/g, ''))
+      .filter(Boolean);
+    if (names.length > 0) {
+      font.family = names[0];
+      if (names.length > 1) font.fallback = names.slice(1).join(', ');
+      else if (!base) font.fallback = 'sans-serif';
+    } else if (family !== undefined) {
+      warn(`brand.fonts.${role}.family`, 'unsupported font family value');
+    }
+
+    const weights = new Set<number>();
+    const prefix = `brand.fonts.${role}.weights.`;
+    for (const path of [...tokens.keys()].filter((key) => key.startsWith(prefix))) {
+      const value = read(path, 'fontWeight');
+      const weight = typeof value === 'string' ? FONT_WEIGHT_NAMES[value] : value;
+      if (typeof weight === 'number' && weight >= 1 && weight <= 1000) weights.add(weight);
+      else if (value !== undefined) warn(path, `unsupported font weight ${JSON.stringify(value)}`);
+    }
+    if (weights.size > 0) font.weights = [...weights].sort((a, b) => a - b);
+
+    fonts[role] = font;
+  }
+
+  const design = { ...(base?.design ?? DEFAULT_DESIGN) };
+  const matchChoice = <K extends string>(
+    path: string,
+    values: Record<K, string>,
+    css: string | undefined,
+    raw: unknown
+  ): K | undefined => {
+    if (raw === undefined) return undefined;
+    const choice = (Object.keys(values) as K[]).find((key) => values[key] === css);
+    if (!choice) {
+      warn(path, `${css ?? JSON.stringify(raw)} matches no choice (${describeChoices(values)})`);
+    }
+    return choice;
+  };
+
+  const radius = read('design.borderRadius', 'dimension');
+  design.borderRadius =
+    matchChoice('design.borderRadius', RADIUS_VALUES, toCssDimension(radius), radius) ??
+    design.borderRadius;
+
+  const shadow = read('design.shadows', 'shadow');
+  const resolveNested = (value: unknown) =>
+    typeof value === 'string' && ALIAS_PATTERN.test(value)
+      ? resolve({ value }, 'design.shadows')?.value
+      : value;
+  design.shadows =
+    matchChoice('design.shadows', SHADOW_VALUES, toCssShadow(shadow, resolveNested), shadow) ??
+    design.shadows;
+
+  const section = read('design.spacing.section', 'dimension');
+  const element = read('design.spacing.element', 'dimension');
+  if (section !== undefined || element !== undefined) {
+    const spacing = (Object.keys(SPACING_VALUES) as Array<ThemeConfig['design']['spacing']>).find(
+      (key) =>
+        (section === undefined || SPACING_VALUES[key].section === toCssDimension(section)) &&
+        (element === undefined || SPACING_VALUES[key].element === toCssDimension(element))
+    );
+    if (spacing) {
+      design.spacing = spacing;
+    } else {
+      const choices = Object.entries(SPACING_VALUES)
+        .map(([key, { section, element }]) => `${key} ${section}/${element}`)
+        .join(', ');
+      warn('design.spacing', `section and element spacing match no choice (${choices})`);
+    }
+  }
+
+  const background = readColor('colors.background');
+  const foreground = readColor('colors.foreground');
+
+  const typography: TypographyConfig = {};
+  const baseSize = read('typography.baseSize', 'dimension');
+  if (baseSize !== undefined) {
+    typography.baseSize = toPixels(baseSize);
+    if (typography.baseSize === undefined) {
+      warn('typography.baseSize', 'unsupported dimension value');
+    }
+  }
+  const scaleRatio = readNumber('typography.scaleRatio');
+  if (scaleRatio !== undefined) typography.scaleRatio = scaleRatio;
+  const lineHeight: NonNullable<TypographyConfig['lineHeight']> = {};
+  for (const role of ['body', 'heading'] as const) {
+    const value = readNumber(`typography.lineHeight.${role}`);
+    if (value !== undefined) lineHeight[role] = value;
+  }
+  if (Object.keys(lineHeight).length > 0) typography.lineHeight = lineHeight;
+  const typographyExtension = getExtension(document.typography);
+  const fluid = typographyExtension?.fluid;
+  if (typeof fluid === 'boolean' || isPlainObject(fluid)) {
+    typography.fluid = fluid as TypographyConfig['fluid'];
+  }
+  const letterSpacing = typographyExtension?.letterSpacing;
+  if (isPlainObject(letterSpacing)) {
+    typography.letterSpacing = letterSpacing as TypographyConfig['letterSpacing'];
+  }
+
+  const colorSchemes: Record<string, ColorSchemeConfig> = {};
+  const schemeGroups = isPlainObject(document.colorSchemes) ? document.colorSchemes : {};
+  for (const [name, group] of Object.entries(schemeGroups)) {
+    if (name.startsWith('$') || !isPlainObject(group)) continue;
+    const prefix = `colorSchemes.${name}`;
+    const scheme: ColorSchemeConfig = {};
+    const colorScheme = getExtension(group)?.colorScheme;
+    if (colorScheme === 'light' || colorScheme === 'dark') scheme.colorScheme = colorScheme;
+    const schemeBrand = readBrandColors(`${prefix}.brand`);
+    if (Object.keys(schemeBrand).length > 0) scheme.brand = schemeBrand;
+    const schemeSlate = readSlate(`${prefix}.slate`);
+    if (Object.keys(schemeSlate).length > 0) scheme.slate = schemeSlate;
+    scheme.background = readColor(`${prefix}.background`);
+    scheme.foreground = readColor(`${prefix}.foreground`);
+    colorSchemes[name] = scheme;
+  }
+
+  for (const path of tokens.keys()) {
+    if (!used.has(path)) warn(path, 'unknown token');
+  }
+
+  const extension = getExtension(document);
+  const name =
+    options.name ??
+    (typeof extension?.name === 'string' ? extension.name : undefined) ??
+    base?.brand.name ??
+    'My Company';
+
+  const overlay = {
+    brand: { name, colors: brandColors, fonts },
+    design,
+    colors: { slate, background, foreground },
+    ...(Object.keys(typography).length > 0 && { typography }),
+    ...(Object.keys(colorSchemes).length > 0 && { colorSchemes }),
+  } as ConfigOverlay<ThemeConfig>;
+  const theme = base
+    ? applyConfigOverlay<ThemeConfig>(base, overlay).config
+    : (JSON.parse(JSON.stringify(overlay)) as ThemeConfig);
+
+  const validation = validateSiteConfig({ theme });
+  if (!validation.valid) {
+    throw new Error(`Invalid design tokens:\n${formatConfigIssues(validation)}`);
+  }
+
+  return { theme, warnings: [...warnings, ...validation.warnings] };
+}
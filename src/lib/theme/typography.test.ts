@@ -0,0 +1,99 @@
+// ABOUTME: Tests for the modular type scale and its CSS variables
+// ABOUTME: Validates static and fluid clamp() sizes, defaults and generated design tokens
+
+import { describe, it, expect } from 'vitest'
+import { getTypeScale, getTypographyValues, TYPE_SCALE_CLASSES } from './typography'
+import { generateDesignTokens } from './generate-css'
+import { getConfigSchemas } from '../../config/validation'
+import { createTestTheme } from '../../test/fixtures'
+
+describe('getTypeScale', () => {
+  it('should multiply the base size by the ratio for each step', () => {
+    const scale = getTypeScale({
+      ...createTestTheme(),
+      typography: { baseSize: 18, scaleRatio: 1.5, fluid: false },
+    })
+
+    expect(scale.body).toBe('1.125rem')
+    expect(scale.lead).toBe('1.6875rem')
+    expect(scale.h2).toBe('3.7969rem')
+    expect(scale.small).toBe('0.75rem')
+  })
+
+  it('should default to fluid sizes on a 16px base and 1.333 ratio', () => {
+    const scale = getTypeScale(createTestTheme())
+    const fixed = getTypeScale({ ...createTestTheme(), typography: { fluid: false } })
+
+    expect(scale.body).toBe('1rem')
+    expect(scale.h3).toBe('clamp(1.44rem, 1.3004rem + 0.5956vw, 1.7769rem)')
+    expect(fixed.h3).toBe('1.7769rem')
+    expect(fixed.display).toBe('4.2087rem')
+  })
+
+  it('should clamp fluid sizes between the small and full scales', () => {
+    const scale = getTypeScale({
+      ...createTestTheme(),
+      typography: {
+        scaleRatio: 1.5,
+        fluid: { minViewport: 320, maxViewport: 1280, minScaleRatio: 1.25 },
+      },
+    })
+
+    // 31.25px at 320px wide to 54px at 1280px wide
+    expect(scale.h2).toBe('clamp(1.9531rem, 1.4792rem + 2.3698vw, 3.375rem)')
+    expect(scale.small).toBe('clamp(0.6667rem, 0.8444rem - 0.2222vw, 0.8rem)')
+    expect(scale.body).toBe('1rem')
+    expect(getTypeScale({ ...createTestTheme(), typography: { fluid: true } }).h1).toMatch(
+      /^clamp\(/
+    )
+  })
+})
+
+describe('typography tokens', () => {
+  it('should emit size, line height and letter spacing variables', () => {
+    const css = generateDesignTokens({
+      ...createTestTheme(),
+      typography: { lineHeight: { heading: 1.1 }, letterSpacing: { heading: '-0.02em' } },
+    })
+
+    expect(css).toContain('--font-size-h1: clamp(2.0736rem, 1.6245rem + 1.916vw, 3.1573rem);')
+    expect(css).toContain('--font-size-body: 1rem;')
+    expect(css).toContain('--line-height-heading: 1.1;')
+    expect(css).toContain('--line-height-body: 1.625;')
+    expect(css).toContain('--letter-spacing-heading: -0.02em;')
+    expect(getTypographyValues(createTestTheme()).letterSpacing.body).toBe('normal')
+  })
+
+  it('should validate the typography block', () => {
+    const { theme } = getConfigSchemas()
+
+    const parse = (typography: object) => theme.safeParse({ ...createTestTheme(), typography })
+
+    expect(parse({ fluid: true }).success).toBe(true)
+    expect(parse({ fluid: { minViewport: 320 }, lineHeight: { body: 1.5 } }).success).toBe(true)
+    expect(parse({ scaleRatio: 0.8 }).success).toBe(false)
+  })
+})
+
+describe('TYPE_SCALE_CLASSES', () => {
+  it('should read the generated variables with a stock Tailwind fallback', () => {
+    const css = generateDesignTokens(createTestTheme())
+
+    for (const [step, value] of Object.entries(TYPE_SCALE_CLASSES)) {
+      const classes = value.split(' ')
+      const variables = classes.map((name) => name.match(/var\((--[\w-]+),[^)]+\)/)?.[1])
+
+      expect(classes[0]).toMatch(/^text-\[length:var\(--font-size-[\w]+,[\d.]+rem\)\]$/)
+      expect(variables[0]).toBe(`--font-size-${step}`)
+      for (const variable of variables) {
+        expect(variable).toBeDefined()
+        expect(css).toContain(`${variable}:`)
+      }
+    }
+  })
+
+  it('should use the heading line height for headings only', () => {
+    expect(TYPE_SCALE_CLASSES.h2).toContain('leading-[var(--line-height-heading,1.25)]')
+    expect(TYPE_SCALE_CLASSES.lead).toContain('leading-[var(--line-height-body,1.625)]')
+  })
+})
@@ -0,0 +1,142 @@
+// ABOUTME: Modular type scale from the theme's typography settings
+// ABOUTME: Computes static or fluid clamp() font sizes, line heights and letter spacing
+
+import { type ThemeConfig, type FluidTypographyConfig } from '../../config/theme.schema';
+
+/** Text styles of the type scale, from the largest */
+export type TypeScaleStep = 'display' | 'h1' | 'h2' | 'h3' | 'h4' | 'lead' | 'body' | 'small';
+
+export type TypeScale = Record<TypeScaleStep, string>;
+
+export interface TypographyValues {
+  /** CSS font size of each step, a `clamp()` when fluid */
+  sizes: TypeScale;
+  lineHeight: { body: string; heading: string };
+  letterSpacing: { body: string; heading: string };
+}
+
+/** Power of the scale ratio applied to the base size for each step */
+export const TYPE_SCALE_STEPS: Record<TypeScaleStep, number> = {
+  display: 5,
+  h1: 4,
+  h2: 3,
+  h3: 2,
+  h4: 1,
+  lead: 1,
+  body: 0,
+  small: -1,
+};
+
+/**
+ * Tailwind classes of each step, spelled out for Tailwind's class scanner
+ *
+ * They read the variables from generateThemeCSS() and fall back to the
+ * stock Tailwind sizes, so they work with or without createTailwindPreset().
+ */
+export const TYPE_SCALE_CLASSES: Record<TypeScaleStep, string> = {
+  display:
+    'text-[length:var(--font-size-display,3.75rem)] leading-[var(--line-height-heading,1.25)] ' +
+    'tracking-[var(--letter-spacing-heading,normal)]',
+  h1:
+    'text-[length:var(--font-size-h1,3rem)] leading-[var(--line-height-heading,1.25)] ' +
+    'tracking-[var(--letter-spacing-heading,normal)]',
+  h2:
+    'text-[length:var(--font-size-h2,2.25rem)] leading-[var(--line-height-heading,1.25)] ' +
+    'tracking-[var(--letter-spacing-heading,normal)]',
+  h3:
+    'text-[length:var(--font-size-h3,1.5rem)] leading-[var(--line-height-heading,1.25)] ' +
+    'tracking-[var(--letter-spacing-heading,normal)]',
+  h4:
+    'text-[length:var(--font-size-h4,1.25rem)] leading-[var(--line-height-heading,1.25)] ' +
+    'tracking-[var(--letter-spacing-heading,normal)]',
+  lead:
+    'text-[length:var(--font-size-lead,1.125rem)] leading-[var(--line-height-body,1.625)] ' +
+    'tracking-[var(--letter-spacing-body,normal)]',
+  body:
+    'text-[length:var(--font-size-body,1rem)] leading-[var(--line-height-body,1.625)] ' +
+    'tracking-[var(--letter-spacing-body,normal)]',
+  small:
+    'text-[length:var(--font-size-small,0.875rem)] leading-[var(--line-height-body,1.625)] ' +
+    'tracking-[var(--letter-spacing-body,normal)]',
+};
+
+const DEFAULT_BASE_SIZE = 16;
+const DEFAULT_SCALE_RATIO = 1.333;
+
+const DEFAULT_FLUID: Required<Omit<FluidTypographyConfig, 'minBaseSize'>> = {
+  minViewport: 375,
+  maxViewport: 1280,
+  minScaleRatio: 1.2,
+};
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function toRem(px: number): string {
+  return `${round(px / 16)}rem`;
+}
+
+/**
+ * Font size between two sizes that grows linearly with the viewport
+ */
+function fluidSize(minPx: number, maxPx: number, minViewport: number, maxViewport: number) {
+  if (round(minPx) === round(maxPx)) return toRem(maxPx);
+
+  const slope = (maxPx - minPx) / (maxViewport - minViewport);
+  const intercept = minPx - slope * minViewport;
+  const [lower, upper] = minPx <= maxPx ? [minPx, maxPx] : [maxPx, minPx];
+  const growth = `${slope < 0 ? '-' : '+'} ${round(Math.abs(slope) * 100)}vw`;
+  return `clamp(${toRem(lower)}, ${toRem(intercept)} ${growth}, ${toRem(upper)})`;
+}
+
+/**
+ * Get the font size of every step of the theme's type scale
+ *
+ * Each step is the base size times the scale ratio to the power of the
+ * step. Sizes are fluid unless `fluid` is false: they run from the
+ * `minBaseSize` and `minScaleRatio` scale at `minViewport` to the full scale
+ * at `maxViewport`, so headings shrink more than body text on small screens.
+ *
+ * @example
+ * getTypeScale(theme).h2 // 'clamp(1.728rem, ...)', or '2.3686rem' with `fluid: false`
+ */
+export function getTypeScale(theme: ThemeConfig): TypeScale {
+  const typography = theme.typography ?? {};
+  const baseSize = typography.baseSize ?? DEFAULT_BASE_SIZE;
+  const ratio = typography.scaleRatio ?? DEFAULT_SCALE_RATIO;
+  const fluid = typeof typography.fluid === 'object' ? typography.fluid : typography.fluid ?? true;
+
+  const scale = {} as TypeScale;
+  for (const [name, step] of Object.entries(TYPE_SCALE_STEPS)) {
+    const maxPx = baseSize * ratio ** step;
+    if (fluid === false) {
+      scale[name as TypeScaleStep] = toRem(maxPx);
+      continue;
+    }
+
+    const settings = fluid === true ? {} : fluid;
+    const { minViewport, maxViewport, minScaleRatio } = { ...DEFAULT_FLUID, ...settings };
+    const minPx = (settings.minBaseSize ?? baseSize) * minScaleRatio ** step;
+    scale[name as TypeScaleStep] = fluidSize(minPx, maxPx, minViewport, maxViewport);
+  }
+  return scale;
+}
+
+/**
+ * Get the theme's font sizes, line heights and letter spacing as CSS values
+ */
+export function getTypographyValues(theme: ThemeConfig): TypographyValues {
+  const { lineHeight, letterSpacing } = theme.typography ?? {};
+  return {
+    sizes: getTypeScale(theme),
+    lineHeight: {
+      body: String(lineHeight?.body ?? 1.625),
+      heading: String(lineHeight?.heading ?? 1.25),
+    },
+    letterSpacing: {
+      body: letterSpacing?.body ?? 'normal',
+      heading: letterSpacing?.heading ?? 'normal',
+    },
+  };
+}
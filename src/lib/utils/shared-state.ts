@@ -0,0 +1,19 @@
+// ABOUTME: Module state shared by every bundled copy of the framework
+// ABOUTME: Keeps settings such as configureLocales() in one place across package entries
+
+/**
+ * Get a state object shared by every copy of the calling module
+ *
+ * Each package entry (main, components, middleware) bundles its own copy of
+ * the library code, so a module-level variable set through one entry would
+ * not be seen by the others. The state lives on `globalThis` under a
+ * registered symbol instead, created on first use.
+ *
+ * @example
+ * const state = getSharedState('routes', () => ({ manifest: defineRoutes({}) }))
+ */
+export function getSharedState<T extends object>(name: string, create: () => T): T {
+  const key = Symbol.for(`@zoyth/simple-site-framework/${name}`);
+  const store = globalThis as unknown as Record<symbol, T | undefined>;
+  return (store[key] ??= create());
+}
@@ -0,0 +1,10 @@
+// ABOUTME: Middleware export
+// ABOUTME: Edge-safe helpers for Next.js middleware.ts (no Node or React imports)
+
+export { createLocaleMiddleware } from '../lib/i18n/middleware';
+export { configureLocales } from '../lib/i18n/config';
+export { defineRoutes, configureRoutes } from '../lib/i18n/routes';
+export type { LocaleMiddlewareOptions, LocaleDomain } from '../lib/i18n/middleware';
+export { negotiateLocale } from '../lib/i18n/negotiate';
+export { LOCALE_COOKIE_NAME } from '../lib/i18n/locale-cookie';
+export { SITE_PATHNAME_HEADER } from '../lib/sites/resolver';
@@ -0,0 +1,15 @@
+// ABOUTME: Server-only export
+// ABOUTME: Node and request APIs (file system, request headers) that must never be bundled into client code
+
+export {
+  loadSiteContent,
+  formatContentFileIssues,
+  ContentLoadError,
+} from '../lib/content/loader';
+export type {
+  ContentFileIssue,
+  LoadSiteContentOptions,
+  LoadedSiteContent,
+} from '../lib/content/loader';
+export { getActiveSite } from '../lib/sites/server';
+export type { GetActiveSiteOptions } from '../lib/sites/server';
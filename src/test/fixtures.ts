@@ -0,0 +1,119 @@
+// ABOUTME: Shared configuration fixtures for tests
+// ABOUTME: Minimal but complete theme, content and navigation objects
+
+import type { ThemeConfig } from '../config/theme.schema'
+import type { SiteContent } from '../config/content.schema'
+import type { NavigationConfig } from '../config/navigation.schema'
+
+export function createTestTheme(): ThemeConfig {
+  return {
+    brand: {
+      name: 'Test Co',
+      colors: {
+        primary: '#0066cc',
+        primaryHover: '#0052a3',
+        primaryLight: '#e6f0fa',
+        primaryDark: '#003d7a',
+        primaryGradientStart: '#0066cc',
+        primaryGradientEnd: '#003d7a',
+        heroGradientStart: '#0f172a',
+        heroGradientEnd: '#1e293b',
+        footerGradientStart: '#0f172a',
+        footerGradientEnd: '#020617',
+      },
+      fonts: {
+        heading: { family: 'Inter', weights: [600, 700], fallback: 'sans-serif' },
+        body: { family: 'Inter', weights: [400, 500], fallback: 'sans-serif' },
+      },
+    },
+    design: {
+      borderRadius: 'rounded',
+      shadows: 'subtle',
+      spacing: 'comfortable',
+    },
+    colors: {
+      slate: {
+        50: '#f8fafc',
+        100: '#f1f5f9',
+        200: '#e2e8f0',
+        300: '#cbd5e1',
+        400: '#94a3b8',
+        500: '#64748b',
+        600: '#475569',
+        700: '#334155',
+        800: '#1e293b',
+        900: '#0f172a',
+      },
+    },
+  }
+}
+
+export function createTestContent(): SiteContent {
+  return {
+    metadata: {
+      siteName: 'Test Co',
+      siteUrl: 'https://example.com',
+      defaultLocale: 'en',
+      supportedLocales: ['en', 'fr'],
+      contactEmail: 'hello@example.com',
+      contactPhone: '+15145550100',
+      address: {
+        street: '1 Main St',
+        city: 'Montreal',
+        province: 'QC',
+        postalCode: 'H2X 1Y4',
+        country: 'Canada',
+      },
+    },
+    hero: {
+      headline: { en: 'Welcome', fr: 'Bienvenue' },
+      subheadline: { en: 'We help', fr: 'Nous aidons' },
+      cta: {
+        primary: { text: { en: 'Contact us', fr: 'Contactez-nous' }, href: '/contact' },
+      },
+    },
+    about: {
+      heading: { en: 'About', fr: 'À propos' },
+      paragraphs: [{ en: 'Since 1990', fr: 'Depuis 1990' }],
+    },
+    whyChooseUs: {
+      heading: { en: 'Why us', fr: 'Pourquoi nous' },
+      paragraphs: [{ en: 'Experience', fr: 'Expérience' }],
+    },
+    services: {
+      heading: { en: 'Services', fr: 'Services' },
+      description: { en: 'What we do', fr: 'Ce que nous faisons' },
+      items: [
+        {
+          id: 'tax',
+          name: { en: 'Tax', fr: 'Impôts' },
+          description: { en: 'Tax returns', fr: "Déclarations d'impôts" },
+          href: '/services/tax',
+        },
+      ],
+    },
+  }
+}
+
+export function createTestNavigation(): NavigationConfig {
+  return {
+    header: {
+      logo: { text: { en: 'Test Co', fr: 'Test Co' }, href: '/' },
+      mainNav: [
+        { id: 'about', label: { en: 'About', fr: 'À propos' }, href: '/about' },
+        {
+          id: 'services',
+          type: 'dropdown',
+          label: { en: 'Services', fr: 'Services' },
+          children: [
+            { id: 'tax', label: { en: 'Tax', fr: 'Impôts' }, href: '/services/tax' },
+          ],
+        },
+      ],
+      utilityNav: [],
+    },
+    footer: {
+      copyright: { en: '© Test Co', fr: '© Test Co' },
+    },
+  }
+}
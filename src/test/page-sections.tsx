@@ -0,0 +1,20 @@
+// ABOUTME: Client wrapper around SectionRenderer that registers a custom section
+// ABOUTME: Mirrors the README pattern for registering sections inside the client tree
+
+'use client'
+
+import {
+  SectionRenderer,
+  registerSection,
+  type SectionRendererProps,
+} from '../components/sections/SectionRenderer'
+
+function TeamSection({ content }: { content: { members: string[] } }) {
+  return <ul>{content.members.map((member) => <li key={member}>{member}</li>)}</ul>
+}
+
+registerSection('team', TeamSection)
+
+export function PageSections(props: SectionRendererProps) {
+  return <SectionRenderer {...props} />
+}
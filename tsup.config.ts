@@ -1,32 +1,34 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig([
-  // Main index and config - no 'use client' banner
-  {
-    entry: {
-      index: 'src/index.ts',
-      'config/index': 'src/config/index.ts',
-    },
-    format: ['cjs', 'esm'],
-    dts: true,
-    splitting: false,
-    sourcemap: true,
-    clean: true,
-    external: ['react', 'react-dom', 'next'],
+const COMPONENTS_ENTRY = 'src/components/index.ts';
+
+// One build so the entries' type declarations share common chunks. Each entry
+// bundles its own copy of the library code; module state such as
+// configureLocales() lives on globalThis (src/lib/utils/shared-state.ts)
+export default defineConfig({
+  entry: {
+    index: 'src/index.ts',
+    'components/index': COMPONENTS_ENTRY,
+    'config/index': 'src/config/index.ts',
+    'server/index': 'src/server/index.ts',
+    'middleware/index': 'src/middleware/index.ts',
   },
-  // Components - needs 'use client' banner
-  {
-    entry: {
-      'components/index': 'src/components/index.ts',
+  format: ['cjs', 'esm'],
+  dts: true,
+  splitting: false,
+  sourcemap: true,
+  clean: true,
+  external: ['react', 'react-dom', 'next'],
+  plugins: [
+    {
+      // Components need a 'use client' banner; the other entries must not get
+      // one or server code importing them would become client references
+      name: 'use-client-banner',
+      renderChunk(code, chunk) {
+        if (chunk.entryPoint !== COMPONENTS_ENTRY || !/\.m?js$/.test(chunk.path)) return;
+        // Same line, so source maps stay aligned
+        return { code: `'use client';${code}` };
+      },
     },
-    format: ['cjs', 'esm'],
-    dts: true,
-    splitting: false,
-    sourcemap: true,
-    clean: false, // Don't clean since first config already did
-    external: ['react', 'react-dom', 'next'],
-    banner: {
-      js: "'use client';",
-    },
-  },
-]);
+  ],
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Tests that build the package with tsup and load the bundled entries
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.build.test.ts'],
+    testTimeout: 30_000,
+  },
+})
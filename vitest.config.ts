@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config'
+import { configDefaults, defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 
@@ -9,6 +9,8 @@ export default defineConfig({
     environment: 'jsdom',
     setupFiles: ['./src/test/setup.ts'],
     include: ['src/**/*.{test,spec}.{ts,tsx}'],
+    // Tests against the built package run with `npm run test:build`
+    exclude: [...configDefaults.exclude, 'src/**/*.build.test.ts'],
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],